@@ -0,0 +1,91 @@
+// Service worker for the PDA fleet: keeps the scan pages and OCR assets usable with no network.
+// Bump CACHE_VERSION whenever PRECACHE changes.
+const CACHE_VERSION = "mo-v1";
+
+// Tesseract loads these from jsDelivr by default; the URLs follow the installed
+// versions (tesseract.js 6.0.1, tesseract.js-core 6.0.0, LSTM-only language data).
+// Keep them in sync when upgrading tesseract.js.
+const TESSERACT_ASSETS = [
+	"https://cdn.jsdelivr.net/npm/tesseract.js@v6.0.1/dist/worker.min.js",
+	"https://cdn.jsdelivr.net/npm/tesseract.js-core@v6.0.0/tesseract-core-simd-lstm.wasm.js",
+	"https://cdn.jsdelivr.net/npm/tesseract.js-core@v6.0.0/tesseract-core-lstm.wasm.js",
+	"https://cdn.jsdelivr.net/npm/@tesseract.js-data/kor/4.0.0_best_int/kor.traineddata.gz",
+	"https://cdn.jsdelivr.net/npm/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz",
+];
+
+const PRECACHE = [
+	"/",
+	"/scan",
+	"/ckd/scan",
+	"/inventory/receive",
+	"/inventory/dispose",
+	"/manifest.webmanifest",
+	"/icon.svg",
+	"/pdf.worker.min.mjs",
+	...TESSERACT_ASSETS,
+];
+
+self.addEventListener("install", (event) => {
+	event.waitUntil(
+		caches.open(CACHE_VERSION)
+			// One missing asset should not block installing the rest
+			.then((cache) => Promise.allSettled(PRECACHE.map((url) => cache.add(url))))
+			.then(() => self.skipWaiting()),
+	);
+});
+
+self.addEventListener("activate", (event) => {
+	event.waitUntil(
+		caches.keys()
+			.then((keys) => Promise.all(keys.filter((k) => k !== CACHE_VERSION).map((k) => caches.delete(k))))
+			.then(() => self.clients.claim()),
+	);
+});
+
+async function cacheFirst(request) {
+	const cached = await caches.match(request);
+	if (cached) return cached;
+	const response = await fetch(request);
+	if (response.ok) {
+		const cache = await caches.open(CACHE_VERSION);
+		await cache.put(request, response.clone());
+	}
+	return response;
+}
+
+// Pages: fresh when online, last good copy when offline
+async function networkFirst(request) {
+	const cache = await caches.open(CACHE_VERSION);
+	try {
+		const response = await fetch(request);
+		if (response.ok) await cache.put(request, response.clone());
+		return response;
+	} catch (e) {
+		const cached = await cache.match(request, { ignoreSearch: true });
+		if (cached) return cached;
+		throw e;
+	}
+}
+
+self.addEventListener("fetch", (event) => {
+	const { request } = event;
+	if (request.method !== "GET") return;
+	const url = new URL(request.url);
+
+	if (TESSERACT_ASSETS.includes(request.url)) {
+		event.respondWith(cacheFirst(request));
+		return;
+	}
+	// Supabase and other APIs go straight to the network; offline writes are handled by the scan outbox
+	if (url.origin !== self.location.origin) return;
+
+	if (request.mode === "navigate") {
+		event.respondWith(networkFirst(request));
+	} else if (url.pathname.startsWith("/_next/static/") || url.pathname === "/pdf.worker.min.mjs") {
+		// Hashed build assets never change under the same URL
+		event.respondWith(cacheFirst(request));
+	} else if (url.pathname.startsWith("/_next/")) {
+		// RSC payloads for client-side navigation between cached pages
+		event.respondWith(networkFirst(request));
+	}
+});
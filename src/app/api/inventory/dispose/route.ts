@@ -0,0 +1,34 @@
+import { loadBarcodeSpec } from "../../../../lib/barcodeProfile";
+import { jsonRoute, optionalString, readJsonBody, requireBarcode, requireRole, RequestError, supabaseForRequest } from "../../../../lib/routeHandler";
+import type { DisposeResult } from "../../../../lib/api";
+
+// POST /api/inventory/dispose { barcode, profile_id? }
+// Only received -> disposed is allowed; unknown or already disposed barcodes are refused.
+export const POST = jsonRoute(async (req): Promise<DisposeResult> => {
+	const client = supabaseForRequest(req);
+	await requireRole(client, "supervisor");
+	const body = await readJsonBody(req);
+	const spec = await loadBarcodeSpec(client, optionalString(body, "profile_id"));
+	const barcode = requireBarcode(body, "barcode", spec);
+
+	const { data: existing, error: existingError } = await client
+		.from("mo_lq2_inventory")
+		.select("id, disposed_at")
+		.eq("barcode", barcode)
+		.maybeSingle();
+	if (existingError) throw existingError;
+	if (!existing) throw new RequestError(404, `Not received: ${barcode}`);
+	if (existing.disposed_at) throw new RequestError(409, `Already disposed: ${barcode}`);
+
+	// The disposed_at guard makes a concurrent second dispose update nothing
+	const { data, error } = await client
+		.from("mo_lq2_inventory")
+		.update({ disposed_at: new Date().toISOString() })
+		.eq("id", existing.id)
+		.is("disposed_at", null)
+		.select("barcode, received_at, disposed_at")
+		.maybeSingle();
+	if (error) throw error;
+	if (!data) throw new RequestError(409, `Already disposed: ${barcode}`);
+	return data as DisposeResult;
+});
@@ -0,0 +1,46 @@
+import { loadBarcodeSpec } from "../../../../lib/barcodeProfile";
+import { jsonRoute, optionalLabelData, optionalString, readJsonBody, requireBarcode, RequestError, supabaseForRequest } from "../../../../lib/routeHandler";
+import { isLocation } from "../../../../lib/location";
+import type { ReceiveResult } from "../../../../lib/api";
+
+// POST /api/inventory/receive { barcode, received_at?, profile_id?, label_data?, location? }
+// A barcode is received once. Receiving it again returns the first record (duplicate),
+// receiving a disposed barcode is refused. location is the rack/bin it was received at.
+export const POST = jsonRoute(async (req): Promise<ReceiveResult> => {
+	const client = supabaseForRequest(req);
+	const body = await readJsonBody(req);
+	const spec = await loadBarcodeSpec(client, optionalString(body, "profile_id"));
+	const barcode = requireBarcode(body, "barcode", spec);
+	const labelData = optionalLabelData(body, "label_data");
+	// Queued scans keep the time they were scanned, not the time they reached the server
+	const receivedAt = optionalString(body, "received_at") ?? new Date().toISOString();
+	if (Number.isNaN(Date.parse(receivedAt))) throw new RequestError(400, "received_at must be an ISO timestamp");
+	const location = optionalString(body, "location")?.trim().toUpperCase() || null;
+	if (location && !isLocation(location)) throw new RequestError(400, "location must be a location label like LOC-2F-A03");
+
+	const readExisting = async () => {
+		const { data, error } = await client
+			.from("mo_lq2_inventory")
+			.select("received_at, disposed_at")
+			.eq("barcode", barcode)
+			.maybeSingle();
+		if (error) throw error;
+		if (data?.disposed_at) throw new RequestError(409, `Already received and disposed: ${barcode}`);
+		return data;
+	};
+
+	const existing = await readExisting();
+	if (existing) return { barcode, received_at: existing.received_at, duplicate: true };
+
+	const { data: inserted, error } = await client
+		.from("mo_lq2_inventory")
+		.upsert([{ barcode, received_at: receivedAt, prefixes: spec.prefixes.join(","), label_data: labelData, location }], { onConflict: "barcode", ignoreDuplicates: true })
+		.select("received_at");
+	if (error) throw error;
+	if (inserted && inserted.length > 0) return { barcode, received_at: inserted[0].received_at, duplicate: false };
+
+	// Another device received it between the read and the insert: report its record
+	const raced = await readExisting();
+	if (!raced) throw new RequestError(409, `Receive conflicted, try again: ${barcode}`);
+	return { barcode, received_at: raced.received_at, duplicate: true };
+});
@@ -0,0 +1,109 @@
+import { matchesPrefix, normalizeBarcode, parsePrefixList } from "../../../../../lib/barcode";
+import { loadBarcodeSpec } from "../../../../../lib/barcodeProfile";
+import { jsonRoute, optionalString, readJsonBody, RequestError, supabaseForRequest } from "../../../../../lib/routeHandler";
+import { foldPackingColumns, type PackingColumns } from "../../../../../lib/packingList";
+import type { ManifestItemsResult } from "../../../../../lib/api";
+
+// Rows per request, kept under Supabase's request size limits
+const MAX_ITEMS = 500;
+
+// Columns read from the packing-list table; all optional
+function itemColumns(item: Record<string, unknown>, index: number): PackingColumns {
+	const text = (field: "case_no" | "part_no") => {
+		const value = item[field];
+		if (value == null) return null;
+		if (typeof value !== "string") throw new RequestError(400, `items[${index}].${field} must be a string`);
+		return value.trim() || null;
+	};
+	const quantity = item.quantity;
+	if (quantity != null && !(Number.isInteger(quantity) && (quantity as number) >= 0)) {
+		throw new RequestError(400, `items[${index}].quantity must be a non-negative integer`);
+	}
+	const weight = item.weight;
+	if (weight != null && !(typeof weight === "number" && Number.isFinite(weight) && weight >= 0)) {
+		throw new RequestError(400, `items[${index}].weight must be a non-negative number`);
+	}
+	return {
+		case_no: text("case_no"),
+		part_no: text("part_no"),
+		quantity: (quantity as number | null | undefined) ?? null,
+		weight: (weight as number | null | undefined) ?? null,
+	};
+}
+
+// Labels of one code listed on the manifest (default 1)
+function expectedCount(item: Record<string, unknown>, index: number): number {
+	const count = item.expected_count ?? 1;
+	if (!(Number.isInteger(count) && (count as number) >= 1)) {
+		throw new RequestError(400, `items[${index}].expected_count must be a positive integer`);
+	}
+	return count as number;
+}
+
+type ItemRow = { manifest_id: string; text: string; confidence: number; prefixes: string; expected_count: number } & PackingColumns;
+
+// POST /api/manifests/:id/items { items: [{ text, confidence?, expected_count?, case_no?, part_no?, quantity?, weight? }], prefixes?, profile_id?, complete? }
+// Adds OCR'd expected codes to a manifest. Codes are normalized and prefix-filtered here;
+// a code listed more than once becomes one row with expected_count. Length/pattern are not
+// enforced because OCR misreads are kept on purpose for similarity matching on the Search page.
+// A code already stored on the manifest is left as it is and reported in existing: the client
+// folds each code's repeats before batching, so it can only come back as a retried batch.
+// complete: true on the last batch marks the manifest complete, so it can be picked for sessions;
+// a complete manifest takes no more items.
+export const POST = jsonRoute(async (req, { params }: { params: Promise<{ id: string }> }): Promise<ManifestItemsResult> => {
+	const { id } = await params;
+	const client = supabaseForRequest(req);
+	const body = await readJsonBody(req);
+	if (!Array.isArray(body.items)) throw new RequestError(400, "items must be an array");
+	if (body.items.length > MAX_ITEMS) throw new RequestError(413, `At most ${MAX_ITEMS} items per request`);
+	if (body.complete !== undefined && typeof body.complete !== "boolean") throw new RequestError(400, "complete must be a boolean");
+	const prefixText = optionalString(body, "prefixes");
+	const prefixes = prefixText != null
+		? parsePrefixList(prefixText)
+		: (await loadBarcodeSpec(client, optionalString(body, "profile_id"))).prefixes;
+
+	const { data: manifest, error: manifestError } = await client
+		.from("mo_manifests")
+		.select("id, completed_at")
+		.eq("id", id)
+		.maybeSingle();
+	if (manifestError) throw manifestError;
+	if (!manifest) throw new RequestError(404, `Manifest not found: ${id}`);
+	if (manifest.completed_at) throw new RequestError(409, "Manifest is complete");
+
+	const rows = new Map<string, ItemRow>();
+	let duplicates = 0;
+	const rejected: string[] = [];
+	for (const [index, item] of (body.items as Array<Record<string, unknown>>).entries()) {
+		const text = normalizeBarcode(typeof item?.text === "string" ? item.text : "");
+		if (!text || !matchesPrefix(text, prefixes)) {
+			rejected.push(String(item?.text ?? ""));
+			continue;
+		}
+		const confidence = typeof item.confidence === "number" ? item.confidence : 0;
+		const row: ItemRow = { manifest_id: id, text, confidence, prefixes: prefixes.join(","), expected_count: expectedCount(item, index), ...itemColumns(item, index) };
+		const seen = rows.get(text);
+		if (seen) duplicates++;
+		rows.set(text, seen
+			? { ...seen, ...foldPackingColumns(seen, row), confidence: Math.min(seen.confidence, row.confidence), expected_count: seen.expected_count + row.expected_count }
+			: row);
+	}
+
+	let stored = 0;
+	const existing: string[] = [];
+	if (rows.size > 0) {
+		const { data: inserted, error } = await client
+			.from("mo_ocr_results")
+			.upsert([...rows.values()], { onConflict: "manifest_id,text", ignoreDuplicates: true })
+			.select("text");
+		if (error) throw error;
+		const insertedTexts = new Set((inserted ?? []).map(r => r.text as string));
+		stored = insertedTexts.size;
+		for (const text of rows.keys()) if (!insertedTexts.has(text)) existing.push(text);
+	}
+	if (body.complete === true) {
+		const { error } = await client.rpc("mo_complete_manifest", { p_manifest_id: id });
+		if (error) throw error;
+	}
+	return { stored, duplicates, rejected, existing };
+});
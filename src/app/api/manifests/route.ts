@@ -0,0 +1,23 @@
+import { jsonRoute, optionalString, readJsonBody, RequestError, supabaseForRequest } from "../../../lib/routeHandler";
+import type { Manifest } from "../../../lib/manifest";
+
+// POST /api/manifests { name, source_file?, page_count? }
+// Creates an empty manifest; its expected codes are added with POST /api/manifests/:id/items.
+// It stays incomplete (hidden from session and MATCH pickers) until the last batch says complete.
+export const POST = jsonRoute(async (req): Promise<Manifest> => {
+	const client = supabaseForRequest(req);
+	const body = await readJsonBody(req);
+	const name = optionalString(body, "name")?.trim() || new Date().toISOString();
+	const pageCount = body.page_count ?? null;
+	if (pageCount !== null && (!Number.isInteger(pageCount) || (pageCount as number) < 0)) {
+		throw new RequestError(400, "page_count must be a non-negative integer");
+	}
+
+	const { data, error } = await client
+		.from("mo_manifests")
+		.insert({ name, source_file: optionalString(body, "source_file"), page_count: pageCount, completed_at: null })
+		.select("id, created_at, name, source_file, page_count")
+		.single();
+	if (error) throw error;
+	return data as Manifest;
+});
@@ -0,0 +1,39 @@
+import { normalizeBarcode } from "../../../lib/barcode";
+import { jsonRoute, optionalString, readJsonBody, RequestError, supabaseForRequest } from "../../../lib/routeHandler";
+import type { CorrectionsResult } from "../../../lib/api";
+import type { CorrectionSource } from "../../../lib/ocrConfusion";
+
+const SOURCES: CorrectionSource[] = ["search", "camera", "review"];
+
+// Pairs per request; one review upload rarely fixes more than a page worth
+const MAX_PAIRS = 500;
+
+// POST /api/ocr-corrections { profile_id?, source, pairs: [{ ocr_text, corrected_text }] }
+// Stores operator fixes of OCR values for the confusion model. Unchanged pairs are dropped.
+export const POST = jsonRoute(async (req): Promise<CorrectionsResult> => {
+	const client = supabaseForRequest(req);
+	const body = await readJsonBody(req);
+	const source = body.source as CorrectionSource;
+	if (!SOURCES.includes(source)) throw new RequestError(400, `source must be one of ${SOURCES.join(", ")}`);
+	if (!Array.isArray(body.pairs)) throw new RequestError(400, "pairs must be an array");
+	if (body.pairs.length > MAX_PAIRS) throw new RequestError(413, `At most ${MAX_PAIRS} pairs per request`);
+	const profileId = optionalString(body, "profile_id");
+
+	const rows = (body.pairs as Array<Record<string, unknown>>).map((pair, index) => {
+		if (typeof pair?.ocr_text !== "string" || typeof pair?.corrected_text !== "string") {
+			throw new RequestError(400, `pairs[${index}] needs ocr_text and corrected_text strings`);
+		}
+		return {
+			profile_id: profileId,
+			ocr_text: normalizeBarcode(pair.ocr_text),
+			corrected_text: normalizeBarcode(pair.corrected_text),
+			source,
+		};
+	}).filter(r => r.ocr_text && r.corrected_text && r.ocr_text !== r.corrected_text);
+
+	if (rows.length > 0) {
+		const { error } = await client.from("mo_ocr_corrections").insert(rows);
+		if (error) throw error;
+	}
+	return { stored: rows.length };
+});
@@ -0,0 +1,121 @@
+import { loadBarcodeProfile } from "../../../lib/barcodeProfile";
+import { jsonRoute, optionalLabelData, optionalString, readJsonBody, requireBarcode, requireString, RequestError, supabaseForRequest } from "../../../lib/routeHandler";
+import { isScanSource, MANUAL_REASON_MAX, mergeSource } from "../../../lib/scanSource";
+import { isLocation } from "../../../lib/location";
+import type { ScanResult } from "../../../lib/api";
+
+// Reads and conditional writes before giving up on a code other devices keep scanning
+const MAX_ATTEMPTS = 3;
+
+// POST /api/scans { session_id, text, scan_id?, profile_id?, label_data?, source?, manual_reason?, location?, scanned_at? }
+// Records one scanned code in an open session, with the other fields of its label if any.
+// location is the rack/bin the device was at (LOC-...); the row keeps the location and time
+// of its newest scan, so a queued older scan arriving late does not move the code back.
+// source says how it was recorded (default scanner); profiles can require a manual_reason
+// for manual adds. A physical read of a code first marked from a list takes over its source.
+// Matched is decided here against the session's manifest. Scanning a code again counts up
+// its scan_count (a manifest can list a code on several cases); scan_id is the client's id
+// for this scan, so an outbox replay of the same scan is reported as a duplicate instead.
+// Without a scan_id any repeat is a duplicate, as for entries queued by older clients.
+export const POST = jsonRoute(async (req): Promise<ScanResult> => {
+	const client = supabaseForRequest(req);
+	const body = await readJsonBody(req);
+	const sessionId = requireString(body, "session_id");
+	const scanId = optionalString(body, "scan_id");
+	const profile = await loadBarcodeProfile(client, optionalString(body, "profile_id"));
+	const spec = profile.spec;
+	const text = requireBarcode(body, "text", spec);
+	const labelData = optionalLabelData(body, "label_data");
+	const source = body.source ?? "scanner";
+	if (!isScanSource(source)) throw new RequestError(400, "source must be scanner, camera_decode, camera_ocr, manual or similarity");
+	const manualReason = optionalString(body, "manual_reason")?.trim() || null;
+	if (manualReason && manualReason.length > MANUAL_REASON_MAX) throw new RequestError(400, `manual_reason is longer than ${MANUAL_REASON_MAX}`);
+	if (source === "manual" && profile.manualReasonRequired && !manualReason) {
+		throw new RequestError(422, "A reason is required for manual adds");
+	}
+	const location = optionalString(body, "location")?.trim().toUpperCase() || null;
+	if (location && !isLocation(location)) throw new RequestError(400, "location must be a location label like LOC-2F-A03");
+	// Queued scans keep the time they were scanned, not the time they reached the server
+	const scannedAt = optionalString(body, "scanned_at") ?? new Date().toISOString();
+	if (Number.isNaN(Date.parse(scannedAt))) throw new RequestError(400, "scanned_at must be an ISO timestamp");
+
+	const { data: session, error: sessionError } = await client
+		.from("mo_scan_sessions")
+		.select("id, closed_at, manifest_id")
+		.eq("id", sessionId)
+		.maybeSingle();
+	if (sessionError) throw sessionError;
+	if (!session) throw new RequestError(404, `Session not found: ${sessionId}`);
+	if (session.closed_at) throw new RequestError(409, "Session is closed");
+
+	// Another PDA may scan the same code at the same moment: each write only applies to
+	// the row as it was read, and a lost race reads again
+	for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+		const { data: existing, error: existingError } = await client
+			.from("mo_scan_items")
+			.select("matched, scan_count, scan_ids, source, last_scanned_at")
+			.eq("session_id", sessionId)
+			.eq("text", text)
+			.maybeSingle();
+		if (existingError) throw existingError;
+
+		if (existing) {
+			const seen: string[] = existing.scan_ids ?? [];
+			if (!scanId || seen.includes(scanId)) {
+				return { text, matched: existing.matched, duplicate: true, scan_count: existing.scan_count, source: existing.source };
+			}
+			const merged = mergeSource(existing.source, source);
+			const newest = !existing.last_scanned_at || Date.parse(scannedAt) >= Date.parse(existing.last_scanned_at);
+			const { data: updated, error } = await client
+				.from("mo_scan_items")
+				.update({
+					scan_count: existing.scan_count + 1,
+					scan_ids: [...seen, scanId],
+					...(merged !== existing.source ? { source: merged } : {}),
+					...(newest ? { location, last_scanned_at: scannedAt } : {}),
+				})
+				.eq("session_id", sessionId)
+				.eq("text", text)
+				.eq("scan_count", existing.scan_count)
+				.select("scan_count");
+			if (error) throw error;
+			if (updated && updated.length > 0) {
+				return { text, matched: existing.matched, duplicate: false, scan_count: updated[0].scan_count, source: merged };
+			}
+			continue;
+		}
+
+		let matched = false;
+		if (session.manifest_id) {
+			const { count, error } = await client
+				.from("mo_ocr_results")
+				.select("id", { count: "exact", head: true })
+				.eq("manifest_id", session.manifest_id)
+				.eq("text", text);
+			if (error) throw error;
+			matched = (count ?? 0) > 0;
+		}
+
+		const { data: inserted, error } = await client
+			.from("mo_scan_items")
+			.upsert(
+				[{
+					session_id: sessionId,
+					text,
+					prefixes: spec.prefixes.join(","),
+					matched,
+					label_data: labelData,
+					scan_ids: scanId ? [scanId] : [],
+					source,
+					manual_reason: source === "manual" ? manualReason : null,
+					location,
+					last_scanned_at: scannedAt,
+				}],
+				{ onConflict: "session_id,text", ignoreDuplicates: true },
+			)
+			.select("scan_count");
+		if (error) throw error;
+		if (inserted && inserted.length > 0) return { text, matched, duplicate: false, scan_count: 1, source };
+	}
+	throw new RequestError(409, `Too many simultaneous scans of ${text}, try again`);
+});
@@ -0,0 +1,28 @@
+import { jsonRoute, readJsonBody, requireString, RequestError, supabaseForRequest } from "../../../../lib/routeHandler";
+import { normalizeBarcode } from "../../../../lib/barcode";
+import type { ScanUndoResult } from "../../../../lib/api";
+
+// POST /api/scans/undo { session_id, text, scan_id }
+// Takes back one scan recorded with this scan_id (see mo_undo_scan): the code's scan_count
+// goes down by one and the row goes away with its last scan. A scan that is not there is
+// reported with undone: false, so undoing twice is harmless.
+export const POST = jsonRoute(async (req): Promise<ScanUndoResult> => {
+	const client = supabaseForRequest(req);
+	const body = await readJsonBody(req);
+	const sessionId = requireString(body, "session_id");
+	const text = normalizeBarcode(requireString(body, "text"));
+	const scanId = requireString(body, "scan_id");
+
+	const { data: session, error: sessionError } = await client
+		.from("mo_scan_sessions")
+		.select("id, closed_at")
+		.eq("id", sessionId)
+		.maybeSingle();
+	if (sessionError) throw sessionError;
+	if (!session) throw new RequestError(404, `Session not found: ${sessionId}`);
+	if (session.closed_at) throw new RequestError(409, "Session is closed");
+
+	const { data, error } = await client.rpc("mo_undo_scan", { p_session_id: sessionId, p_text: text, p_scan_id: scanId });
+	if (error) throw error;
+	return { text, undone: data !== null, scan_count: data ?? 0 };
+});
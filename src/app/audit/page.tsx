@@ -0,0 +1,182 @@
+"use client";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "../../lib/supabaseClient";
+import { normalizeBarcode } from "../../lib/barcode";
+import { hasRole, roleRequiredMessage, useOperator, type Operator } from "../../lib/auth";
+
+type AuditEvent = {
+	id: number;
+	created_at: string;
+	actor_id: string | null;
+	device: string | null;
+	action: "INSERT" | "UPDATE" | "DELETE";
+	table_name: string;
+	row_id: string | null;
+	barcode: string | null;
+	old_values: Record<string, unknown> | null;
+	new_values: Record<string, unknown> | null;
+};
+
+const PAGE_SIZE = 200;
+
+type AuditFilters = { barcode: string; fromDate: string; toDate: string };
+
+const NO_FILTERS: AuditFilters = { barcode: "", fromDate: "", toDate: "" };
+
+// Columns that change on every write and only add noise to the diff
+const IGNORED_FIELDS = new Set(["id", "created_at", "updated_at"]);
+
+function changedFields(ev: AuditEvent): Array<{ field: string; from: unknown; to: unknown }> {
+	const keys = new Set([...Object.keys(ev.old_values ?? {}), ...Object.keys(ev.new_values ?? {})]);
+	const out: Array<{ field: string; from: unknown; to: unknown }> = [];
+	for (const key of keys) {
+		if (IGNORED_FIELDS.has(key)) continue;
+		const from = ev.old_values?.[key] ?? null;
+		const to = ev.new_values?.[key] ?? null;
+		if (JSON.stringify(from) !== JSON.stringify(to)) out.push({ field: key, from, to });
+	}
+	return out;
+}
+
+// Typed text matched literally inside an ilike pattern: % and _ are wildcards there, \ escapes them
+function likeEscape(text: string): string {
+	return text.replace(/[\\%_]/g, c => `\\${c}`);
+}
+
+function formatValue(v: unknown): string {
+	if (v === null || v === undefined) return "∅";
+	return typeof v === "string" ? v : JSON.stringify(v);
+}
+
+export default function AuditPage() {
+	const { operator } = useOperator();
+	const canView = hasRole(operator, "supervisor");
+	const [barcode, setBarcode] = useState<string>("");
+	const [fromDate, setFromDate] = useState<string>("");
+	const [toDate, setToDate] = useState<string>("");
+	const [events, setEvents] = useState<AuditEvent[]>([]);
+	const [operators, setOperators] = useState<Operator[]>([]);
+	const [loading, setLoading] = useState<boolean>(false);
+	const [error, setError] = useState<string>("");
+
+	const operatorNames = useMemo(() => new Map(operators.map(o => [o.user_id, o.name])), [operators]);
+
+	// Filters are passed in, so typing in the form does not reload until it is submitted
+	const load = useCallback(async ({ barcode, fromDate, toDate }: AuditFilters) => {
+		setLoading(true);
+		setError("");
+		try {
+			let query = supabase
+				.from("mo_audit_events")
+				.select("id, created_at, actor_id, device, action, table_name, row_id, barcode, old_values, new_values")
+				.order("created_at", { ascending: false })
+				.limit(PAGE_SIZE);
+			const code = normalizeBarcode(barcode);
+			if (code) query = query.ilike("barcode", `%${likeEscape(code)}%`);
+			// Dates are local calendar days; the "to" day is inclusive
+			if (fromDate) query = query.gte("created_at", new Date(`${fromDate}T00:00:00`).toISOString());
+			if (toDate) {
+				const end = new Date(`${toDate}T00:00:00`);
+				end.setDate(end.getDate() + 1);
+				query = query.lt("created_at", end.toISOString());
+			}
+			const { data, error } = await query;
+			if (error) throw error;
+			setEvents((data ?? []) as AuditEvent[]);
+		} catch (e) {
+			const msg = e instanceof Error ? e.message : String(e);
+			setError(`Load audit events failed: ${msg}`);
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	// Latest events on open; later searches run on submit
+	useEffect(() => {
+		if (canView) void load(NO_FILTERS);
+	}, [canView, load]);
+
+	useEffect(() => {
+		if (!canView) return;
+		supabase
+			.from("mo_operators")
+			.select("user_id, name, role")
+			.then(({ data }) => setOperators((data ?? []) as Operator[]));
+	}, [canView]);
+
+	if (!canView) {
+		return <div className="rounded border bg-white p-4 text-sm text-red-700">{roleRequiredMessage("supervisor")}</div>;
+	}
+
+	return (
+		<div className="w-full max-w-6xl mx-auto space-y-4 px-2 sm:px-4">
+			<h1 className="text-xl sm:text-3xl font-semibold">Audit Log</h1>
+
+			<form
+				onSubmit={(e) => { e.preventDefault(); void load({ barcode, fromDate, toDate }); }}
+				className="flex flex-wrap items-end gap-3 rounded border bg-white p-3 text-sm"
+			>
+				<label className="flex flex-col gap-1 text-gray-600">
+					Barcode
+					<input
+						value={barcode}
+						onChange={(e) => setBarcode(e.target.value)}
+						placeholder="1M..."
+						className="rounded border px-2 py-2 font-mono text-gray-900 min-h-[44px]"
+					/>
+				</label>
+				<label className="flex flex-col gap-1 text-gray-600">
+					From
+					<input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="rounded border px-2 py-2 text-gray-900 min-h-[44px]" />
+				</label>
+				<label className="flex flex-col gap-1 text-gray-600">
+					To
+					<input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="rounded border px-2 py-2 text-gray-900 min-h-[44px]" />
+				</label>
+				<button
+					type="submit"
+					disabled={loading}
+					className={`rounded px-4 py-2 min-h-[44px] ${loading ? "bg-gray-300 text-gray-500" : "bg-black text-white hover:bg-gray-800"}`}
+				>
+					{loading ? "Loading..." : "Search"}
+				</button>
+			</form>
+
+			{error && <div className="rounded border bg-white p-3 text-sm text-red-600">{error}</div>}
+
+			<div className="rounded border bg-white p-3 sm:p-4">
+				<h2 className="font-medium mb-3">
+					Events ({events.length}{events.length === PAGE_SIZE ? "+, newest first" : ""})
+				</h2>
+				<ul className="space-y-2">
+					{events.map(ev => (
+						<li key={ev.id} className="rounded border border-gray-200 bg-gray-50 px-3 py-2 text-sm">
+							<div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+								<span className="text-gray-600">{new Date(ev.created_at).toLocaleString("ko-KR")}</span>
+								<span className={`font-semibold ${ev.action === "DELETE" ? "text-red-700" : ev.action === "UPDATE" ? "text-amber-700" : "text-emerald-700"}`}>
+									{ev.action}
+								</span>
+								<span className="text-gray-700">{ev.table_name}</span>
+								<span className="font-mono text-gray-900">{ev.barcode ?? "-"}</span>
+								<span className="text-gray-600">
+									by {ev.actor_id ? operatorNames.get(ev.actor_id) ?? ev.actor_id.slice(0, 8) : "system"}
+									{ev.device ? ` @ ${ev.device.slice(0, 8)}` : ""}
+								</span>
+							</div>
+							<ul className="mt-1 space-y-0.5 font-mono text-xs text-gray-700">
+								{changedFields(ev).map(c => (
+									<li key={c.field}>
+										{c.field}: {formatValue(c.from)} → {formatValue(c.to)}
+									</li>
+								))}
+							</ul>
+						</li>
+					))}
+					{events.length === 0 && !loading && (
+						<li className="text-sm text-gray-500 italic py-4">No events</li>
+					)}
+				</ul>
+			</div>
+		</div>
+	);
+}
@@ -1,16 +1,28 @@
 "use client";
 import { useCallback, useEffect, useRef, useState } from "react";
-import Tesseract from "tesseract.js";
-import { supabase } from "../../lib/supabaseClient";
-import { normalizeBarcode } from "../../lib/barcode";
+import type { IScannerControls } from "@zxing/browser";
+import { barcodeIssue, barcodeSearchPattern, checkDigitRepairs, isValidBarcode, matchesPrefix, normalizeBarcode } from "../../lib/barcode";
+import { ApiError, postApi, type ScanResult } from "../../lib/api";
+import { useBarcodeProfile } from "../../lib/barcodeProfile";
+import { useActiveSession } from "../../lib/scanSession";
+import { getCurrentLocation } from "../../lib/location";
+import { fetchAllRows } from "../../lib/pagedFetch";
+import { decodeBarcodeFromCanvas, startLiveBarcodeScan } from "../../lib/barcodeReader";
+import { enhanceForOcr, isOcrCancelled, recognize, type OcrResult } from "../../lib/ocrEngine";
+import { correctOcrConfusions, substitutionCost, useConfusionModel } from "../../lib/ocrConfusion";
+import SessionBar from "../components/SessionBar";
 
 type OcrItem = { 
     text: string; 
     confidence: number;
     edited: boolean; // Whether the text has been manually edited
+    original: string; // As read, before edits; edits are recorded as OCR corrections on confirm
     matched: boolean; // Whether this item exists in mo_ocr_results
+    repairs: string[]; // Codes one character away that pass the check digit, most likely first (empty when it already passes)
 };
 
+type LiveScan = { text: string; matched: boolean };
+
 export default function CameraOcrPage() {
     const [imageUrl, setImageUrl] = useState<string | null>(null);
     const [items, setItems] = useState<OcrItem[]>([]);
@@ -18,18 +30,31 @@ export default function CameraOcrPage() {
     const [status, setStatus] = useState<string>("");
     const [uploading, setUploading] = useState<boolean>(false);
     const fileInputRef = useRef<HTMLInputElement | null>(null);
+    const ocrAbortRef = useRef<AbortController | null>(null); // Set while an OCR job is queued or running
+    const [ocrRunning, setOcrRunning] = useState<boolean>(false);
     const expectedCacheRef = useRef<Set<string>>(new Set()); // Cache for mo_ocr_results
+    const sessionState = useActiveSession();
+    const sessionId = sessionState.session?.id ?? null;
+    const manifestId = sessionState.session?.manifest_id ?? null;
+    const { profile, spec } = useBarcodeProfile("ckd");
+    const { model: confusions, recordCorrections } = useConfusionModel(profile.id);
+    const [liveMode, setLiveMode] = useState<boolean>(false);
+    const [liveScans, setLiveScans] = useState<LiveScan[]>([]);
+    const videoRef = useRef<HTMLVideoElement | null>(null);
+    const seenRef = useRef<Set<string>>(new Set()); // Codes already saved in the active session
 
-    // Load expected cache from mo_ocr_results
+    // Load expected cache from the session's expected list (mo_ocr_results)
     const loadExpectedCache = useCallback(async () => {
+        if (!manifestId) {
+            expectedCacheRef.current = new Set();
+            return;
+        }
         try {
-            const { data, error } = await supabase.from("mo_ocr_results").select("text");
-            if (error) throw error;
+            const data = await fetchAllRows<{ id: number; text: string }>("mo_ocr_results", "text", { manifest_id: manifestId });
             const set = new Set<string>();
-            for (const r of data ?? []) {
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const normalized = normalizeBarcode((r as any).text);
-                if (normalized && (normalized.startsWith("1M") || normalized.startsWith("2M"))) {
+            for (const r of data) {
+                const normalized = normalizeBarcode(r.text);
+                if (normalized && matchesPrefix(normalized, spec.prefixes)) {
                     set.add(normalized);
                 }
             }
@@ -37,61 +62,90 @@ export default function CameraOcrPage() {
         } catch (e) {
             console.error("Load expected cache failed:", e);
         }
-    }, []);
+    }, [manifestId, spec]);
 
-    // Load expected cache on mount
+    // Load expected cache on mount and when the session changes
     useEffect(() => {
         void loadExpectedCache();
     }, [loadExpectedCache]);
 
-    // Preprocess image to improve OCR accuracy
-    function preprocessImageForOCR(canvas: HTMLCanvasElement): HTMLCanvasElement {
-        const ctx = canvas.getContext("2d");
-        if (!ctx) return canvas;
-        
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        const data = imageData.data;
-        
-        // Convert to grayscale and enhance contrast
-        for (let i = 0; i < data.length; i += 4) {
-            const gray = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-            const contrast = 2.0;
-            const enhanced = Math.min(255, Math.max(0, (gray - 128) * contrast + 128));
-            
-            data[i] = enhanced;
-            data[i + 1] = enhanced;
-            data[i + 2] = enhanced;
+    // Load codes already scanned into the session so live scanning reports duplicates like SCAN does
+    const loadSeen = useCallback(async () => {
+        seenRef.current = new Set();
+        if (!sessionId) return;
+        try {
+            const data = await fetchAllRows<{ id: number; text: string }>("mo_scan_items", "text", { session_id: sessionId });
+            seenRef.current = new Set(data.map(r => normalizeBarcode(r.text)));
+        } catch (e) {
+            console.error("Load scanned items failed:", e);
         }
-        
-        ctx.putImageData(imageData, 0, 0);
-        return canvas;
-    }
-
-    // Post-process OCR text to fix common misrecognitions
-    function postProcessOcrText(text: string): string {
-        if (!text) return text;
-        let processed = text;
-        
-        // Common OCR misrecognitions
-        processed = processed.replace(/(\d)B(\d)/g, '$18$2');
-        processed = processed.replace(/B(\d{2,})/g, '8$1');
-        processed = processed.replace(/(\d{2,})B/g, '$18');
-        processed = processed.replace(/(\d)S(\d)/g, '$15$2');
-        processed = processed.replace(/S(\d{2,})/g, '5$1');
-        processed = processed.replace(/(\d{2,})S/g, '$15');
-        processed = processed.replace(/(\d)O(\d)/g, '$10$2');
-        processed = processed.replace(/O(\d{2,})/g, '0$1');
-        processed = processed.replace(/(\d{2,})O/g, '$10');
-        
-        if (/^[A-Z0-9]{6,}$/.test(processed)) {
-            processed = processed.replace(/B(?=\d)/g, '8');
-            processed = processed.replace(/(?<=\d)B/g, '8');
+    }, [sessionId]);
+
+    useEffect(() => {
+        void loadSeen();
+    }, [loadSeen]);
+
+    // Live decode hit: same matched/unmatched handling as the SCAN page, saved immediately
+    const addLiveScan = useCallback(async (text: string) => {
+        const normalized = normalizeBarcode(text);
+        if (!normalized) return;
+        if (!sessionId) {
+            setStatus(`Save failed: no active session (${normalized})`);
+            return;
         }
-        
-        return processed;
-    }
+        if (!matchesPrefix(normalized, spec.prefixes)) {
+            setStatus(`Skipped: ${normalized} (doesn't match prefix)`);
+            return;
+        }
+        if (seenRef.current.has(normalized)) {
+            setStatus(`Already scanned: ${normalized}`);
+            return;
+        }
+        seenRef.current.add(normalized);
+
+        const isMatched = expectedCacheRef.current.has(normalized);
+        setLiveScans(prev => [{ text: normalized, matched: isMatched }, ...prev]);
+        setStatus(`${isMatched ? "Matched" : "Unmatched"}: ${normalized}`);
+
+        try {
+            await postApi<ScanResult>("/api/scans", { session_id: sessionId, text: normalized, profile_id: profile.id, source: "camera_decode", location: getCurrentLocation() });
+        } catch (e) {
+            const msg = e instanceof Error ? e.message : String(e);
+            setStatus(`Save failed: ${msg}`);
+        }
+    }, [sessionId, spec, profile.id]);
+
+    // The decode callback outlives renders, so it reads the latest handler through a ref
+    const addLiveScanRef = useRef(addLiveScan);
+    useEffect(() => {
+        addLiveScanRef.current = addLiveScan;
+    }, [addLiveScan]);
+
+    useEffect(() => {
+        if (!liveMode || !videoRef.current) return;
+        let cancelled = false;
+        let controls: IScannerControls | null = null;
+        startLiveBarcodeScan(videoRef.current, (text) => { void addLiveScanRef.current(text); })
+            .then(c => {
+                controls = c;
+                if (cancelled) c.stop();
+            })
+            .catch(e => {
+                const msg = e instanceof Error ? e.message : String(e);
+                setStatus(`카메라 시작 실패: ${msg}`);
+                setLiveMode(false);
+            });
+        return () => {
+            cancelled = true;
+            controls?.stop();
+        };
+    }, [liveMode]);
+
+    // Leaving the page drops its queued OCR job
+    useEffect(() => () => ocrAbortRef.current?.abort(), []);
 
     const handleFile = useCallback(async (file: File) => {
+        ocrAbortRef.current?.abort();
         setItems([]);
         setStatus("Processing image...");
         setProgress(0);
@@ -109,6 +163,27 @@ export default function CameraOcrPage() {
                 img.onload = resolve;
                 img.onerror = reject;
             });
+
+            // Try to decode a printed symbol first; OCR is only the fallback when none is found
+            setStatus("Decoding barcode...");
+            const decodeCanvas = document.createElement("canvas");
+            decodeCanvas.width = img.width;
+            decodeCanvas.height = img.height;
+            decodeCanvas.getContext("2d")?.drawImage(img, 0, 0);
+            const decoded = decodeBarcodeFromCanvas(decodeCanvas);
+            if (decoded) {
+                const normalized = normalizeBarcode(decoded);
+                setItems([{
+                    text: normalized,
+                    confidence: 100,
+                    edited: false,
+                    original: normalized,
+                    matched: expectedCacheRef.current.has(normalized),
+                    repairs: []
+                }]);
+                setStatus(`바코드 인식 완료: ${normalized} (OCR 생략)`);
+                return;
+            }
             
             const canvas = document.createElement("canvas");
             const ctx = canvas.getContext("2d");
@@ -123,60 +198,68 @@ export default function CameraOcrPage() {
             canvas.height = img.height * scale;
             ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
             
-            // Preprocess image to improve OCR
-            const processedCanvas = preprocessImageForOCR(canvas);
-            
             setStatus("Running OCR...");
-            const { data } = await Tesseract.recognize(processedCanvas, "eng", {
-                logger: (m) => {
-                    if (m.status === "recognizing text" && m.progress) {
-                        setProgress(Math.round(m.progress * 100));
-                    }
-                    setStatus(m.status);
-                },
-            });
+            const controller = new AbortController();
+            ocrAbortRef.current = controller;
+            setOcrRunning(true);
+            let data: OcrResult;
+            try {
+                data = await recognize(async () => enhanceForOcr(canvas), {
+                    lang: "eng",
+                    signal: controller.signal,
+                    onStart: () => setStatus("recognizing text"),
+                    onProgress: (p) => setProgress(Math.round(p * 100)),
+                });
+            } catch (e) {
+                setStatus(isOcrCancelled(e) ? "OCR 취소됨" : `OCR 실패: ${e instanceof Error ? e.message : String(e)}`);
+                return;
+            } finally {
+                if (ocrAbortRef.current === controller) {
+                    ocrAbortRef.current = null;
+                    setOcrRunning(false);
+                }
+            }
 
-            // Extract 1M and 2M codes (14 digits: 1M/2M + 12 digits)
-            // Pattern: 1M or 2M followed by exactly 12 digits (total 14 characters)
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const allText = (data as any)?.text || "";
-            const processedText = postProcessOcrText(allText);
+            // Extract codes in the active format profile (default: 1M/2M + 12 digits, 14 characters)
+            const allText = data.text;
+            const fix = (text: string) => correctOcrConfusions(text, confusions, spec.prefixes);
+            const cost = (a: string, b: string) => substitutionCost(confusions, a, b);
+            const processedText = fix(allText);
             
-            // Find all 1M and 2M codes in the entire OCR text - extract only first 14 characters
-            const pattern1M2M = /[12]M\d{12}/gi;
-            const allMatches = processedText.match(pattern1M2M) || [];
-            const matches: string[] = allMatches.map(m => m.substring(0, 14).toUpperCase());
+            // Find all codes in the entire OCR text - keep at most the profile's max length
+            const codePattern = barcodeSearchPattern(spec);
+            const clip = (m: string) => m.substring(0, spec.length?.max ?? m.length).toUpperCase();
+            const allMatches = processedText.match(codePattern) || [];
+            const matches: string[] = allMatches.map(clip);
             
             // Also check structured lines and words for better accuracy
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const structuredLines = (data as any)?.lines as Array<{ text: string; confidence: number }>|undefined;
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const words = ((data as any)?.words as Array<any>)?.map((w: any) => ({ text: w.text, confidence: w.confidence })) ?? [];
+            const structuredLines = data.lines;
+            const words = data.words;
             
             // Extract from structured lines
             if (structuredLines && structuredLines.length > 0) {
                 for (const line of structuredLines) {
-                    const lineText = postProcessOcrText((line.text || "").trim());
-                    const lineMatches = lineText.match(pattern1M2M);
+                    const lineText = fix((line.text || "").trim());
+                    const lineMatches = lineText.match(codePattern);
                     if (lineMatches) {
-                        // Extract only first 14 characters from each match
-                        const extracted14 = lineMatches.map(m => m.substring(0, 14).toUpperCase());
+                        // Clip each match to the profile length
+                        const extracted14 = lineMatches.map(clip);
                         matches.push(...extracted14);
                     }
                 }
             }
             
-            // Extract from words (group consecutive words that might form 1M/2M codes)
+            // Extract from words (group consecutive words that might form a code)
             if (words.length > 0) {
                 let wordSequence = "";
                 for (const word of words) {
-                    const wordText = postProcessOcrText(String(word.text || ""));
+                    const wordText = fix(String(word.text || ""));
                     wordSequence += wordText;
                     // Check if sequence contains 1M or 2M code
-                    const seqMatches = wordSequence.match(pattern1M2M);
+                    const seqMatches = wordSequence.match(codePattern);
                     if (seqMatches) {
-                        // Extract only first 14 characters from each match
-                        const extracted14 = seqMatches.map(m => m.substring(0, 14).toUpperCase());
+                        // Clip each match to the profile length
+                        const extracted14 = seqMatches.map(clip);
                         matches.push(...extracted14);
                         wordSequence = ""; // Reset after finding a match
                     }
@@ -187,9 +270,10 @@ export default function CameraOcrPage() {
                 }
             }
             
-            // Remove duplicates and ensure exactly 14 characters and starts with 1M or 2M
+            // Remove duplicates and keep only codes valid for the active profile.
+            // Codes failing just the check digit stay in, with the fixes that would make them valid.
             const uniqueMatches = Array.from(new Set(matches))
-                .filter(m => m.length === 14 && (m.startsWith("1M") || m.startsWith("2M")));
+                .filter(m => isValidBarcode(m, spec) || barcodeIssue(m, spec) === "check");
             
             // Check if each item exists in mo_ocr_results
             const extracted: OcrItem[] = uniqueMatches.map(match => {
@@ -199,17 +283,19 @@ export default function CameraOcrPage() {
                     text: match,
                     confidence: 80, // Default confidence for pattern-matched items
                     edited: false,
-                    matched: isMatched
+                    original: match,
+                    matched: isMatched,
+                    repairs: checkDigitRepairs(match, spec, cost).map(r => r.code)
                 };
             });
 
             setItems(extracted);
-            setStatus(`OCR 완료: ${extracted.length}개 항목 인식 (1M/2M으로 시작하는 14자리만 추출)`);
+            setStatus(`OCR 완료: ${extracted.length}개 항목 인식 (${profile.name} 형식만 추출)`);
         } else {
             setImageUrl(null);
             setStatus("이미지 파일만 지원됩니다.");
         }
-    }, []);
+    }, [profile.name, spec, confusions]);
 
     const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
@@ -227,12 +313,13 @@ export default function CameraOcrPage() {
                     ...item, 
                     text: newText.toUpperCase(), 
                     edited: true,
-                    matched: isMatched
+                    matched: isMatched,
+                    repairs: checkDigitRepairs(normalized, spec, (a, b) => substitutionCost(confusions, a, b)).map(r => r.code)
                 };
             }
             return item;
         }));
-    }, []);
+    }, [spec, confusions]);
 
     const handleItemDelete = useCallback((index: number) => {
         setItems(prev => prev.filter((_, i) => i !== index));
@@ -243,37 +330,46 @@ export default function CameraOcrPage() {
             setStatus("저장할 항목이 없습니다.");
             return;
         }
+        if (!sessionId) {
+            setStatus("저장 실패: 활성 세션이 없습니다. SCAN 페이지에서 세션을 시작하세요.");
+            return;
+        }
 
         setUploading(true);
         setStatus("저장 중...");
         
         try {
-            // Normalize and prepare items for mo_scan_items
+            // Normalize and prepare items for /api/scans
             // Filter out empty or invalid items
             const payload = items
-                .map(item => {
-                    const normalized = normalizeBarcode(item.text);
-                    // Determine prefix based on normalized text
-                    const prefix = normalized.startsWith("1M") ? "1M" : normalized.startsWith("2M") ? "2M" : "1M,2M";
-                    return {
-                        text: normalized,
-                        prefixes: prefix,
-                        matched: false // These are unmatched items from printed paper
-                    };
-                })
-                .filter(item => item.text && item.text.length > 0 && (item.text.startsWith("1M") || item.text.startsWith("2M"))); // Remove empty or invalid items
+                .map(item => normalizeBarcode(item.text))
+                .filter(text => text && text.length > 0 && matchesPrefix(text, spec.prefixes)); // Remove empty or invalid items
 
             if (payload.length === 0) {
-                setStatus("저장할 유효한 항목이 없습니다. (빈 항목 또는 1M/2M으로 시작하지 않는 항목 제외)");
+                setStatus(`저장할 유효한 항목이 없습니다. (빈 항목 또는 ${spec.prefixes.join("/")}으로 시작하지 않는 항목 제외)`);
                 setUploading(false);
                 return;
             }
 
-            const { error } = await supabase
-                .from("mo_scan_items")
-                .upsert(payload, { onConflict: "text" });
+            // One request per code so the server validates and matches each against the session's manifest
+            const rejected: string[] = [];
+            for (const text of payload) {
+                try {
+                    await postApi<ScanResult>("/api/scans", { session_id: sessionId, text, profile_id: profile.id, source: "camera_ocr", location: getCurrentLocation() });
+                } catch (e) {
+                    if (!(e instanceof ApiError) || e.status >= 500) throw e;
+                    rejected.push(text);
+                }
+            }
 
-            if (error) throw error;
+            // Hand-fixed reads teach the confusion model; losing one is not worth an error
+            const fixes = items.filter(item => item.edited).map(item => ({ ocr_text: item.original, corrected_text: item.text }));
+            recordCorrections("camera", fixes).catch(() => undefined);
+
+            if (rejected.length > 0) {
+                setStatus(`확정 완료: ${payload.length - rejected.length}개 저장, ${rejected.length}개 거부됨 (${rejected.slice(0, 5).join(", ")})`);
+                return;
+            }
 
             setStatus(`확정 완료: ${payload.length}개 항목이 mo_scan_items에 저장되었습니다.`);
             
@@ -289,11 +385,12 @@ export default function CameraOcrPage() {
         } finally {
             setUploading(false);
         }
-    }, [items]);
+    }, [items, sessionId, spec, profile.id, recordCorrections]);
 
     return (
         <div className="w-full max-w-6xl mx-auto space-y-4 px-4 py-6">
-            <h1 className="text-2xl sm:text-3xl font-semibold">카메라 OCR (1M/2M 인식)</h1>
+            <h1 className="text-2xl sm:text-3xl font-semibold">카메라 OCR ({profile.name} 인식)</h1>
+            <SessionBar sessionState={sessionState} compact />
             
             {status && (
                 <div className="rounded border bg-white p-3 text-sm sm:text-base" style={{ color: '#000000' }}>
@@ -306,9 +403,68 @@ export default function CameraOcrPage() {
                             />
                         </div>
                     )}
+                    {ocrRunning && (
+                        <button
+                            onClick={() => ocrAbortRef.current?.abort()}
+                            className="mt-2 rounded border px-3 py-1 text-sm hover:bg-gray-50"
+                        >
+                            OCR 취소
+                        </button>
+                    )}
                 </div>
             )}
 
+            {/* Live barcode scanning (Code128 / DataMatrix / QR) */}
+            <div className="rounded border bg-white p-4 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                    <div>
+                        <h2 className="text-lg font-medium">실시간 바코드 스캔</h2>
+                        {liveScans.length > 0 && (
+                            <div className="flex gap-3 mt-1 text-xs">
+                                <span className="text-emerald-700 font-semibold">
+                                    매칭됨: {liveScans.filter(i => i.matched).length}개
+                                </span>
+                                <span className="text-orange-700 font-semibold">
+                                    미매칭: {liveScans.filter(i => !i.matched).length}개
+                                </span>
+                            </div>
+                        )}
+                    </div>
+                    <button
+                        onClick={() => setLiveMode(prev => !prev)}
+                        className={`px-4 py-3 rounded font-medium min-h-[44px] touch-manipulation ${
+                            liveMode
+                                ? "bg-red-600 text-white hover:bg-red-700 active:bg-red-800"
+                                : "bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800"
+                        }`}
+                    >
+                        {liveMode ? "스캔 중지" : "스캔 시작"}
+                    </button>
+                </div>
+                {liveMode && (
+                    <video
+                        ref={videoRef}
+                        className="w-full max-h-[50vh] rounded border bg-black object-cover"
+                        muted
+                        playsInline
+                    />
+                )}
+                {liveScans.length > 0 && (
+                    <ul className="space-y-1 max-h-60 overflow-auto">
+                        {liveScans.map(scan => (
+                            <li
+                                key={scan.text}
+                                className={`rounded border px-3 py-2 font-mono text-sm text-gray-900 ${
+                                    scan.matched ? "bg-emerald-50 border-emerald-300" : "bg-orange-50 border-orange-300"
+                                }`}
+                            >
+                                {scan.text}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
             {/* File Upload Section */}
             <div className="rounded border bg-white p-4">
                 <label className="block cursor-pointer">
@@ -359,7 +515,7 @@ export default function CameraOcrPage() {
                 <div className="flex items-center justify-between mb-4">
                     <div>
                         <h2 className="text-lg font-medium">
-                            인식된 항목 ({items.length}개) - 1M/2M으로 시작하는 14자리만 표시
+                            인식된 항목 ({items.length}개) - {profile.name} 형식만 표시
                         </h2>
                         {items.length > 0 && (
                             <div className="flex gap-3 mt-2 text-xs">
@@ -414,7 +570,7 @@ export default function CameraOcrPage() {
                                                 ? "bg-yellow-50 border-yellow-400" 
                                                 : "bg-white border-gray-300"
                                         }`}
-                                        placeholder="1M/2M으로 시작하는 번호"
+                                        placeholder={`${spec.prefixes.join("/")}으로 시작하는 번호`}
                                         style={{ 
                                             color: '#000000',
                                             fontWeight: 'bold',
@@ -435,7 +591,25 @@ export default function CameraOcrPage() {
                                         {item.edited && (
                                             <span className="text-xs text-yellow-600">수정됨</span>
                                         )}
+                                        {barcodeIssue(normalizeBarcode(item.text), spec) === "check" && (
+                                            <span className="text-xs font-semibold text-red-700 bg-red-100 px-2 py-1 rounded">
+                                                검증번호 오류
+                                            </span>
+                                        )}
                                     </div>
+                                    {item.repairs.length > 0 && (
+                                        <div className="flex flex-wrap gap-1" title="검증번호가 맞는 한 글자 수정 후보 (OCR 혼동 가능성 순)">
+                                            {item.repairs.map(code => (
+                                                <button
+                                                    key={code}
+                                                    onClick={() => handleItemEdit(index, code)}
+                                                    className="px-2 py-1 text-xs font-mono rounded border border-red-300 bg-white hover:bg-red-50"
+                                                >
+                                                    {code}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
                                     <button
                                         onClick={() => handleItemDelete(index)}
                                         className="px-3 py-2 bg-red-500 text-white rounded hover:bg-red-600 active:bg-red-700"
@@ -1,128 +1,143 @@
 "use client";
-import { useCallback, useRef, useState } from "react";
-import Tesseract from "tesseract.js";
+import { useCallback, useMemo, useRef, useState } from "react";
 import { supabase } from "../../../lib/supabaseClient";
-import { normalizeBarcode } from "../../../lib/barcode";
+import { barcodeIssue, checkDigitRepairs, matchesPrefix, normalizeBarcode, parsePrefixList } from "../../../lib/barcode";
+import { useBarcodeProfile } from "../../../lib/barcodeProfile";
+import { createManifest } from "../../../lib/manifest";
+import { postApi, type ManifestItemsResult } from "../../../lib/api";
+import { fetchAllRows } from "../../../lib/pagedFetch";
+import { enhanceForOcr, useOcrPages, type OcrLine, type OcrPage, type OcrPageMethod, type OcrPageSource, type OcrPageStatus } from "../../../lib/ocrEngine";
+import { openPdf, type PdfDocument } from "../../../lib/pdf";
+import { foldPackingColumns, parsePackingList, type ColumnLayout, type PackingColumns } from "../../../lib/packingList";
+import { correctOcrConfusions, substitutionCost, useConfusionModel } from "../../../lib/ocrConfusion";
+import { hasRole, roleRequiredMessage, useOperator } from "../../../lib/auth";
+import OcrReviewGrid, { type ReviewRow } from "../../components/OcrReviewGrid";
 
-type OcrLine = { text: string; confidence: number };
+const PAGE_STATUS_LABEL: Record<OcrPageStatus, string> = {
+	queued: "대기",
+	running: "인식 중",
+	done: "완료",
+	failed: "실패",
+	cancelled: "취소됨",
+};
+
+// A page counts as digital when its text layer has at least this many characters;
+// scanned PDFs have none, or only a stray header stamped on by the scanner
+const MIN_TEXT_LAYER_CHARS = 20;
+
+const PAGE_METHOD_LABEL: Record<OcrPageMethod, string> = {
+	text: "텍스트 레이어",
+	ocr: "OCR",
+};
+
+function formatEta(seconds: number): string {
+	return seconds >= 60 ? `${Math.floor(seconds / 60)}분 ${seconds % 60}초` : `${seconds}초`;
+}
+
+// Recognized lines of a finished page with OCR confusions (B/8, O/0, ...) corrected
+function pageLines(page: OcrPage, correct: (text: string) => string): OcrLine[] {
+	if (!page.result) return [];
+	return page.result.lines
+		.map(l => ({ text: correct(l.text), confidence: l.confidence, bbox: l.bbox }))
+		.filter(l => l.text.length > 0);
+}
+
+// Table rows of every finished page in page order. The column layout found on one page
+// carries over to the next; pages read before any header (or where no code could be
+// placed in a row) fall back to plain lines with empty columns.
+function packingRows(pages: OcrPage[], isCode: (text: string) => boolean, correct: (text: string) => string): ReviewRow[] {
+	let layout: ColumnLayout | null = null;
+	return pages.flatMap(page => {
+		const result = page.result;
+		if (!result) return [];
+		const parsed = parsePackingList(result.words, isCode, correct, layout);
+		layout = parsed.layout;
+		const rows = layout && parsed.rows.length > 0
+			? parsed.rows
+			: pageLines(page, correct).map(l => ({ ...l, bbox: l.bbox ?? null, case_no: null, part_no: null, quantity: null, weight: null }));
+		return rows.map((r, i) => ({ ...r, id: `p${page.page}-${i}`, page: page.page, size: result.size }));
+	});
+}
 
 export default function UploadPage() {
 	const [imageUrl, setImageUrl] = useState<string | null>(null);
-	const [lines, setLines] = useState<OcrLine[]>([]);
-	const [progress, setProgress] = useState<number>(0);
     const [status, setStatus] = useState<string>("");
-	const [prefixText, setPrefixText] = useState<string>("1M,2M");
+	const { profile, spec } = useBarcodeProfile("ckd");
+	const { model: confusions, recordCorrections } = useConfusionModel(profile.id);
+	// Typed prefixes override the section's format profile until cleared
+	const [prefixOverride, setPrefixOverride] = useState<string | null>(null);
+	const prefixText = prefixOverride ?? spec.prefixes.join(",");
 	const [uploading, setUploading] = useState<boolean>(false);
 	const [clearing, setClearing] = useState<boolean>(false);
+	const { operator } = useOperator();
+	// Wiping every manifest and scan is admin-only (enforced by RLS)
+	const canClear = hasRole(operator, "admin");
+	// Each upload becomes its own manifest (expected list) instead of replacing the previous one
+	const [manifestName, setManifestName] = useState<string>("");
+	const [sourceFile, setSourceFile] = useState<string | null>(null);
+	const [pageCount, setPageCount] = useState<number | null>(null);
 	const fileInputRef = useRef<HTMLInputElement | null>(null);
+	const pdfRef = useRef<PdfDocument | null>(null); // Open PDF, for rendering pages in review
+	const ocr = useOcrPages("kor+eng");
+	// Rows as corrected in the review grid; null until the first edit
+	const [reviewRows, setReviewRows] = useState<ReviewRow[] | null>(null);
+	const [runId, setRunId] = useState<number>(0); // New file, fresh review grid (its page images are cached)
 
-// confidence formatting removed from UI; keep function out to avoid unused warnings
+	const allowedPrefixes = useMemo(() => parsePrefixList(prefixText), [prefixText]);
+	const shouldInclude = useCallback((text: string) => {
+		if (!text || typeof text !== 'string') return false;
+		return matchesPrefix(text, allowedPrefixes);
+	}, [allowedPrefixes]);
 
-	// Preprocess image to improve OCR accuracy
-	function preprocessImageForOCR(canvas: HTMLCanvasElement): HTMLCanvasElement {
-		const ctx = canvas.getContext("2d");
-		if (!ctx) return canvas;
-		
-		const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-		const data = imageData.data;
-		
-		// Convert to grayscale and enhance contrast
-		for (let i = 0; i < data.length; i += 4) {
-			// Convert to grayscale using luminance formula
-			const gray = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-			
-			// Enhance contrast (increase difference between text and background)
-			// Higher contrast helps OCR distinguish text from background
-			const contrast = 2.0; // Increased contrast multiplier for better text recognition
-			const enhanced = Math.min(255, Math.max(0, (gray - 128) * contrast + 128));
-			
-			// Apply to all channels (grayscale)
-			data[i] = enhanced;     // R
-			data[i + 1] = enhanced; // G
-			data[i + 2] = enhanced; // B
-			// Alpha channel (data[i + 3]) remains unchanged
-		}
-		
-		ctx.putImageData(imageData, 0, 0);
-		return canvas;
-	}
+	// OCR misreads fixed with what operators corrected before on this profile
+	const correct = useCallback(
+		(text: string) => correctOcrConfusions(text, confusions, allowedPrefixes),
+		[confusions, allowedPrefixes],
+	);
 
-	// Post-process OCR text to fix common misrecognitions, especially 8 and 9
-	function postProcessOcrText(text: string): string {
-		if (!text) return text;
-		// Common OCR misrecognitions for numbers
-		// Fix 8/9 misrecognitions: B->8, S->5, O->0, but be careful with context
-		let processed = text;
-		
-		// Pattern-based fixes for common barcode-like strings
-		// If text looks like a barcode (alphanumeric, starts with prefix), apply fixes
-		// Replace B with 8 in numeric contexts (but keep B in letter contexts)
-		processed = processed.replace(/(\d)B(\d)/g, '$18$2'); // B between numbers -> 8
-		processed = processed.replace(/B(\d{2,})/g, '8$1'); // B followed by 2+ digits -> 8
-		processed = processed.replace(/(\d{2,})B/g, '$18'); // 2+ digits followed by B -> 8
-		
-		// Replace S with 5 in numeric contexts
-		processed = processed.replace(/(\d)S(\d)/g, '$15$2'); // S between numbers -> 5
-		processed = processed.replace(/S(\d{2,})/g, '5$1'); // S followed by 2+ digits -> 5
-		processed = processed.replace(/(\d{2,})S/g, '$15'); // 2+ digits followed by S -> 5
-		
-		// Replace O with 0 in numeric contexts (but keep O in letter contexts)
-		processed = processed.replace(/(\d)O(\d)/g, '$10$2'); // O between numbers -> 0
-		processed = processed.replace(/O(\d{2,})/g, '0$1'); // O followed by 2+ digits -> 0
-		processed = processed.replace(/(\d{2,})O/g, '$10'); // 2+ digits followed by O -> 0
-		
-		// Fix common 8/9 misrecognitions
-		// If we see patterns like "2M8" where 8 might be B, or "2M9" where 9 might be something else
-		// More aggressive: in barcode-like strings (alphanumeric), fix common patterns
-		if (/^[A-Z0-9]{6,}$/.test(processed)) {
-			// Looks like a barcode - apply more aggressive fixes
-			processed = processed.replace(/B(?=\d)/g, '8'); // B before digit -> 8
-			processed = processed.replace(/(?<=\d)B/g, '8'); // B after digit -> 8
-		}
-		
-		return processed;
-	}
+	// The section's profile with the typed prefixes
+	const codeSpec = useMemo(() => ({ ...spec, prefixes: allowedPrefixes }), [spec, allowedPrefixes]);
 
-	function buildLineResultsFromWords(words: Array<{ text: string; confidence?: number; bbox?: { y0: number; y1: number } }>, include: (t: string) => boolean): OcrLine[] {
-		if (!words || words.length === 0) return [];
-		// Group words by approximate baseline (y position). Tesseract gives bbox; use y0 with a small tolerance.
-		const sorted = words
-			.filter(w => (w.text || "").trim().length > 0)
-			.sort((a, b) => (a.bbox?.y0 ?? 0) - (b.bbox?.y0 ?? 0));
-		const groups: Array<typeof sorted> = [];
-		const tolerance = 6; // pixels
-		for (const w of sorted) {
-			const y = w.bbox?.y0 ?? 0;
-			const last = groups[groups.length - 1];
-			if (!last) {
-				groups.push([w]);
-				continue;
-			}
-			const lastY = last[0].bbox?.y0 ?? 0;
-			if (Math.abs(y - lastY) <= tolerance) {
-				last.push(w);
-			} else {
-				groups.push([w]);
-			}
-		}
-		const results: OcrLine[] = groups.map(g => {
-			let text = g.map(w => w.text.trim()).join(" ").trim();
-			text = postProcessOcrText(text); // Apply post-processing
-			const confidences = g.map(w => (typeof w.confidence === "number" ? w.confidence! : 0));
-			const conf = confidences.length ? confidences.reduce((a, b) => a + b, 0) / confidences.length : 0;
-			return { text, confidence: conf };
-		}).filter(l => l.text.length > 0 && include(l.text));
-		return results;
-	}
+	// A table cell holds a code when it is valid for the profile
+	const isCode = useCallback((text: string) => barcodeIssue(text, codeSpec) === null, [codeSpec]);
+
+	// Codes failing only the check digit are kept for review: usually one misread character
+	const isCodeCandidate = useCallback((text: string) => {
+		const issue = barcodeIssue(text, codeSpec);
+		return issue === null || issue === "check";
+	}, [codeSpec]);
+
+	// One-character fixes that satisfy the check digit, likeliest OCR misread first
+	const checkRepairs = useCallback(
+		(text: string) => checkDigitRepairs(text, codeSpec, (a, b) => substitutionCost(confusions, a, b)).map(r => r.code),
+		[codeSpec, confusions],
+	);
+
+	// Rows of every finished page in page order; retried pages drop in when they finish.
+	// Once the review grid has been edited, its rows are what gets uploaded.
+	const ocrRows = useMemo(
+		() => packingRows(ocr.pages, isCodeCandidate, correct).filter(l => shouldInclude(l.text)),
+		[ocr.pages, isCodeCandidate, correct, shouldInclude],
+	);
+	const lines = reviewRows ?? ocrRows;
+
+	// Page shown under the review overlay: the uploaded image, or the PDF page rendered for display
+	const pageImage = useCallback(async (page: number) => {
+		if (!pdfRef.current) return imageUrl;
+		const canvas = await pdfRef.current.renderPage(page, 1.5);
+		return canvas.toDataURL("image/png");
+	}, [imageUrl]);
 
 	// Helper function to show OCR recognition results
 	function showOcrResults(
 		allLines: OcrLine[],
-		extracted: OcrLine[],
+		extracted: ReviewRow[],
 		prefixes: string[],
 		includeFn: (text: string) => boolean,
+		correctFn: (text: string) => string,
 		fileType: string,
-		pageInfo?: string
+		pageInfo?: string,
+		pages?: OcrPage[]
 	) {
 		const totalLines = allLines.length;
 		const nonEmptyLines = allLines.filter(l => l.text.length > 0).length;
@@ -160,6 +175,24 @@ export default function UploadPage() {
 				resultMsg += `\n  ... 외 ${filteredOut - 15}개 항목`;
 			}
 		}
+
+		if (pages && pages.length > 1) {
+			const textPages = pages.filter(p => p.method === "text").length;
+			const ocrPages = pages.filter(p => p.method === "ocr").length;
+			resultMsg += `\n\n[페이지별 인식 결과] (텍스트 레이어 ${textPages}페이지, OCR ${ocrPages}페이지):`;
+			pages.forEach(p => {
+				const method = p.method ? ` [${PAGE_METHOD_LABEL[p.method]}]` : "";
+				if (p.status !== "done") {
+					resultMsg += `\n페이지 ${p.page}${method}: ${p.status === "cancelled" ? "취소됨" : `실패 (${p.error})`}`;
+					return;
+				}
+				const pageAll = pageLines(p, correctFn);
+				const pageExtracted = pageAll.filter(l => includeFn(l.text)).length;
+				resultMsg += `\n페이지 ${p.page}${method}: 전체 ${pageAll.length}개 → 인식 ${pageExtracted}개`;
+			});
+		} else if (pages && pages[0]?.method) {
+			resultMsg += `\n인식 방법: ${PAGE_METHOD_LABEL[pages[0].method]}`;
+		}
 		
 		return resultMsg;
 	}
@@ -168,36 +201,23 @@ export default function UploadPage() {
 		if (lines.length === 0) return;
 		setUploading(true);
 		try {
-			setStatus("Deleting existing data from OCR and SCAN databases...");
+			setStatus("Creating manifest...");
 			
-			// Delete all existing rows from both OCR and SCAN databases before upload
-			const [ocrDelRes, scanDelRes] = await Promise.all([
-				supabase
-					.from("mo_ocr_results")
-					.delete()
-					.neq("id", -1), // delete all rows (id is never -1, so this matches all)
-				supabase
-					.from("mo_scan_items")
-					.delete()
-					.neq("id", -1) // delete all rows
-			]);
-			
-			if (ocrDelRes.error) {
-				console.error("OCR delete error:", ocrDelRes.error);
-				throw new Error(`OCR DB 삭제 실패: ${ocrDelRes.error.message}`);
-			}
-			if (scanDelRes.error) {
-				console.error("SCAN delete error:", scanDelRes.error);
-				throw new Error(`SCAN DB 삭제 실패: ${scanDelRes.error.message}`);
-			}
+			// Store this upload as a new manifest; earlier manifests and their scan sessions are kept
+			const manifest = await createManifest({
+				name: manifestName.trim() || sourceFile || new Date().toLocaleString("ko-KR"),
+				source_file: sourceFile,
+				page_count: pageCount,
+			});
 
-			setStatus("OCR 및 SCAN DB 삭제 완료. 새로운 데이터 업로드 중...");
+			setStatus(`Manifest "${manifest.name}" 생성 완료. 새로운 데이터 업로드 중...`);
 
-			// Normalize and deduplicate by normalized text within the current batch to avoid Postgres upsert multi-hit error
-			// This ensures items with different whitespace/formatting but same normalized value are treated as duplicates
-			const seen = new Map<string, string>(); // normalized -> first original text
+			// Normalize and fold repeats by normalized text, so each code is one row (no Postgres upsert multi-hit error).
+			// A code listed again is another case of the same part: its row's expected_count counts the labels.
+			const seen = new Map<string, { original: string; confidence: number; columns: PackingColumns; expected_count: number }>();
 			const duplicates: Array<{ original: string; normalized: string; kept: string }> = [];
 			const emptyAfterNormalize: Array<{ original: string; normalized: string }> = [];
+			const checkFailed: string[] = []; // Misread codes left unfixed in review are not uploaded as expected items
 			
 			// Step 1: Normalize all items
 			const normalizedItems = lines.map(l => {
@@ -206,6 +226,7 @@ export default function UploadPage() {
 					original: l.text,
 					normalized: normalized,
 					confidence: l.confidence ?? 0,
+					columns: { case_no: l.case_no, part_no: l.part_no, quantity: l.quantity, weight: l.weight },
 					becameEmpty: !normalized || normalized.length === 0
 				};
 			});
@@ -221,41 +242,59 @@ export default function UploadPage() {
 						});
 						return false;
 					}
-					// Deduplicate by normalized text
-					if (seen.has(l.normalized)) {
-						const keptOriginal = seen.get(l.normalized)!;
+					if (barcodeIssue(l.normalized, codeSpec) === "check") {
+						checkFailed.push(l.normalized);
+						return false;
+					}
+					// Fold repeats of a code into its first row
+					const kept = seen.get(l.normalized);
+					if (kept) {
 						duplicates.push({
 							original: l.original,
 							normalized: l.normalized,
-							kept: keptOriginal
+							kept: kept.original
 						});
+						kept.expected_count++;
+						kept.confidence = Math.min(kept.confidence, l.confidence);
+						kept.columns = foldPackingColumns(kept.columns, l.columns);
 						return false;
 					}
-					seen.set(l.normalized, l.original);
+					seen.set(l.normalized, { original: l.original, confidence: l.confidence, columns: l.columns, expected_count: 1 });
 					return true;
 				})
-				.map((l) => ({
-					text: l.normalized,
-					confidence: l.confidence,
-					prefixes: prefixText,
-				}));
+				.map((l) => {
+					const row = seen.get(l.normalized)!;
+					return {
+						manifest_id: manifest.id,
+						text: l.normalized,
+						confidence: row.confidence,
+						prefixes: prefixText,
+						expected_count: row.expected_count,
+						...row.columns,
+					};
+				});
 			
-			// Use upsert to gracefully ignore duplicates already in DB (batch-internal dups removed above)
+			// The items route keeps codes already stored on the manifest as they are (repeats were folded above)
 			// Process in batches to avoid Supabase request size limits (typically 1000 rows per request)
 			const BATCH_SIZE = 500;
 			let uploadedCount = 0;
 			const batchResults: Array<{ batchNum: number; size: number; success: boolean; error?: string }> = [];
 			
-			for (let i = 0; i < payload.length; i += BATCH_SIZE) {
+			// The last batch marks the manifest complete; until then sessions and MATCH do not offer it.
+			// An empty list still sends one empty batch to complete its manifest.
+			for (let i = 0; i === 0 || i < payload.length; i += BATCH_SIZE) {
 				const batch = payload.slice(i, i + BATCH_SIZE);
 				const batchNum = Math.floor(i / BATCH_SIZE) + 1;
-				const { data, error } = await supabase
-					.from("mo_ocr_results")
-					.upsert(batch, { onConflict: "text" });
-				
-				if (error) {
-					batchResults.push({ batchNum, size: batch.length, success: false, error: error.message });
-					throw new Error(`Batch ${batchNum} 업로드 실패: ${error.message}`);
+				try {
+					await postApi<ManifestItemsResult>(`/api/manifests/${manifest.id}/items`, {
+						items: batch.map(({ text, confidence, expected_count, case_no, part_no, quantity, weight }) => ({ text, confidence, expected_count, case_no, part_no, quantity, weight })),
+						prefixes: prefixText,
+						complete: i + BATCH_SIZE >= payload.length,
+					});
+				} catch (e) {
+					const msg = e instanceof Error ? e.message : String(e);
+					batchResults.push({ batchNum, size: batch.length, success: false, error: msg });
+					throw new Error(`Batch ${batchNum} 업로드 실패: ${msg} (manifest "${manifest.name}"은(는) 미완료로 남아 선택 목록에 표시되지 않습니다. 다시 업로드하세요)`);
 				}
 				
 				// Note: upsert doesn't return inserted count, so we track by batch size
@@ -264,23 +303,24 @@ export default function UploadPage() {
 				setStatus(`업로드 중... 배치 ${batchNum}: ${batch.length}개 항목 처리됨 (총 ${uploadedCount}/${payload.length}개)`);
 			}
 			
-			// Verify upload by counting actual rows in database
+			// Verify upload by counting actual rows stored for this manifest
 			const { count, error: countError } = await supabase
 				.from("mo_ocr_results")
-				.select("*", { count: "exact", head: true });
+				.select("*", { count: "exact", head: true })
+				.eq("manifest_id", manifest.id);
 			
-			// Also get actual data to verify what was stored
-			const { data: storedData, error: dataError } = await supabase
-				.from("mo_ocr_results")
-				.select("text")
-				.order("created_at", { ascending: false })
-				.limit(1000);
+			// Also get actual data to verify what was stored (all pages, not just the first 1000 rows)
+			const storedTexts = await fetchAllRows<{ id: number; text: string }>(
+				"mo_ocr_results", "text", { manifest_id: manifest.id },
+				p => setStatus(`업로드 확인 중... ${p.loaded}/${p.total ?? "?"}개`),
+			)
+				.then(rows => new Set(rows.map(r => r.text)))
+				.catch(() => null);
 			
 			const originalCount = lines.length;
 			const normalizedCount = payload.length;
 			const skippedCount = originalCount - normalizedCount;
 			const actualCount = countError ? null : count;
-			const storedTexts = storedData ? new Set(storedData.map((r: any) => r.text)) : null;
 			
 			// Check which items from payload are actually in DB
 			const missingInDb: string[] = [];
@@ -293,13 +333,15 @@ export default function UploadPage() {
 			}
 			
 			let statusMsg = `\n\n[업로드 결과]`;
+			statusMsg += `\nManifest: ${manifest.name}${manifest.source_file ? ` (${manifest.source_file}, ${manifest.page_count ?? "?"}페이지)` : ""}`;
 			statusMsg += `\nOCR 인식 항목: ${originalCount}개`;
 			statusMsg += `\n정규화 후 항목: ${normalizedCount}개`;
 			
 			if (originalCount !== normalizedCount) {
 				statusMsg += `\n제외된 항목: ${skippedCount}개`;
 				statusMsg += `\n  - 정규화 후 빈 항목: ${emptyAfterNormalize.length}개`;
-				statusMsg += `\n  - 정규화 후 중복: ${duplicates.length}개`;
+				statusMsg += `\n  - 반복 코드 (수량으로 합침): ${duplicates.length}개`;
+				statusMsg += `\n  - 검증번호 오류: ${checkFailed.length}개${checkFailed.length > 0 ? ` (${checkFailed.slice(0, 5).join(", ")})` : ""}`;
 			}
 			
 			statusMsg += `\n업로드 시도: ${normalizedCount}개`;
@@ -341,36 +383,36 @@ export default function UploadPage() {
 			statusMsg += `\n업로드 시도 항목: ${normalizedCount}개`;
 			
 			if (originalCount !== normalizedCount) {
-				statusMsg += `\n제외된 항목: ${skippedCount}개 (중복: ${duplicates.length}개, 빈 항목: ${emptyAfterNormalize.length}개)`;
+				statusMsg += `\n제외된 항목: ${skippedCount}개 (반복 합침: ${duplicates.length}개, 빈 항목: ${emptyAfterNormalize.length}개)`;
 			}
 			
 			// Log payload details for debugging
 			console.log("=== OCR Upload Debug Info ===");
 			console.log(`원본 항목 수: ${originalCount}`);
 			console.log(`정규화 후 항목 수: ${normalizedCount}`);
-			console.log(`중복 제거: ${duplicates.length}개`);
+			console.log(`반복 합침: ${duplicates.length}개`);
 			console.log(`정규화 후 빈 항목: ${emptyAfterNormalize.length}개`);
 			console.log(`업로드할 payload:`, payload.slice(0, 10), "... (총", payload.length, "개)");
 			if (emptyAfterNormalize.length > 0) {
 				console.log("정규화 후 빈 항목들:", emptyAfterNormalize);
 			}
 			if (duplicates.length > 0) {
-				console.log("중복 제거된 항목들:", duplicates);
+				console.log("합쳐진 반복 항목들:", duplicates);
 			}
 			
-			// Always show duplicate count (even if 0)
-			statusMsg += `\n\n[정규화 후 중복 제거: ${duplicates.length}개]`;
+			// Always show the repeat count (even if 0)
+			statusMsg += `\n\n[반복 코드 합침: ${duplicates.length}개]`;
 			if (duplicates.length > 0) {
 				// Show first 20 duplicates to avoid message being too long
 				const displayDuplicates = duplicates.slice(0, 20);
 				displayDuplicates.forEach(dup => {
-					statusMsg += `\n  - "${dup.original}" → 정규화: "${dup.normalized}" (이미 "${dup.kept}" 존재)`;
+					statusMsg += `\n  - "${dup.original}" → 정규화: "${dup.normalized}" ("${dup.kept}"의 수량에 합산)`;
 				});
 				if (duplicates.length > 20) {
-					statusMsg += `\n  ... 외 ${duplicates.length - 20}개 중복 항목`;
+					statusMsg += `\n  ... 외 ${duplicates.length - 20}개 반복 항목`;
 				}
 			} else {
-				statusMsg += `\n  (중복 없음)`;
+				statusMsg += `\n  (반복 없음)`;
 			}
 			
 			// Always show empty items count (even if 0)
@@ -387,8 +429,18 @@ export default function UploadPage() {
 				statusMsg += `\n  (빈 항목 없음)`;
 			}
 			
-			statusMsg += `\n\n(OCR 및 SCAN DB 모두 초기화됨)`;
+			statusMsg += `\n\n(기존 예상 목록과 스캔 세션은 그대로 유지됨)`;
 			setStatus(statusMsg);
+
+			// Text fixed in the review grid teaches the confusion model (rows matched by id; split and
+			// merged rows change length and are ignored by the model). Not worth failing the upload over.
+			if (reviewRows) {
+				const original = new Map(ocrRows.map(r => [r.id, r.text]));
+				const fixes = reviewRows
+					.filter(r => original.has(r.id))
+					.map(r => ({ ocr_text: original.get(r.id) as string, corrected_text: r.text }));
+				recordCorrections("review", fixes).catch(() => undefined);
+			}
 			
 		} catch (e) {
 			// Improve error visibility for Supabase/PostgREST errors
@@ -402,19 +454,25 @@ export default function UploadPage() {
 		} finally {
 			setUploading(false);
 		}
-	}, [lines, prefixText]);
+	}, [lines, prefixText, codeSpec, manifestName, sourceFile, pageCount, reviewRows, ocrRows, recordCorrections]);
 
 	const clearDatabase = useCallback(async () => {
+		if (!canClear) {
+			setStatus(roleRequiredMessage("admin"));
+			return;
+		}
 		if (!confirm("모든 OCR 데이터와 스캔 데이터를 삭제할까요? 이 작업은 되돌릴 수 없습니다.")) return;
 		setClearing(true);
 		try {
-			// Delete both OCR results and scan items
+			// Delete OCR results, scan items and the manifests they belonged to
 			const [ocrRes, scanRes] = await Promise.all([
 				supabase.from("mo_ocr_results").delete().gt("id", 0),
 				supabase.from("mo_scan_items").delete().gt("id", 0)
 			]);
 			if (ocrRes.error) throw ocrRes.error;
 			if (scanRes.error) throw scanRes.error;
+			const manifestRes = await supabase.from("mo_manifests").delete().not("id", "is", null);
+			if (manifestRes.error) throw manifestRes.error;
 			setStatus("Database cleared");
 		} catch (e) {
 			const err = e as unknown as { message?: string };
@@ -422,203 +480,75 @@ export default function UploadPage() {
 		} finally {
 			setClearing(false);
 		}
-	}, []);
+	}, [canClear]);
 
 	const handleFiles = useCallback(async (file: File) => {
-		setLines([]);
-		setProgress(0);
         setStatus("");
+		setSourceFile(file.name);
+		setManifestName(file.name.replace(/\.[^.]+$/, ""));
+		setPageCount(null);
+		setReviewRows(null);
+		setRunId(id => id + 1);
+		pdfRef.current = null;
 
-        const allowedPrefixes = prefixText
-			.split(",")
-			.map((p) => p.trim())
-			.filter(Boolean);
-
-        const shouldInclude = (text: string) => {
-			if (!text || typeof text !== 'string') return false;
-			return allowedPrefixes.length === 0
-				? true
-				: allowedPrefixes.some((p) => text.startsWith(p));
-		};
-
+        let sources: OcrPageSource[];
+        let fileType: string;
         if (file.type.startsWith("image/")) {
 			const url = URL.createObjectURL(file);
 			setImageUrl(url);
-
-            setStatus("Running OCR...");
-            const { data } = await Tesseract.recognize(file, "kor+eng", {
-				logger: (m) => {
-                    if (m.status === "recognizing text" && m.progress) {
-						setProgress(Math.round(m.progress * 100));
-					}
-					setStatus(m.status);
-				},
-            });
-
-            // Prefer structured lines with confidence, fallback to words grouping, then text split
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const structuredLines = (data as any)?.lines as Array<{ text: string; confidence: number }>|undefined;
-            let allLines: OcrLine[] = [];
-            let extracted: OcrLine[];
-            
-            if (structuredLines && structuredLines.length > 0) {
-                allLines = structuredLines
-                    .map(l => ({ text: postProcessOcrText((l.text || "").trim()), confidence: l.confidence ?? 0 }));
-                extracted = allLines
-                    .filter(l => l.text.length > 0)
-                    .filter(l => shouldInclude(l.text));
-            } else {
-                // Try grouping words into lines to compute confidence
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const words = ((data as any)?.words as Array<any>)?.map(w => ({ text: w.text, confidence: w.confidence, bbox: w.bbox })) ?? [];
-                const fromWords = buildLineResultsFromWords(words, shouldInclude);
-                if (fromWords.length > 0) {
-                    // Get all lines before filtering for stats
-                    const allWordsLines = buildLineResultsFromWords(words, () => true);
-                    allLines = allWordsLines;
-                    extracted = fromWords;
-                } else {
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    const textLines: string[] = (data as any)?.text
-                        ? // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                          String((data as any).text)
-                            .split("\n")
-                            .map(t => t.trim())
-                            .filter(Boolean)
-                        : [];
-                    allLines = textLines.map(t => ({ text: postProcessOcrText(t), confidence: 0 }));
-                    extracted = allLines
-                        .filter(l => shouldInclude(l.text))
-                        .map(t => ({ text: t.text, confidence: 0 }));
-                }
-            }
-            
-            setLines(extracted);
-            const resultMsg = showOcrResults(allLines, extracted, allowedPrefixes, shouldInclude, "이미지");
-            setStatus(`OCR 완료${resultMsg}`);
+			setPageCount(1);
+            fileType = "이미지";
+            // Decoded element rather than the file, so the result knows the image size for the review overlay
+            sources = [{
+                page: 1,
+                load: async () => {
+                    const img = new Image();
+                    img.src = url;
+                    await img.decode();
+                    return img;
+                },
+            }];
         } else if (file.type === "application/pdf") {
             setStatus("Loading PDF...");
-            // @ts-expect-error - legacy browser bundle has no types in this path
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const pdfjs: any = await import("pdfjs-dist/legacy/build/pdf");
-            // Use local worker file (.mjs) served from /public to avoid CDN/network issues
-            pdfjs.GlobalWorkerOptions.workerSrc = "/pdf.worker.min.mjs";
-
-            const arrayBuffer = await file.arrayBuffer();
-            const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
-            const numPages = pdf.numPages;
-            
-            if (numPages === 0) {
+            const pdf = await openPdf(file);
+            setPageCount(pdf.numPages);
+            if (pdf.numPages === 0) {
                 setStatus("PDF has no pages.");
                 return;
             }
-
-            setStatus(`Processing ${numPages} page(s)...`);
-            
-            // Process all pages and combine results
-            const allExtracted: OcrLine[] = [];
-            const allLinesFromAllPages: OcrLine[] = [];
-            const pageStats: Array<{ page: number; total: number; extracted: number }> = [];
-
-            for (let pageNum = 1; pageNum <= numPages; pageNum++) {
-                setStatus(`Processing page ${pageNum} of ${numPages}...`);
-                const page = await pdf.getPage(pageNum);
-                // Increase scale for better OCR accuracy (2 -> 3)
-                const viewport = page.getViewport({ scale: 3 });
-                const canvas = document.createElement("canvas");
-                const ctx = canvas.getContext("2d");
-                if (!ctx) {
-                    setStatus(`Failed to get canvas context for page ${pageNum}.`);
-                    continue;
-                }
-                canvas.width = viewport.width;
-                canvas.height = viewport.height;
-                
-                setStatus(`Rendering PDF page ${pageNum} of ${numPages}...`);
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                await page.render({ canvasContext: ctx as any, viewport: viewport as any, canvas } as any).promise;
-
-                // Preprocess image to improve OCR accuracy
-                setStatus(`Enhancing image for OCR (page ${pageNum}/${numPages})...`);
-                const processedCanvas = preprocessImageForOCR(canvas);
-
-                // Store the last page for preview (original, not processed)
-                if (pageNum === numPages) {
-                    const dataUrl = canvas.toDataURL("image/png");
-                    setImageUrl(dataUrl);
-                }
-
-                setStatus(`Running OCR on page ${pageNum} of ${numPages}...`);
-                const { data } = await Tesseract.recognize(processedCanvas, "kor+eng", {
-                    logger: (m) => {
-                        if (m.status === "recognizing text" && m.progress) {
-                            // Calculate overall progress across all pages
-                            const pageProgress = m.progress;
-                            const overallProgress = ((pageNum - 1) + pageProgress) / numPages;
-                            setProgress(Math.round(overallProgress * 100));
-                        }
-                        setStatus(`${m.status} (page ${pageNum}/${numPages})`);
-                    },
-                });
-
-                // Prefer structured lines with confidence, fallback to words grouping, then text split
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const structuredLinesPdf = (data as any)?.lines as Array<{ text: string; confidence: number }>|undefined;
-                let pageAllLines: OcrLine[] = [];
-                let pageExtracted: OcrLine[];
-                
-                if (structuredLinesPdf && structuredLinesPdf.length > 0) {
-                    pageAllLines = structuredLinesPdf
-                        .map(l => ({ text: postProcessOcrText((l.text || "").trim()), confidence: l.confidence ?? 0 }));
-                    pageExtracted = pageAllLines
-                        .filter(l => l.text.length > 0)
-                        .filter(l => shouldInclude(l.text));
-                } else {
-                    // Try grouping words into lines to compute confidence
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    const words = ((data as any)?.words as Array<any>)?.map(w => ({ text: w.text, confidence: w.confidence, bbox: w.bbox })) ?? [];
-                    const fromWords = buildLineResultsFromWords(words, shouldInclude);
-                    if (fromWords.length > 0) {
-                        // Get all lines before filtering for stats
-                        const allWordsLines = buildLineResultsFromWords(words, () => true);
-                        pageAllLines = allWordsLines;
-                        pageExtracted = fromWords;
-                    } else {
-                        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                        const textLines: string[] = (data as any)?.text
-                            ? // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                              String((data as any).text)
-                                .split("\n")
-                                .map(t => t.trim())
-                                .filter(Boolean)
-                            : [];
-                        pageAllLines = textLines.map(t => ({ text: postProcessOcrText(t), confidence: 0 }));
-                        pageExtracted = pageAllLines
-                            .filter(l => shouldInclude(l.text))
-                            .map(t => ({ text: t.text, confidence: 0 }));
-                    }
-                }
-                
-                allLinesFromAllPages.push(...pageAllLines);
-                allExtracted.push(...pageExtracted);
-                pageStats.push({ page: pageNum, total: pageAllLines.length, extracted: pageExtracted.length });
-            }
-            
-            setLines(allExtracted);
-            const resultMsg = showOcrResults(allLinesFromAllPages, allExtracted, allowedPrefixes, shouldInclude, "PDF", `${numPages}페이지`);
-            let finalMsg = `PDF OCR 완료${resultMsg}`;
-            if (numPages > 1) {
-                finalMsg += `\n\n[페이지별 인식 결과]:`;
-                pageStats.forEach(stat => {
-                    finalMsg += `\n페이지 ${stat.page}: 전체 ${stat.total}개 → 인식 ${stat.extracted}개`;
-                });
-            }
-            setStatus(finalMsg);
+            fileType = "PDF";
+            pdfRef.current = pdf;
+            // Preview the first page; text-layer pages are never rendered for OCR
+            void pdf.renderPage(1, 1.5).then(canvas => setImageUrl(canvas.toDataURL("image/png")), () => setImageUrl(null));
+            // Digital PDFs carry their text: use it directly and OCR only pages without a text layer.
+            // Those render only when a worker picks them up; scale 3 for better OCR accuracy
+            sources = Array.from({ length: pdf.numPages }, (_, i) => ({
+                page: i + 1,
+                extract: async () => {
+                    const { lines, words, size } = await pdf.textLayer(i + 1);
+                    const text = lines.map(l => l.text).join("\n");
+                    if (text.replace(/\s/g, "").length < MIN_TEXT_LAYER_CHARS) return null;
+                    return { text, lines, words, size };
+                },
+                load: async () => enhanceForOcr(await pdf.renderPage(i + 1, 3)),
+            }));
 		} else {
 			setImageUrl(null);
             setStatus("Unsupported file type.");
+            return;
 		}
-	}, [prefixText]);
+
+        setStatus(`Running OCR on ${sources.length} page(s)...`);
+        const pages = await ocr.start(sources);
+        const allLines = pages.flatMap(p => pageLines(p, correct));
+        const extracted = packingRows(pages, isCodeCandidate, correct).filter(l => shouldInclude(l.text));
+        const resultMsg = showOcrResults(allLines, extracted, allowedPrefixes, shouldInclude, correct, fileType, fileType === "PDF" ? `${pages.length}페이지` : undefined, pages);
+        const tableRows = extracted.filter(l => l.case_no !== null || l.part_no !== null || l.quantity !== null || l.weight !== null);
+        const tableMsg = tableRows.length > 0
+            ? `\n\n[표 인식]: ${tableRows.length}행 (수량 ${tableRows.filter(l => l.quantity !== null).length}행, 케이스 ${tableRows.filter(l => l.case_no !== null).length}행)`
+            : "";
+        setStatus(`${fileType === "PDF" ? "PDF " : ""}OCR 완료${resultMsg}${tableMsg}`);
+	}, [ocr, allowedPrefixes, shouldInclude, isCodeCandidate, correct]);
 
 	const onDrop = useCallback((e: React.DragEvent) => {
 		e.preventDefault();
@@ -634,16 +564,25 @@ export default function UploadPage() {
 	return (
         <div className="max-w-5xl mx-auto space-y-6">
 			<h1 className="text-2xl sm:text-3xl font-semibold">OCR Uploader</h1>
-			<div className="flex items-center gap-3 text-sm">
+			<div className="flex flex-wrap items-center gap-3 text-sm">
 				<label htmlFor="prefixes" className="text-gray-600">Allowed prefixes (comma separated)</label>
 				<input
 					id="prefixes"
 					value={prefixText}
-					onChange={(e) => setPrefixText(e.target.value)}
+					onChange={(e) => setPrefixOverride(e.target.value)}
 					placeholder="e.g. 2M,ABC,XYZ"
 					className="rounded border px-2 py-1"
 				/>
 
+				<label htmlFor="manifest-name" className="text-gray-600">Manifest</label>
+				<input
+					id="manifest-name"
+					value={manifestName}
+					onChange={(e) => setManifestName(e.target.value)}
+					placeholder="e.g. CKD 2025-01-10"
+					className="rounded border px-2 py-1"
+				/>
+
 				<button
 					onClick={uploadToSupabase}
 					disabled={lines.length === 0 || uploading}
@@ -653,8 +592,9 @@ export default function UploadPage() {
 				</button>
 				<button
 					onClick={clearDatabase}
-					disabled={clearing}
-					className={`rounded px-3 py-2 text-sm ${clearing ? "bg-gray-300 text-gray-500" : "bg-red-600 text-white hover:bg-red-700"}`}
+					disabled={clearing || !canClear}
+					title={canClear ? undefined : roleRequiredMessage("admin")}
+					className={`rounded px-3 py-2 text-sm ${clearing || !canClear ? "bg-gray-300 text-gray-500" : "bg-red-600 text-white hover:bg-red-700"}`}
 				>
 					{clearing ? "Clearing..." : "Clear DB"}
 				</button>
@@ -685,10 +625,60 @@ export default function UploadPage() {
 
 			{status && (
                 <div className="rounded border bg-white p-4">
-                    <div className="text-sm text-gray-600">{status} {progress ? `(${progress}%)` : null}</div>
+                    <div className="text-sm text-gray-600">{status}</div>
 				</div>
 			)}
 
+			{ocr.pages.length > 0 && (
+                <div className="rounded border bg-white p-4 space-y-3">
+                    <div className="flex items-center justify-between gap-3">
+                        <div className="text-sm text-gray-700">
+                            OCR {Math.round(ocr.progress * 100)}%
+							{ocr.running && ocr.etaSeconds !== null ? ` · 약 ${formatEta(ocr.etaSeconds)} 남음` : ""}
+						</div>
+						{ocr.running && (
+							<button
+                                className="rounded border px-3 py-1 text-sm hover:bg-gray-50"
+								onClick={ocr.cancelAll}
+							>
+                                Cancel all
+							</button>
+						)}
+					</div>
+                    <div className="h-1.5 w-full rounded bg-gray-200 overflow-hidden">
+                        <div className="h-full bg-blue-500" style={{ width: `${Math.round(ocr.progress * 100)}%` }} />
+					</div>
+                    <ul className="grid grid-cols-1 gap-2 sm:grid-cols-2 lg:grid-cols-3">
+						{ocr.pages.map(p => (
+                            <li key={p.page} className="flex items-center justify-between gap-2 rounded border px-3 py-2 text-sm">
+                                <span>
+                                    페이지 {p.page}: {PAGE_STATUS_LABEL[p.status]}
+									{p.method ? ` (${PAGE_METHOD_LABEL[p.method]})` : ""}
+									{p.status === "running" ? ` ${Math.round(p.progress * 100)}%` : ""}
+									{p.status === "failed" && p.error ? <span className="block text-xs text-red-600">{p.error}</span> : null}
+								</span>
+								{p.status === "queued" || p.status === "running" ? (
+                                    <button className="text-xs text-gray-600 hover:underline" onClick={() => ocr.cancelPage(p.page)}>Cancel</button>
+								) : p.status === "failed" || p.status === "cancelled" ? (
+                                    <button className="text-xs text-blue-600 hover:underline" onClick={() => ocr.retryPage(p.page)}>Retry</button>
+								) : null}
+							</li>
+						))}
+					</ul>
+				</div>
+			)}
+
+			{ocrRows.length > 0 ? (
+                <div className="space-y-2">
+					{reviewRows !== null && (
+                        <div className="flex items-center justify-between rounded border bg-amber-50 px-3 py-2 text-sm text-amber-900">
+                            <span>검토 중 수정됨 - 업로드 시 수정된 목록이 저장됩니다.</span>
+                            <button className="rounded border border-amber-300 px-2 py-1 hover:bg-amber-100" onClick={() => setReviewRows(null)}>Reset edits</button>
+						</div>
+					)}
+					<OcrReviewGrid key={runId} rows={lines} pageImage={pageImage} isCode={isCode} repairs={checkRepairs} onChange={setReviewRows} />
+				</div>
+			) : (
             <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
                 <div className="rounded border bg-white p-4">
                     <h2 className="mb-3 font-medium">Preview</h2>
@@ -700,19 +690,10 @@ export default function UploadPage() {
 				</div>
                 <div className="rounded border bg-white p-4">
                     <h2 className="mb-3 font-medium">OCR Result (per line)</h2>
-					{lines.length === 0 ? (
-                        <p className="text-sm text-gray-500">No OCR results yet.</p>
-					) : (
-                        <ul className="space-y-2">
-							{lines.map((l, idx) => (
-                                <li key={idx} className="rounded border px-3 py-2 text-sm">
-                                    <span className="font-mono">{l.text}</span>
-								</li>
-							))}
-						</ul>
-					)}
+                    <p className="text-sm text-gray-500">No OCR results yet.</p>
 				</div>
 			</div>
+			)}
 		</div>
 	);
 }
@@ -1,250 +1,372 @@
 "use client";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { supabase } from "../../../lib/supabaseClient";
-import { normalizeBarcode } from "../../../lib/barcode";
-
-type ScanItem = { text: string };
+import { barcodeIssue, matchesPrefix, normalizeBarcode, parsePrefixList } from "../../../lib/barcode";
+import { useBarcodeProfile } from "../../../lib/barcodeProfile";
+import { describeLabelData, readScan } from "../../../lib/labelData";
+import { useScannerInput, type ScanEvent } from "../../../lib/scannerInput";
+import { scanFeedback } from "../../../lib/scanFeedback";
+import { parseLocationLabel, useCurrentLocation } from "../../../lib/location";
+import { describeLine, reconcile, type CodeCount } from "../../../lib/reconcile";
+import { useActiveSession } from "../../../lib/scanSession";
+import { enqueueWrite, listOutbox, useOutbox } from "../../../lib/scanOutbox";
+import { pushUndo, type UndoEntry } from "../../../lib/undoStack";
+import { isScanSource, mergeSource, type ScanOrigin, type ScanSource } from "../../../lib/scanSource";
+import { fetchAllRows, type LoadProgress } from "../../../lib/pagedFetch";
+import { combineSync, useTableChanges, type TableChange } from "../../../lib/realtime";
+import SessionBar from "../../components/SessionBar";
+import LoadProgressBar from "../../components/LoadProgressBar";
+import SyncIndicator from "../../components/SyncIndicator";
+import ScannerSettings from "../../components/ScannerSettings";
+import FeedbackSettings from "../../components/FeedbackSettings";
+import ScanFlash from "../../components/ScanFlash";
+import LocationBar from "../../components/LocationBar";
+import UndoToast from "../../components/UndoToast";
+import SourceBadge from "../../components/SourceBadge";
 
 export default function CkdScanPage() {
-    const [prefixText] = useState<string>("1M,2M"); // Keep for filtering, but don't show UI
-    const [matched, setMatched] = useState<ScanItem[]>([]);
-    const [unmatched, setUnmatched] = useState<ScanItem[]>([]);
+    const { profile, spec } = useBarcodeProfile("ckd");
+    const prefixText = spec.prefixes.join(",");
+    const [scanCounts, setScanCounts] = useState<Map<string, number>>(new Map()); // code -> labels scanned
+    const [storedCounts, setStoredCounts] = useState<Map<string, number>>(new Map()); // code -> scan_count in the DB
+    const [origins, setOrigins] = useState<Map<string, ScanOrigin>>(new Map()); // code -> how it was recorded
     const [status, setStatus] = useState<string>("");
-    const inputRef = useRef<HTMLInputElement | null>(null);
-    const [currentCode, setCurrentCode] = useState<string>("");
-    const [autoSubmit] = useState<boolean>(true); // Always enabled, no UI
-    const [submitDelayMs] = useState<number>(200); // Fixed delay, no UI
-    const submitTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-    const expectedCacheRef = useRef<Set<string>>(new Set());
-    const seenRef = useRef<Set<string>>(new Set());
-    const [expectedList, setExpectedList] = useState<string[]>([]); // Store full expected list for display
-    const hasUnsavedData = useRef<boolean>(false); // Track if there's unsaved data (for error handling)
+    const { location, set: setLocation } = useCurrentLocation();
+    const expectedCacheRef = useRef<Map<string, number>>(new Map()); // code -> labels listed
+    const countsRef = useRef<Map<string, number>>(new Map()); // mirrors scanCounts for addItem
+    const [expectedList, setExpectedList] = useState<CodeCount[]>([]); // Store full expected list for display
+    const [expectedProgress, setExpectedProgress] = useState<LoadProgress | null>(null);
+    const sessionState = useActiveSession();
+    const sessionId = sessionState.session?.id ?? null;
+    const manifestId = sessionState.session?.manifest_id ?? null;
+    const outbox = useOutbox();
+    // Codes of this session not yet written to Supabase, by outbox status
+    const unsynced = useMemo(() => {
+        const map = new Map<string, "pending" | "failed">();
+        for (const entry of outbox.entries) {
+            if (entry.route === "/api/scans" && entry.body.session_id === sessionId) {
+                map.set(String(entry.body.text), entry.status);
+            }
+        }
+        return map;
+    }, [outbox.entries, sessionId]);
+    // This session's scans still in the outbox, per code
+    const queuedCounts = useMemo(() => {
+        const map = new Map<string, number>();
+        for (const entry of outbox.entries) {
+            if (entry.route === "/api/scans" && entry.body.session_id === sessionId) {
+                const text = String(entry.body.text);
+                map.set(text, (map.get(text) ?? 0) + 1);
+            }
+        }
+        return map;
+    }, [outbox.entries, sessionId]);
+
+    const allowedPrefixes = useMemo(() => parsePrefixList(prefixText), [prefixText]);
+
+    const shouldInclude = useCallback((text: string) => matchesPrefix(text, allowedPrefixes), [allowedPrefixes]);
 
-    const allowedPrefixes = useCallback(() =>
-        prefixText.split(",").map(p => p.trim()).filter(Boolean), [prefixText]);
+    const putCounts = useCallback((counts: Map<string, number>) => {
+        countsRef.current = counts;
+        setScanCounts(counts);
+    }, []);
+
+    // Shown counts are the stored scan_count plus the scans still queued here, so a remote update
+    // neither drops a queued scan nor counts an acknowledged one twice
+    useEffect(() => {
+        const merged = new Map(storedCounts);
+        for (const [text, queued] of queuedCounts) merged.set(text, (merged.get(text) ?? 0) + queued);
+        putCounts(merged);
+    }, [storedCounts, queuedCounts, putCounts]);
 
-    const shouldInclude = useCallback((text: string) => {
-        const p = allowedPrefixes();
-        if (p.length === 0) return true;
-        return p.some(pref => text.startsWith(pref));
-    }, [allowedPrefixes]);
+    // Keep an item's source as the server does (see mergeSource)
+    const putOrigin = useCallback((text: string, source: ScanSource, reason: string | null) => {
+        setOrigins(prev => {
+            const current = prev.get(text);
+            const merged = mergeSource(current?.source, source);
+            if (current && merged === current.source) return prev;
+            return new Map(prev).set(text, { source: merged, reason });
+        });
+    }, []);
 
-    const addItem = useCallback(async (text: string) => {
+    const addItem = useCallback(async (
+        text: string,
+        source: ScanSource = "scanner",
+        manualReason: string | null = null,
+        symbology: string | null = null,
+    ) => {
         if (!text || text.trim().length === 0) return;
-        const normalized = normalizeBarcode(text);
+        // Structured labels carry the code in the profile's label field
+        const scan = readScan(text, spec.labelField, symbology);
+        const normalized = scan.code;
+        if (scan.label && !normalized) {
+            setStatus(`Skipped: label has no ${spec.labelField} field`);
+            scanFeedback("skipped");
+            return;
+        }
         if (!normalized || normalized.length === 0) return;
+        if (!sessionId) {
+            setStatus(`Save failed: no active session (${normalized})`);
+            scanFeedback("skipped");
+            return;
+        }
         if (!shouldInclude(normalized)) {
             setStatus(`Skipped: ${normalized} (doesn't match prefix)`);
+            scanFeedback("skipped");
             return;
         }
-        if (seenRef.current.has(normalized)) {
-            setStatus(`Already scanned: ${normalized}`);
+        // A wrong check digit is a misread label, not an unmatched item
+        if (barcodeIssue(normalized, spec) === "check") {
+            setStatus(`Rejected: ${normalized} (check digit mismatch)`);
+            scanFeedback("skipped");
             return;
         }
-        seenRef.current.add(normalized);
-        
         // Fast path: local cache lookup (no network)
-        const exists = expectedCacheRef.current.has(normalized);
-        const isMatched = exists;
+        const listed = expectedCacheRef.current.get(normalized) ?? 0;
+        const scanned = countsRef.current.get(normalized) ?? 0;
+        // A code listed on several cases counts every scan, more than listed is an over-scan.
+        // Listed once or not at all, a second read is the same label scanned twice.
+        if (scanned > 0 && listed <= 1) {
+            setStatus(`Already scanned: ${normalized}`);
+            scanFeedback("duplicate");
+            return;
+        }
+        const count = scanned + 1;
+        putCounts(new Map(countsRef.current).set(normalized, count));
         
         // Update UI immediately
-        if (exists) {
-            setMatched(prev => [...prev, { text: normalized }]);
-            setStatus(`Matched: ${normalized}`);
+        const labelInfo = scan.data ? ` (${describeLabelData(scan.data)})` : "";
+        if (listed === 0) {
+            setStatus(`Unmatched: ${normalized}${count > 1 ? ` (scanned ${count}x)` : ""}${labelInfo}`);
+            scanFeedback("unmatched");
+        } else if (count > listed) {
+            setStatus(`Over-scanned: ${normalized} (${count} of ${listed})${labelInfo}`);
+            scanFeedback("duplicate");
         } else {
-            setUnmatched(prev => [...prev, { text: normalized }]);
-            setStatus(`Unmatched: ${normalized}`);
+            setStatus(`Matched: ${normalized} (${count} of ${listed})${labelInfo}`);
+            scanFeedback("matched");
         }
         
-        // Save to DB immediately on scan
+        // Queue locally first; the outbox posts it to /api/scans now or when the connection returns.
+        // The server re-checks the format and decides matched against the session's manifest.
+        // scan_id makes a replayed entry a duplicate instead of a second count, and lets the scan be undone.
         try {
-            const payload = [{
+            const scanId = crypto.randomUUID();
+            await enqueueWrite("/api/scans", {
+                session_id: sessionId,
                 text: normalized,
-                prefixes: prefixText,
-                matched: isMatched
-            }];
-            
-            await supabase
-                .from("mo_scan_items")
-                .upsert(payload, { onConflict: "text" });
-            
-            hasUnsavedData.current = false; // Mark as saved
+                profile_id: profile.id,
+                label_data: scan.data,
+                scan_id: scanId,
+                source,
+                manual_reason: manualReason,
+                location,
+                scanned_at: new Date().toISOString(),
+            });
+            putOrigin(normalized, source, manualReason);
+            pushUndo(`스캔 ${normalized}`, { kind: "scan", session_id: sessionId, text: normalized, scan_id: scanId });
         } catch (e) {
             const msg = e instanceof Error ? e.message : String(e);
             setStatus(`Save failed: ${msg}`);
-            hasUnsavedData.current = true; // Mark as unsaved on error
         }
-    }, [prefixText, shouldInclude]);
+    }, [profile.id, sessionId, shouldInclude, spec, putCounts, putOrigin, location]);
 
-    // Always focus barcode input for scanning
-    useEffect(() => {
-        // Focus barcode input on mount and keep it focused
-        const focusBarcode = () => {
-            inputRef.current?.focus();
-        };
-        
-        // Focus immediately
-        setTimeout(focusBarcode, 100);
-        
-        // Keep focus on barcode input when clicking anywhere
-        const onFocus = () => {
-            // Only refocus if not already focused on barcode input
-            if (document.activeElement !== inputRef.current) {
-                focusBarcode();
+    // Codes entered by hand (typed, or marked in the list) are manual adds
+    const addManual = useCallback(async (text: string) => {
+        let reason: string | null = null;
+        if (profile.manualReasonRequired) {
+            reason = window.prompt(`수동 추가 사유 (${text})`)?.trim() || null;
+            if (!reason) {
+                setStatus(`Manual add cancelled: ${text} (reason required)`);
+                return;
             }
-        };
-        
-        window.addEventListener("click", onFocus);
-        // Also refocus when window regains focus (e.g., after scanning)
-        window.addEventListener("focus", focusBarcode);
-        
-        return () => {
-            window.removeEventListener("click", onFocus);
-            window.removeEventListener("focus", focusBarcode);
-        };
-    }, []);
-
-    // No session handling – items will be saved standalone
+        }
+        await addItem(text, "manual", reason); // addItem now saves to DB immediately
+    }, [addItem, profile.manualReasonRequired]);
 
-    const handleKey = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
-        const key = e.key;
-        if (key === "Enter") {
-            const code = currentCode;
-            setCurrentCode("");
-            if (code.length > 0) addItem(code);
-            e.preventDefault();
+    // Items are saved into the active scan session (see SessionBar).
+    // Scanner bursts submit on their own; typed codes on Enter, as manual adds.
+    // A location label is not an item: it sets where the following scans are recorded
+    const handleScan = useCallback((event: ScanEvent) => {
+        const scannedLocation = parseLocationLabel(event.text);
+        if (scannedLocation) {
+            setLocation(scannedLocation);
+            setStatus(`Location: ${scannedLocation}`);
+            scanFeedback("matched");
             return;
         }
-    }, [addItem, currentCode]);
-
-    // Auto submit when typing stops (for scanners that don't send Enter)
-    useEffect(() => {
-        if (!autoSubmit) return;
-        if (!currentCode) return;
-        if (submitTimerRef.current) clearTimeout(submitTimerRef.current);
-        submitTimerRef.current = setTimeout(() => {
-            const code = currentCode;
-            setCurrentCode("");
-            if (code.length > 0) addItem(code);
-        }, Math.max(100, submitDelayMs));
-        return () => {
-            if (submitTimerRef.current) clearTimeout(submitTimerRef.current);
-        };
-    }, [autoSubmit, submitDelayMs, currentCode, addItem]);
+        if (event.source === "typed") void addManual(event.text);
+        else void addItem(event.text, "scanner", null, event.symbology);
+    }, [addItem, addManual, setLocation]);
+    const scanner = useScannerInput(handleScan);
 
     // Load expected cache from DB once (and provide a manual refresh)
     const loadExpectedCache = useCallback(async () => {
+        if (!manifestId) {
+            expectedCacheRef.current = new Map();
+            setExpectedList([]);
+            return;
+        }
         try {
-            const { data, error } = await supabase.from("mo_ocr_results").select("text");
-            if (error) throw error;
-            const set = new Set<string>();
-            const list: string[] = [];
-            for (const r of data ?? []) {
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const normalized = normalizeBarcode((r as any).text);
+            const data = await fetchAllRows<{ id: number; text: string; expected_count: number }>(
+                "mo_ocr_results", "text, expected_count", { manifest_id: manifestId }, setExpectedProgress,
+            );
+            const map = new Map<string, number>();
+            for (const r of data) {
+                const normalized = normalizeBarcode(r.text);
                 if (shouldInclude(normalized)) {
-                    set.add(normalized);
-                    list.push(normalized);
+                    map.set(normalized, (map.get(normalized) ?? 0) + (r.expected_count ?? 1));
                 }
             }
-            expectedCacheRef.current = set;
-            setExpectedList(list.sort());
+            expectedCacheRef.current = map;
+            setExpectedList([...map].map(([text, count]) => ({ text, count })));
             // Don't show status message for expected list loading
         } catch (e) {
             const msg = e instanceof Error ? e.message : String(e);
             setStatus(`Load expected failed: ${msg}`);
+        } finally {
+            setExpectedProgress(null);
         }
-    }, [shouldInclude]);
+    }, [manifestId, shouldInclude]);
 
     useEffect(() => { void loadExpectedCache(); }, [loadExpectedCache]);
 
     // Load scanned items from database on page load
     const loadScannedItems = useCallback(async () => {
+        if (!sessionId) {
+            setStoredCounts(new Map());
+            setOrigins(new Map());
+            return;
+        }
         try {
-            // Load all items and filter by prefix client-side (to handle "1M", "2M", "1M,2M" formats)
-            const { data, error } = await supabase
-                .from("mo_scan_items")
-                .select("text, matched, prefixes");
-            
-            if (error) throw error;
+            // Load the session's items and filter by prefix client-side (to handle "1M", "2M", "1M,2M" formats)
+            const data = await fetchAllRows<{ id: number; text: string; scan_count: number; prefixes: string | null; source: string; manual_reason: string | null }>(
+                "mo_scan_items", "text, scan_count, prefixes, source, manual_reason", { session_id: sessionId },
+            );
             
-            const loadedMatched: ScanItem[] = [];
-            const loadedUnmatched: ScanItem[] = [];
-            const allowedPrefixesList = allowedPrefixes();
+            const loaded = new Map<string, number>();
+            const loadedOrigins = new Map<string, ScanOrigin>();
             
-            for (const item of data ?? []) {
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const normalized = normalizeBarcode((item as any).text);
+            for (const item of data) {
+                const normalized = normalizeBarcode(item.text);
                 if (!shouldInclude(normalized)) continue;
                 
                 // Check if the item's prefix matches our allowed prefixes
                 // Item can have "1M", "2M", or "1M,2M" as prefix
-                const itemPrefix = String((item as any).prefixes || "");
+                const itemPrefix = String(item.prefixes || "");
                 const itemPrefixes = itemPrefix.split(",").map((p: string) => p.trim());
-                const hasMatchingPrefix = allowedPrefixesList.length === 0 || 
-                    allowedPrefixesList.some(allowed => 
+                const hasMatchingPrefix = allowedPrefixes.length === 0 || 
+                    allowedPrefixes.some(allowed => 
                         itemPrefixes.some(item => item === allowed) || itemPrefix === prefixText
                     );
                 
                 if (!hasMatchingPrefix) continue;
                 
-                seenRef.current.add(normalized);
-                
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                if ((item as any).matched) {
-                    loadedMatched.push({ text: normalized });
-                } else {
-                    loadedUnmatched.push({ text: normalized });
+                loaded.set(normalized, (loaded.get(normalized) ?? 0) + (item.scan_count ?? 1));
+                if (isScanSource(item.source)) loadedOrigins.set(normalized, { source: item.source, reason: item.manual_reason });
+            }
+
+            // Scans still waiting in the outbox are not in the DB yet; queuedCounts adds their counts
+            for (const entry of await listOutbox()) {
+                if (entry.route !== "/api/scans" || entry.body.session_id !== sessionId) continue;
+                const normalized = String(entry.body.text);
+                const source = isScanSource(entry.body.source) ? entry.body.source : "scanner";
+                const merged = mergeSource(loadedOrigins.get(normalized)?.source, source);
+                if (merged !== loadedOrigins.get(normalized)?.source) {
+                    loadedOrigins.set(normalized, { source: merged, reason: (entry.body.manual_reason as string | null) ?? null });
                 }
             }
             
-            setMatched(loadedMatched);
-            setUnmatched(loadedUnmatched);
-            setStatus(`Loaded ${loadedMatched.length + loadedUnmatched.length} scanned items from DB`);
+            setStoredCounts(loaded);
+            setOrigins(loadedOrigins);
+            setStatus(`Loaded ${loaded.size} scanned items from DB`);
         } catch (e) {
             const msg = e instanceof Error ? e.message : String(e);
             console.error("Load scanned items failed:", msg);
         }
-    }, [prefixText, shouldInclude]);
+    }, [prefixText, sessionId, allowedPrefixes, shouldInclude]);
 
-    // Load scanned items on mount and when prefixText changes
+    // Load scanned items on mount and when prefixText or the session changes
     useEffect(() => { 
         void loadScannedItems(); 
     }, [loadScannedItems]);
 
-    // Calculate missing items (expected but not scanned yet)
-    const missing = expectedList.filter(text => !seenRef.current.has(text));
+    // Scans from other PDAs on the same session arrive live (own scans echo back and land in place).
+    // A repeat scan is an UPDATE of scan_count, the stored count once this device's scans are acknowledged.
+    const applyScanChange = useCallback((change: TableChange<{ text: string; scan_count: number; source: string; manual_reason: string | null }>) => {
+        if (change.eventType === "DELETE" || change.eventType === "RESYNC") {
+            void loadScannedItems();
+            return;
+        }
+        const normalized = normalizeBarcode(change.row.text);
+        if (!shouldInclude(normalized)) return;
+        setStoredCounts(prev => new Map(prev).set(normalized, change.row.scan_count ?? 1));
+        if (isScanSource(change.row.source)) putOrigin(normalized, change.row.source, change.row.manual_reason);
+    }, [loadScannedItems, shouldInclude, putOrigin]);
+    const scanSync = useTableChanges("mo_scan_items", sessionId ? `session_id=eq.${sessionId}` : null, applyScanChange);
+
+    // Expected codes added or corrected on SEARCH
+    const applyExpectedChange = useCallback((change: TableChange<{ text: string; expected_count: number }>) => {
+        if (change.eventType !== "INSERT") {
+            void loadExpectedCache();
+            return;
+        }
+        const normalized = normalizeBarcode(change.row.text);
+        if (!shouldInclude(normalized) || expectedCacheRef.current.has(normalized)) return;
+        const count = change.row.expected_count ?? 1;
+        expectedCacheRef.current.set(normalized, count);
+        setExpectedList(prev => [...prev, { text: normalized, count }]);
+    }, [loadExpectedCache, shouldInclude]);
+    const expectedSync = useTableChanges("mo_ocr_results", manifestId ? `manifest_id=eq.${manifestId}` : null, applyExpectedChange);
+
+    // Same reconciliation as MATCH and SEARCH; the PDA skips the similarity search
+    const result = useMemo(
+        () => reconcile(expectedList, [...scanCounts].map(([text, count]) => ({ text, count }))),
+        [expectedList, scanCounts],
+    );
+    const { matched, missing, unexpected: unmatched, totals } = result;
 
     // Create unified list with proper ordering:
-    // 1. Unmatched (orange) - always on top
-    // 2. Missing (gray) - not scanned yet
+    // 1. Unmatched (orange) and over-scanned (red) - always on top
+    // 2. Missing (gray) - not scanned yet, or fewer labels than listed
     // 3. Matched (green) - scanned and matched, move to bottom
     const unifiedList = useMemo(() => {
-        const unmatchedItems = unmatched.map(it => ({ text: it.text, status: 'unmatched' as const }));
-        const missingItems = missing.map(text => ({ text, status: 'missing' as const }));
-        const matchedItems = matched.map(it => ({ text: it.text, status: 'matched' as const }));
+        const unmatchedItems = unmatched.map(line => ({ line, status: 'unmatched' as const }));
+        const overItems = matched.filter(line => line.reason === "over_scan").map(line => ({ line, status: 'over' as const }));
+        const missingItems = missing.map(line => ({ line, status: 'missing' as const }));
+        const matchedItems = matched.filter(line => line.reason === "exact").map(line => ({ line, status: 'matched' as const }));
         
-        // Order: Unmatched first, then Missing, then Matched
-        return [...unmatchedItems, ...missingItems, ...matchedItems];
+        // Order: Unmatched first, then Over-scanned, Missing, then Matched
+        return [...unmatchedItems, ...overItems, ...missingItems, ...matchedItems];
     }, [unmatched, missing, matched]);
 
+    // Counts come back from the DB and the outbox after an undo
+    const handleUndone = useCallback((entry: UndoEntry) => {
+        void loadScannedItems();
+        setStatus(`Undone: ${entry.label}`);
+    }, [loadScannedItems]);
+
     // Handle double-click on list items to mark as scanned
-    const handleItemDoubleClick = useCallback(async (text: string, status: 'unmatched' | 'missing' | 'matched') => {
-        // Only process missing items (expected but not scanned) and unmatched items
-        if (status === 'missing' || status === 'unmatched') {
-            await addItem(text); // addItem now saves to DB immediately
-        }
-    }, [addItem]);
+    // These are manual marks, recorded as such so they are not taken for physical scans
+    const handleItemDoubleClick = useCallback(async (text: string, status: 'unmatched' | 'over' | 'missing' | 'matched') => {
+        // Only missing items (expected, not all labels scanned); an unmatched code is already counted
+        if (status === 'missing') await addManual(text);
+    }, [addManual]);
 
     return (
 		<div className="w-full max-w-full mx-auto space-y-3 px-2 sm:px-4">
 			<h1 className="text-xl sm:text-2xl font-semibold">SCAN</h1>
+
+			<SessionBar sessionState={sessionState} />
+			<LocationBar />
+			<SyncIndicator sync={combineSync(scanSync, expectedSync)} />
+			<LoadProgressBar label="Expected" progress={expectedProgress} />
 			
 			{/* Scan Count Cards */}
 			<div className="grid grid-cols-3 gap-2 sm:gap-3">
 				<div className="rounded-lg border-2 border-emerald-400 bg-emerald-50 p-3 sm:p-4 shadow-md">
 					<div className="text-xs sm:text-sm text-emerald-700 font-medium mb-1">Matched</div>
 					<div className="text-2xl sm:text-3xl font-bold text-emerald-800">{matched.length}</div>
+					<div className="text-xs text-emerald-700">{totals.done} of {totals.expected} labels</div>
 				</div>
 				<div className="rounded-lg border-2 border-orange-400 bg-orange-50 p-3 sm:p-4 shadow-md">
 					<div className="text-xs sm:text-sm text-orange-700 font-medium mb-1">Unmatched</div>
@@ -260,20 +382,19 @@ export default function CkdScanPage() {
             <div className="rounded border border-amber-300 bg-amber-50 p-3">
                 <label className="block text-sm text-gray-800 mb-2 font-semibold">바코드 스캔</label>
                 <input
-                    ref={inputRef}
+                    {...scanner.inputProps}
                     type="text"
-                    value={currentCode}
-                    onChange={(e) => setCurrentCode(e.target.value)}
-                    onKeyDown={handleKey}
                     className="w-full rounded border border-amber-400 px-3 py-3 text-lg font-mono text-gray-900 placeholder-gray-500 bg-white focus:bg-amber-100 focus:outline-none focus:ring-2 focus:ring-amber-400"
                     placeholder="바코드를 스캔하세요..."
                     autoComplete="off"
                     autoFocus
                 />
+                <ScannerSettings />
+                <FeedbackSettings />
             </div>
 
-			{/* Status message - only show important messages */}
-			{status && (status.includes("Added") || status.includes("Uploaded") || status.includes("failed") || status.includes("cleared") || status.includes("Loaded")) ? (
+			{/* Status message - scan outcomes and important messages */}
+			{status && (status.includes("Matched") || status.includes("Unmatched") || status.includes("Skipped") || status.includes("Rejected") || status.includes("Location") || status.includes("Added") || status.includes("Uploaded") || status.includes("failed") || status.includes("cleared") || status.includes("Loaded") || status.includes("Over-scanned") || status.includes("Already scanned") || status.includes("Undone") || status.includes("cancelled")) ? (
 				<div className="rounded border bg-white p-2 text-sm text-gray-700">{status}</div>
 			) : null}
 
@@ -292,33 +413,47 @@ export default function CkdScanPage() {
                             bgColor = "bg-orange-50";
                             borderColor = "border-orange-200";
                             textColor = "text-gray-900";
+                        } else if (item.status === 'over') {
+                            bgColor = "bg-red-50";
+                            borderColor = "border-red-300";
+                            textColor = "text-gray-900";
                         } else if (item.status === 'matched') {
                             bgColor = "bg-emerald-50";
                             borderColor = "border-emerald-200";
                             textColor = "text-gray-900";
                         }
+                        const origin = origins.get(item.line.text);
                         
                         return (
                             <li 
-                                key={`${item.text}-${idx}`} 
+                                key={`${item.line.text}-${idx}`} 
                                 className={`rounded border px-3 py-2.5 sm:px-3 sm:py-2 flex items-center justify-between gap-2 ${bgColor} ${textColor} ${borderColor}`}
                             >
-                                <span className="font-mono text-base sm:text-sm flex-1">{item.text}</span>
+                                <span className="font-mono text-base sm:text-sm flex-1">{item.line.text}</span>
+                                {origin && origin.source !== "scanner" && <SourceBadge source={origin.source} reason={origin.reason} />}
+                                {(item.line.expected > 1 || item.line.scanned > 1) && (
+                                    <span className={`text-xs ${item.status === 'over' ? "font-semibold text-red-700" : "text-gray-600"}`}>{describeLine(item.line)}</span>
+                                )}
+                                {unsynced.has(item.line.text) && (
+                                    <span className={`text-xs font-semibold px-2 py-0.5 rounded ${unsynced.get(item.line.text) === "failed" ? "bg-red-100 text-red-700" : "bg-yellow-100 text-yellow-800"}`}>
+                                        {unsynced.get(item.line.text) === "failed" ? "실패" : "대기"}
+                                    </span>
+                                )}
                                 <button
                                     onClick={() => {
-                                        if (item.status === 'missing' || item.status === 'unmatched') {
-                                            handleItemDoubleClick(item.text, item.status);
+                                        if (item.status === 'missing') {
+                                            handleItemDoubleClick(item.line.text, item.status);
                                         }
                                     }}
-                                    disabled={item.status === 'matched'}
+                                    disabled={item.status !== 'missing'}
                                     className={`min-w-[60px] sm:min-w-[50px] px-3 py-2 sm:px-2 sm:py-1.5 text-sm sm:text-xs font-medium rounded touch-manipulation ${
-                                        item.status === 'matched' 
+                                        item.status !== 'missing'
                                             ? 'bg-gray-300 text-gray-500 cursor-not-allowed' 
                                             : 'bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800'
                                     }`}
-                                    title={item.status === 'matched' ? '이미 스캔됨' : '스캔된 것으로 표시'}
+                                    title={item.status === 'missing' ? '스캔된 것으로 표시' : item.status === 'unmatched' ? '예상 목록에 없음' : '이미 스캔됨'}
                                 >
-                                    {item.status === 'matched' ? '완료' : '추가'}
+                                    {item.status === 'matched' ? '완료' : item.status === 'over' ? '초과' : item.status === 'unmatched' ? '목록 외' : '추가'}
                                 </button>
                             </li>
                         );
@@ -328,6 +463,9 @@ export default function CkdScanPage() {
                     )}
                 </ul>
             </div>
+
+			<UndoToast onUndone={handleUndone} />
+			<ScanFlash />
 		</div>
     );
 }
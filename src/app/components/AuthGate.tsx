@@ -0,0 +1,79 @@
+"use client";
+import { useState } from "react";
+import { useOperator } from "../../lib/auth";
+
+// Shows the login form until a registered operator is signed in
+export default function AuthGate({ children }: { children: React.ReactNode }) {
+	const { userId, email, operator, loading, error, signIn, signOut } = useOperator();
+	const [loginEmail, setLoginEmail] = useState<string>("");
+	const [password, setPassword] = useState<string>("");
+	const [busy, setBusy] = useState<boolean>(false);
+	const [message, setMessage] = useState<string>("");
+
+	if (loading) {
+		return <div className="rounded border bg-white p-4 text-center text-gray-600">Loading...</div>;
+	}
+
+	if (userId && operator) return <>{children}</>;
+
+	if (userId) {
+		return (
+			<div className="max-w-sm mx-auto rounded border bg-white p-4 space-y-3">
+				<div className="text-sm text-gray-800">
+					{error || `${email} 계정은 작업자로 등록되어 있지 않습니다. 관리자에게 문의하세요.`}
+				</div>
+				<button
+					onClick={() => { void signOut(); }}
+					className="w-full rounded px-3 py-3 text-sm bg-gray-200 text-gray-800 hover:bg-gray-300 min-h-[44px] touch-manipulation"
+				>
+					로그아웃
+				</button>
+			</div>
+		);
+	}
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setBusy(true);
+		setMessage("");
+		try {
+			await signIn(loginEmail, password);
+			setPassword("");
+		} catch (err) {
+			const msg = err instanceof Error ? err.message : String(err);
+			setMessage(`Login failed: ${msg}`);
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	return (
+		<form onSubmit={handleSubmit} className="max-w-sm mx-auto rounded border bg-white p-4 space-y-3">
+			<h1 className="text-xl font-semibold">작업자 로그인</h1>
+			<input
+				type="email"
+				value={loginEmail}
+				onChange={(e) => setLoginEmail(e.target.value)}
+				placeholder="이메일"
+				autoComplete="username"
+				className="w-full rounded border px-3 py-3 text-base min-h-[44px]"
+			/>
+			<input
+				type="password"
+				value={password}
+				onChange={(e) => setPassword(e.target.value)}
+				placeholder="비밀번호"
+				autoComplete="current-password"
+				className="w-full rounded border px-3 py-3 text-base min-h-[44px]"
+			/>
+			<button
+				type="submit"
+				disabled={busy || !loginEmail.trim() || !password}
+				className="w-full rounded px-3 py-3 text-base font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 min-h-[44px] touch-manipulation"
+			>
+				{busy ? "로그인 중..." : "로그인"}
+			</button>
+			{(message || error) && <div className="text-sm text-red-700">{message || error}</div>}
+		</form>
+	);
+}
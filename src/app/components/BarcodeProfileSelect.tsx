@@ -0,0 +1,30 @@
+"use client";
+import { useBarcodeProfile, type BarcodeSection } from "../../lib/barcodeProfile";
+
+// Per-section barcode format picker shown in the top nav
+export default function BarcodeProfileSelect({ section }: { section: BarcodeSection }) {
+	const { profile, profiles, error, select } = useBarcodeProfile(section);
+
+	if (profiles.length === 0) {
+		return (
+			<span className="text-xs text-gray-500 whitespace-nowrap" title={error || undefined}>
+				형식: {profile.name}
+			</span>
+		);
+	}
+
+	return (
+		<label className="flex items-center gap-2 text-xs sm:text-sm text-gray-600 whitespace-nowrap">
+			형식
+			<select
+				value={profile.id}
+				onChange={(e) => select(e.target.value || null)}
+				className="rounded border px-2 py-2 bg-white text-gray-900 min-h-[44px]"
+			>
+				{profiles.map(p => (
+					<option key={p.id} value={p.id}>{p.name}</option>
+				))}
+			</select>
+		</label>
+	);
+}
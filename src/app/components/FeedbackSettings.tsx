@@ -0,0 +1,66 @@
+"use client";
+import { FEEDBACK_PROFILES, scanFeedback, useFeedbackConfig, type FeedbackProfileId, type ScanOutcome } from "../../lib/scanFeedback";
+
+const OUTCOME_LABEL: Record<ScanOutcome, string> = {
+	matched: "일치",
+	unmatched: "불일치",
+	duplicate: "중복",
+	skipped: "제외",
+};
+
+// Per-device sound/vibration profile, with a preview of each outcome
+export default function FeedbackSettings() {
+	const { config, save } = useFeedbackConfig();
+
+	return (
+		<details className="mt-2 text-xs text-gray-600">
+			<summary className="cursor-pointer select-none py-1">소리/진동 설정</summary>
+			<div className="mt-2 grid grid-cols-2 gap-2">
+				<label className="flex flex-col gap-1">
+					프로필
+					<select
+						value={config.profile}
+						onChange={(e) => save({ ...config, profile: e.target.value as FeedbackProfileId })}
+						className="rounded border px-2 py-2 bg-white text-gray-900"
+					>
+						{(Object.keys(FEEDBACK_PROFILES) as FeedbackProfileId[]).map(id => (
+							<option key={id} value={id}>{FEEDBACK_PROFILES[id].label}</option>
+						))}
+					</select>
+				</label>
+				<label className="flex flex-col gap-1">
+					음량
+					<input
+						type="range"
+						min={0}
+						max={1}
+						step={0.1}
+						value={config.volume}
+						onChange={(e) => save({ ...config, volume: Number(e.target.value) })}
+						className="py-2"
+					/>
+				</label>
+				<label className="col-span-2 flex items-center gap-2">
+					<input
+						type="checkbox"
+						checked={config.flash}
+						onChange={(e) => save({ ...config, flash: e.target.checked })}
+					/>
+					불일치/중복 시 화면 깜빡임
+				</label>
+				<div className="col-span-2 flex flex-wrap gap-2">
+					{(Object.keys(OUTCOME_LABEL) as ScanOutcome[]).map(outcome => (
+						<button
+							key={outcome}
+							type="button"
+							onClick={() => scanFeedback(outcome)}
+							className="rounded border bg-white px-3 py-2 text-gray-800 hover:bg-gray-100 touch-manipulation"
+						>
+							▶ {OUTCOME_LABEL[outcome]}
+						</button>
+					))}
+				</div>
+			</div>
+		</details>
+	);
+}
@@ -0,0 +1,25 @@
+"use client";
+import type { LoadProgress } from "../../lib/pagedFetch";
+
+// Row counter + bar while a paged list is streaming in. Hidden once loading is done (progress = null).
+export default function LoadProgressBar({ label, progress }: { label: string; progress: LoadProgress | null }) {
+	if (!progress) return null;
+	const percent = progress.total ? Math.min(100, Math.round((progress.loaded / progress.total) * 100)) : null;
+
+	return (
+		<div className="rounded border bg-white p-2 text-xs sm:text-sm text-gray-700">
+			<div className="flex justify-between mb-1">
+				<span>{label} 불러오는 중...</span>
+				<span className="font-mono">
+					{progress.loaded}{progress.total !== null ? ` / ${progress.total}` : ""}
+				</span>
+			</div>
+			<div className="h-1.5 w-full rounded bg-gray-200 overflow-hidden">
+				<div
+					className={`h-full bg-blue-500 ${percent === null ? "animate-pulse w-full" : ""}`}
+					style={percent !== null ? { width: `${percent}%` } : undefined}
+				/>
+			</div>
+		</div>
+	);
+}
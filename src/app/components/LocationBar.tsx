@@ -0,0 +1,23 @@
+"use client";
+import { useCurrentLocation } from "../../lib/location";
+
+// Current rack/bin of this device. Scanning a location label (LOC-...) sets it; following
+// scans are recorded there until another label is scanned or it is cleared here.
+export default function LocationBar() {
+	const { location, set } = useCurrentLocation();
+
+	return (
+		<div className={`flex items-center gap-2 rounded border px-3 py-2 text-sm ${location ? "border-teal-300 bg-teal-50 text-teal-900" : "border-gray-200 bg-gray-50 text-gray-600"}`}>
+			<span className="font-medium whitespace-nowrap">위치</span>
+			<span className="flex-1 font-mono truncate">{location ?? "없음 (위치 라벨을 스캔하세요)"}</span>
+			{location && (
+				<button
+					onClick={() => set(null)}
+					className="rounded px-3 py-2 text-xs text-teal-800 hover:bg-teal-100 min-h-[44px] touch-manipulation"
+				>
+					해제
+				</button>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,307 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { normalizeBarcode } from "../../lib/barcode";
+import type { OcrBox, OcrResult } from "../../lib/ocrEngine";
+import type { PackingRow } from "../../lib/packingList";
+
+// One recognized row under review. bbox is in the OCR coordinates of its page (size),
+// so it can be drawn over that page rendered at any scale.
+export type ReviewRow = PackingRow & { id: string; page: number; size: OcrResult["size"] };
+
+// Confidence bands for the overlay and the grid
+function confidenceTone(confidence: number): { stroke: string; badge: string } {
+	if (confidence >= 85) return { stroke: "#059669", badge: "bg-emerald-100 text-emerald-800" };
+	if (confidence >= 60) return { stroke: "#d97706", badge: "bg-amber-100 text-amber-800" };
+	return { stroke: "#e11d48", badge: "bg-rose-100 text-rose-800" };
+}
+
+const MAX_ZOOM = 4;
+
+function unionBox(a: OcrBox, b: OcrBox): OcrBox {
+	return { x0: Math.min(a.x0, b.x0), y0: Math.min(a.y0, b.y0), x1: Math.max(a.x1, b.x1), y1: Math.max(a.y1, b.y1) };
+}
+
+// CSS transform that centers the box in the view, scaled so it fills about half of it.
+// Translation is clamped so the page never leaves a gap at the edges.
+function zoomTransform(box: OcrBox, size: { width: number; height: number }): string {
+	const w = (box.x1 - box.x0) / size.width;
+	const h = (box.y1 - box.y0) / size.height;
+	const scale = Math.min(MAX_ZOOM, Math.max(1, 0.5 / Math.max(w, h, 0.01)));
+	const clamp = (t: number) => Math.min(0, Math.max(1 / scale - 1, t));
+	const tx = clamp(0.5 / scale - (box.x0 + box.x1) / 2 / size.width);
+	const ty = clamp(0.5 / scale - (box.y0 + box.y1) / 2 / size.height);
+	return `scale(${scale}) translate(${tx * 100}%, ${ty * 100}%)`;
+}
+
+// Review of OCR rows before upload: the page with every row's box colored by confidence,
+// next to an editable grid. Edits, splits, merges and deletes are reported through
+// onChange; the parent decides what gets uploaded. repairs() offers fixes for the
+// selected row's code when it fails the check digit.
+export default function OcrReviewGrid({
+	rows,
+	pageImage,
+	isCode,
+	repairs,
+	onChange,
+}: {
+	rows: ReviewRow[];
+	pageImage: (page: number) => Promise<string | null>;
+	isCode: (text: string) => boolean;
+	repairs: (text: string) => string[];
+	onChange: (rows: ReviewRow[]) => void;
+}) {
+	const pages = [...new Set(rows.map(r => r.page))].sort((a, b) => a - b);
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+	const [checked, setChecked] = useState<Set<string>>(new Set());
+	const [currentPage, setCurrentPage] = useState<number | null>(null);
+	const [images, setImages] = useState<Map<number, string | null>>(new Map());
+	const caretRef = useRef<Map<string, number>>(new Map()); // Last cursor position per row, for split
+	const nextIdRef = useRef(0);
+
+	const selected = rows.find(r => r.id === selectedId) ?? null;
+	const page = selected?.page ?? (currentPage !== null && pages.includes(currentPage) ? currentPage : pages[0] ?? null);
+	const pageRows = rows.filter(r => r.page === page);
+	const size = pageRows.find(r => r.size)?.size ?? null;
+	const image = page !== null ? images.get(page) : undefined;
+
+	// Render pages only when they are looked at
+	useEffect(() => {
+		if (page === null || images.has(page)) return;
+		let cancelled = false;
+		pageImage(page).then(
+			url => { if (!cancelled) setImages(prev => new Map(prev).set(page, url)); },
+			() => { if (!cancelled) setImages(prev => new Map(prev).set(page, null)); },
+		);
+		return () => {
+			cancelled = true;
+		};
+	}, [page, images, pageImage]);
+
+	const newId = (base: string) => `${base}.${++nextIdRef.current}`;
+
+	const update = (id: string, patch: Partial<ReviewRow>) => {
+		onChange(rows.map(r => (r.id === id ? { ...r, ...patch } : r)));
+	};
+
+	const remove = (ids: Set<string>) => {
+		onChange(rows.filter(r => !ids.has(r.id)));
+		setChecked(new Set());
+		if (selectedId && ids.has(selectedId)) setSelectedId(null);
+	};
+
+	// Split at the cursor when it sits inside the text, otherwise at whitespace
+	const split = (row: ReviewRow) => {
+		const caret = caretRef.current.get(row.id) ?? 0;
+		const parts = caret > 0 && caret < row.text.length
+			? [row.text.slice(0, caret), row.text.slice(caret)]
+			: row.text.split(/\s+/);
+		const pieces = parts.map(p => p.trim()).filter(Boolean);
+		if (pieces.length < 2) return;
+		const replacement = pieces.map((text, i) => ({ ...row, id: i === 0 ? row.id : newId(row.id), text }));
+		onChange(rows.flatMap(r => (r.id === row.id ? replacement : [r])));
+	};
+
+	// Merge checked rows into the first one: OCR often breaks a code over two lines
+	const merge = () => {
+		const group = rows.filter(r => checked.has(r.id));
+		if (group.length < 2) return;
+		const [first, ...rest] = group;
+		const merged: ReviewRow = {
+			...first,
+			text: group.map(r => r.text).join(""),
+			confidence: Math.min(...group.map(r => r.confidence)),
+			case_no: first.case_no ?? rest.find(r => r.case_no)?.case_no ?? null,
+			part_no: first.part_no ?? rest.find(r => r.part_no)?.part_no ?? null,
+			quantity: first.quantity ?? rest.find(r => r.quantity !== null)?.quantity ?? null,
+			weight: first.weight ?? rest.find(r => r.weight !== null)?.weight ?? null,
+			bbox: group.reduce<OcrBox | null>((box, r) => {
+				if (!r.bbox || r.page !== first.page) return box;
+				return box ? unionBox(box, r.bbox) : r.bbox;
+			}, null),
+		};
+		const drop = new Set(rest.map(r => r.id));
+		onChange(rows.filter(r => !drop.has(r.id)).map(r => (r.id === first.id ? merged : r)));
+		setChecked(new Set());
+		setSelectedId(first.id);
+	};
+
+	const toggleChecked = (id: string) => {
+		setChecked(prev => {
+			const next = new Set(prev);
+			if (next.has(id)) next.delete(id);
+			else next.add(id);
+			return next;
+		});
+	};
+
+	const parseQuantity = (value: string) => {
+		const n = parseInt(value, 10);
+		return Number.isFinite(n) && n >= 0 ? n : null;
+	};
+
+	return (
+		<div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+			<div className="rounded border bg-white p-4 space-y-2">
+				<div className="flex items-center justify-between gap-2">
+					<h2 className="font-medium">Page</h2>
+					<div className="flex items-center gap-2 text-sm">
+						<select
+							value={page ?? ""}
+							onChange={(e) => { setSelectedId(null); setCurrentPage(Number(e.target.value)); }}
+							className="rounded border px-2 py-1 bg-white"
+						>
+							{pages.map(p => <option key={p} value={p}>페이지 {p}</option>)}
+						</select>
+						{selected && (
+							<button className="rounded border px-2 py-1 hover:bg-gray-50" onClick={() => setSelectedId(null)}>Zoom out</button>
+						)}
+					</div>
+				</div>
+				<div className="flex gap-3 text-xs text-gray-600">
+					<span className="text-emerald-700">■ 85+</span>
+					<span className="text-amber-700">■ 60-84</span>
+					<span className="text-rose-700">■ &lt;60</span>
+				</div>
+				<div className="relative overflow-hidden rounded border bg-gray-50">
+					{image ? (
+						<div
+							className="relative origin-top-left transition-transform duration-300"
+							style={selected?.bbox && size ? { transform: zoomTransform(selected.bbox, size) } : undefined}
+						>
+							{/* eslint-disable-next-line @next/next/no-img-element */}
+							<img src={image} alt={`page ${page}`} className="block w-full" />
+							{size && (
+								<svg
+									className="absolute inset-0 h-full w-full"
+									viewBox={`0 0 ${size.width} ${size.height}`}
+									preserveAspectRatio="none"
+								>
+									{pageRows.filter(r => r.bbox).map(r => {
+										const box = r.bbox as OcrBox;
+										return (
+											<rect
+												key={r.id}
+												x={box.x0}
+												y={box.y0}
+												width={box.x1 - box.x0}
+												height={box.y1 - box.y0}
+												fill={r.id === selectedId ? "rgba(59,130,246,0.2)" : "transparent"}
+												stroke={confidenceTone(r.confidence).stroke}
+												strokeWidth={r.id === selectedId ? 3 : 1.5}
+												vectorEffect="non-scaling-stroke"
+												className="cursor-pointer"
+												onClick={() => setSelectedId(r.id)}
+											/>
+										);
+									})}
+								</svg>
+							)}
+						</div>
+					) : (
+						<p className="p-4 text-sm text-gray-500">{image === null ? "페이지 이미지를 불러오지 못했습니다." : "페이지 불러오는 중..."}</p>
+					)}
+				</div>
+			</div>
+
+			<div className="rounded border bg-white p-4 space-y-2">
+				<div className="flex flex-wrap items-center justify-between gap-2">
+					<h2 className="font-medium">Review ({rows.length})</h2>
+					<div className="flex gap-2 text-sm">
+						<button
+							onClick={merge}
+							disabled={checked.size < 2}
+							className="rounded border px-2 py-1 hover:bg-gray-50 disabled:opacity-50"
+						>
+							Merge ({checked.size})
+						</button>
+						<button
+							onClick={() => remove(checked)}
+							disabled={checked.size === 0}
+							className="rounded border border-red-200 px-2 py-1 text-red-700 hover:bg-red-50 disabled:opacity-50"
+						>
+							Delete ({checked.size})
+						</button>
+					</div>
+				</div>
+				<div className="max-h-[560px] overflow-auto">
+					<table className="w-full text-sm">
+						<thead className="sticky top-0 bg-white text-left text-xs text-gray-500">
+							<tr>
+								<th className="p-1"></th>
+								<th className="p-1">P</th>
+								<th className="p-1">Code</th>
+								<th className="p-1">Conf</th>
+								<th className="p-1">Case</th>
+								<th className="p-1">Part</th>
+								<th className="p-1">Qty</th>
+								<th className="p-1"></th>
+							</tr>
+						</thead>
+						<tbody>
+							{rows.map(r => {
+								const valid = isCode(normalizeBarcode(r.text));
+								// Only for the selected row: each candidate costs a full validation pass
+								const fixes = !valid && r.id === selectedId ? repairs(normalizeBarcode(r.text)) : [];
+								return (
+									<tr
+										key={r.id}
+										onClick={() => setSelectedId(r.id)}
+										className={`border-t ${r.id === selectedId ? "bg-blue-50" : ""}`}
+									>
+										<td className="p-1">
+											<input type="checkbox" checked={checked.has(r.id)} onChange={() => toggleChecked(r.id)} onClick={(e) => e.stopPropagation()} />
+										</td>
+										<td className="p-1 text-xs text-gray-500">{r.page}</td>
+										<td className="p-1">
+											<input
+												value={r.text}
+												onChange={(e) => update(r.id, { text: e.target.value })}
+												onSelect={(e) => caretRef.current.set(r.id, e.currentTarget.selectionStart ?? 0)}
+												title={valid ? undefined : "형식 불일치 - 업로드 시 제외될 수 있음"}
+												className={`w-40 rounded border px-1 py-0.5 font-mono ${valid ? "" : "border-rose-400 text-rose-700"}`}
+											/>
+											{fixes.length > 0 && (
+												<div className="mt-1 flex flex-wrap gap-1" title="검증번호가 맞는 한 글자 수정 후보 (OCR 혼동 가능성 순)">
+													{fixes.map(code => (
+														<button
+															key={code}
+															onClick={(e) => { e.stopPropagation(); update(r.id, { text: code }); }}
+															className="rounded border border-rose-300 px-1 text-xs font-mono hover:bg-rose-50"
+														>
+															{code}
+														</button>
+													))}
+												</div>
+											)}
+										</td>
+										<td className="p-1">
+											<span className={`rounded px-1.5 py-0.5 text-xs ${confidenceTone(r.confidence).badge}`}>{Math.round(r.confidence)}</span>
+										</td>
+										<td className="p-1">
+											<input value={r.case_no ?? ""} onChange={(e) => update(r.id, { case_no: e.target.value || null })} className="w-16 rounded border px-1 py-0.5" />
+										</td>
+										<td className="p-1">
+											<input value={r.part_no ?? ""} onChange={(e) => update(r.id, { part_no: e.target.value || null })} className="w-24 rounded border px-1 py-0.5" />
+										</td>
+										<td className="p-1">
+											<input
+												value={r.quantity ?? ""}
+												inputMode="numeric"
+												onChange={(e) => update(r.id, { quantity: parseQuantity(e.target.value) })}
+												className="w-14 rounded border px-1 py-0.5"
+											/>
+										</td>
+										<td className="p-1 whitespace-nowrap text-xs">
+											<button className="text-gray-700 hover:underline" onClick={(e) => { e.stopPropagation(); split(r); }}>Split</button>
+											<button className="ml-2 text-red-700 hover:underline" onClick={(e) => { e.stopPropagation(); remove(new Set([r.id])); }}>Delete</button>
+										</td>
+									</tr>
+								);
+							})}
+						</tbody>
+					</table>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,26 @@
+"use client";
+import { useOperator } from "../../lib/auth";
+
+// Signed-in operator and logout button for the top nav
+export default function OperatorBadge() {
+	const { operator, signOut } = useOperator();
+
+	if (!operator) return null;
+
+	return (
+		<div className="flex items-center gap-2 text-xs sm:text-sm whitespace-nowrap">
+			<span className="text-gray-700">
+				<span className="font-semibold">{operator.name}</span> ({operator.role})
+			</span>
+			<button
+				onClick={() => {
+					if (!confirm("로그아웃할까요?")) return;
+					void signOut();
+				}}
+				className="rounded px-2 py-2 bg-gray-200 text-gray-800 hover:bg-gray-300 min-h-[44px] touch-manipulation"
+			>
+				로그아웃
+			</button>
+		</div>
+	);
+}
@@ -0,0 +1,37 @@
+"use client";
+import { discardFailed, retryFailed, useOutbox } from "../../lib/scanOutbox";
+
+// Pending/failed counter for scans queued offline. Hidden when everything is synced.
+export default function OutboxStatus() {
+	const { pending, failed } = useOutbox();
+
+	if (pending === 0 && failed === 0) return null;
+
+	return (
+		<div className="flex items-center gap-2 text-xs sm:text-sm whitespace-nowrap">
+			{pending > 0 && (
+				<span className="rounded bg-yellow-100 px-2 py-1 font-semibold text-yellow-800">대기 {pending}</span>
+			)}
+			{failed > 0 && (
+				<>
+					<span className="rounded bg-red-100 px-2 py-1 font-semibold text-red-700">실패 {failed}</span>
+					<button
+						onClick={() => { void retryFailed(); }}
+						className="rounded px-2 py-2 bg-gray-200 text-gray-800 hover:bg-gray-300 min-h-[44px] touch-manipulation"
+					>
+						재시도
+					</button>
+					<button
+						onClick={() => {
+							if (!confirm(`저장에 실패한 ${failed}개 항목을 삭제할까요?`)) return;
+							void discardFailed();
+						}}
+						className="rounded px-2 py-2 bg-red-600 text-white hover:bg-red-700 min-h-[44px] touch-manipulation"
+					>
+						삭제
+					</button>
+				</>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,14 @@
+"use client";
+import { useScanFlash, type ScanOutcome } from "../../lib/scanFeedback";
+
+const FLASH_CLASS: Partial<Record<ScanOutcome, string>> = {
+	unmatched: "bg-red-600/60",
+	duplicate: "bg-amber-400/60",
+};
+
+// Full-screen color flash on unmatched and duplicate scans; never blocks taps
+export default function ScanFlash() {
+	const outcome = useScanFlash();
+	if (!outcome || !FLASH_CLASS[outcome]) return null;
+	return <div aria-hidden className={`pointer-events-none fixed inset-0 z-50 ${FLASH_CLASS[outcome]}`} />;
+}
@@ -0,0 +1,55 @@
+"use client";
+import { DEFAULT_SCANNER_CONFIG, useScannerConfig, type ScannerConfig } from "../../lib/scannerInput";
+
+// Per-device scanner framing and burst timing, folded under the barcode input
+export default function ScannerSettings() {
+	const { config, save } = useScannerConfig();
+	const update = (change: Partial<ScannerConfig>) => save({ ...config, ...change });
+
+	return (
+		<details className="mt-2 text-xs text-gray-600">
+			<summary className="cursor-pointer select-none py-1">스캐너 설정</summary>
+			<div className="mt-2 grid grid-cols-2 gap-2">
+				<label className="flex flex-col gap-1">
+					접두어 (prefix)
+					<input
+						value={config.prefix}
+						onChange={(e) => update({ prefix: e.target.value })}
+						className="rounded border px-2 py-2 bg-white font-mono text-gray-900"
+						placeholder="예: \x02"
+						autoComplete="off"
+					/>
+				</label>
+				<label className="flex flex-col gap-1">
+					접미어 (suffix)
+					<input
+						value={config.suffix}
+						onChange={(e) => update({ suffix: e.target.value })}
+						className="rounded border px-2 py-2 bg-white font-mono text-gray-900"
+						placeholder="Enter/Tab은 자동"
+						autoComplete="off"
+					/>
+				</label>
+				<label className="flex flex-col gap-1">
+					키 간격 (ms)
+					<input
+						type="number"
+						min={5}
+						max={200}
+						value={config.maxGapMs}
+						onChange={(e) => update({ maxGapMs: Number(e.target.value) || DEFAULT_SCANNER_CONFIG.maxGapMs })}
+						className="rounded border px-2 py-2 bg-white text-gray-900"
+					/>
+				</label>
+				<label className="flex items-center gap-2 pt-5">
+					<input
+						type="checkbox"
+						checked={config.stripAim}
+						onChange={(e) => update({ stripAim: e.target.checked })}
+					/>
+					AIM 식별자 제거 (]C1 등)
+				</label>
+			</div>
+		</details>
+	);
+}
@@ -0,0 +1,14 @@
+"use client";
+import { useEffect } from "react";
+
+// Registers public/sw.js. Skipped in development so stale caches never hide code changes.
+export default function ServiceWorkerRegister() {
+	useEffect(() => {
+		if (process.env.NODE_ENV !== "production") return;
+		if (!("serviceWorker" in navigator)) return;
+		navigator.serviceWorker.register("/sw.js").catch((e) => {
+			console.error("Service worker registration failed:", e);
+		});
+	}, []);
+	return null;
+}
@@ -0,0 +1,139 @@
+"use client";
+import { useEffect, useState } from "react";
+import { defaultSessionName, useActiveSession } from "../../lib/scanSession";
+import { manifestLabel, useManifests } from "../../lib/manifest";
+
+type Props = {
+	sessionState: ReturnType<typeof useActiveSession>;
+	// compact: only show/switch the active session (SEARCH, CAMERA)
+	compact?: boolean;
+};
+
+export default function SessionBar({ sessionState, compact = false }: Props) {
+	const { session, sessions, loading, error, start, rename, close, select } = sessionState;
+	const [nameInput, setNameInput] = useState<string>("");
+	const [busy, setBusy] = useState<boolean>(false);
+	const [message, setMessage] = useState<string>("");
+	const { manifests } = useManifests();
+	const [manifestId, setManifestId] = useState<string | null>(null);
+	const openSessions = sessions.filter(s => !s.closed_at);
+	const sessionManifest = manifests.find(m => m.id === session?.manifest_id);
+	// New sessions default to the most recent upload
+	const selectedManifestId = manifestId ?? manifests[0]?.id ?? "";
+
+	useEffect(() => {
+		setNameInput(session?.name ?? "");
+	}, [session?.id, session?.name]);
+
+	const run = async (fn: () => Promise<unknown>) => {
+		setBusy(true);
+		setMessage("");
+		try {
+			await fn();
+		} catch (e) {
+			const msg = e instanceof Error ? e.message : String(e);
+			setMessage(`Session failed: ${msg}`);
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const sessionSelect = (
+		<select
+			value={session?.id ?? ""}
+			onChange={(e) => select(e.target.value || null)}
+			disabled={busy || loading}
+			className="rounded border px-2 py-2 text-sm bg-white min-h-[44px]"
+		>
+			<option value="">세션 선택...</option>
+			{openSessions.map(s => (
+				<option key={s.id} value={s.id}>{s.name || s.id.slice(0, 8)}</option>
+			))}
+		</select>
+	);
+
+	if (compact) {
+		return (
+			<div className={`rounded border p-2 text-sm flex flex-wrap items-center gap-2 ${session ? "border-sky-300 bg-sky-50" : "border-red-300 bg-red-50"}`}>
+				<span className="font-semibold text-gray-800">세션:</span>
+				{session ? (
+					<>
+						<span className="font-mono text-gray-900">{session.name || session.id.slice(0, 8)}</span>
+						<span className="text-gray-600">/ 목록: {sessionManifest ? manifestLabel(sessionManifest) : "없음"}</span>
+					</>
+				) : (
+					<span className="text-red-700">활성 세션 없음 - SCAN 페이지에서 세션을 시작하세요</span>
+				)}
+				{openSessions.length > 0 && sessionSelect}
+				{(error || message) && <span className="text-red-700">{error || message}</span>}
+			</div>
+		);
+	}
+
+	return (
+		<div className={`rounded border p-3 space-y-2 ${session ? "border-sky-300 bg-sky-50" : "border-red-300 bg-red-50"}`}>
+			<div className="flex items-center justify-between gap-2">
+				<span className="text-sm font-semibold text-gray-800">
+					{session ? "스캔 세션" : "활성 세션 없음"}
+				</span>
+				{session && (
+					<span className="text-xs text-gray-600">
+						목록: {sessionManifest ? manifestLabel(sessionManifest) : "없음"} · 시작: {new Date(session.created_at).toLocaleString("ko-KR")}
+					</span>
+				)}
+			</div>
+			<div className="flex flex-wrap items-center gap-2">
+				<input
+					value={nameInput}
+					onChange={(e) => setNameInput(e.target.value)}
+					placeholder={defaultSessionName()}
+					className="flex-1 min-w-[160px] rounded border px-3 py-2 text-sm bg-white min-h-[44px]"
+				/>
+				{session ? (
+					<>
+						<button
+							onClick={() => run(() => rename(session.id, nameInput))}
+							disabled={busy || !nameInput.trim() || nameInput.trim() === session.name}
+							className="rounded px-3 py-2 text-sm bg-gray-200 text-gray-800 hover:bg-gray-300 disabled:opacity-50 touch-manipulation min-h-[44px]"
+						>
+							이름 변경
+						</button>
+						<button
+							onClick={() => {
+								if (!confirm(`세션 "${session.name || session.id.slice(0, 8)}"을(를) 종료할까요?`)) return;
+								void run(() => close(session.id));
+							}}
+							disabled={busy}
+							className="rounded px-3 py-2 text-sm bg-red-600 text-white hover:bg-red-700 disabled:opacity-50 touch-manipulation min-h-[44px]"
+						>
+							세션 종료
+						</button>
+					</>
+				) : (
+					<>
+						<select
+							value={selectedManifestId}
+							onChange={(e) => setManifestId(e.target.value)}
+							disabled={busy}
+							className="rounded border px-2 py-2 text-sm bg-white min-h-[44px]"
+						>
+							<option value="">예상 목록 없음</option>
+							{manifests.map(m => (
+								<option key={m.id} value={m.id}>{manifestLabel(m)}</option>
+							))}
+						</select>
+						<button
+							onClick={() => run(() => start(nameInput, selectedManifestId || null))}
+							disabled={busy || loading}
+							className="rounded px-3 py-2 text-sm bg-sky-600 text-white hover:bg-sky-700 disabled:opacity-50 touch-manipulation min-h-[44px]"
+						>
+							세션 시작
+						</button>
+					</>
+				)}
+				{openSessions.length > 0 && sessionSelect}
+			</div>
+			{(error || message) && <div className="text-sm text-red-700">{error || message}</div>}
+		</div>
+	);
+}
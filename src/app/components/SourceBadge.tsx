@@ -0,0 +1,22 @@
+"use client";
+import { SOURCE_LABEL, type ScanSource } from "../../lib/scanSource";
+
+const SOURCE_CLASS: Record<ScanSource, string> = {
+	scanner: "bg-gray-100 text-gray-700",
+	camera_decode: "bg-sky-100 text-sky-800",
+	camera_ocr: "bg-indigo-100 text-indigo-800",
+	manual: "bg-fuchsia-100 text-fuchsia-800",
+	similarity: "bg-yellow-100 text-yellow-800",
+};
+
+// How a scan item was recorded; a manual add shows its reason on hover
+export default function SourceBadge({ source, reason }: { source: ScanSource; reason?: string | null }) {
+	return (
+		<span
+			className={`text-xs font-semibold px-2 py-0.5 rounded whitespace-nowrap ${SOURCE_CLASS[source]}`}
+			title={reason ? `${SOURCE_LABEL[source]}: ${reason}` : SOURCE_LABEL[source]}
+		>
+			{SOURCE_LABEL[source]}
+		</span>
+	);
+}
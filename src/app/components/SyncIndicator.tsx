@@ -0,0 +1,15 @@
+"use client";
+import type { SyncState } from "../../lib/realtime";
+
+// Small live/offline dot with the time of the last change received from other devices
+export default function SyncIndicator({ sync }: { sync: SyncState }) {
+	const time = sync.lastSyncedAt?.toLocaleTimeString("ko-KR", { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+	return (
+		<div className="flex items-center gap-1.5 text-xs text-gray-600 whitespace-nowrap" title={sync.connected ? "실시간 동기화 중" : "실시간 연결 끊김 - 새로고침 필요"}>
+			<span className={`inline-block h-2 w-2 rounded-full ${sync.connected ? "bg-emerald-500" : "bg-gray-400"}`} />
+			{sync.connected ? "실시간" : "연결 끊김"}
+			{time && <span className="font-mono">· {time}</span>}
+		</div>
+	);
+}
@@ -1,6 +1,9 @@
 "use client";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
+import BarcodeProfileSelect from "./BarcodeProfileSelect";
+import OutboxStatus from "./OutboxStatus";
+import OperatorBadge from "./OperatorBadge";
 
 const ckdNav = [
 	{ href: "/ckd/ocr", label: "OCR" },
@@ -13,6 +16,8 @@ const ckdNav = [
 const inventoryNav = [
 	{ href: "/inventory/receive", label: "LQ2" },
 	{ href: "/ckd/scan", label: "CKD" },
+	{ href: "/locations", label: "LOCATION" },
+	{ href: "/audit", label: "AUDIT" },
 ];
 
 const lq2Nav = [
@@ -36,7 +41,7 @@ export default function TopNav() {
 					<div className="h-8 w-px bg-gray-300 flex-shrink-0"></div>
 					{/* 재고관리 메뉴 */}
 					{inventoryNav.map(({ href, label }) => {
-						const active = label === "LQ2" ? isInventoryPath : isCkdPath;
+						const active = label === "LQ2" ? isInventoryPath : label === "CKD" ? isCkdPath : pathname?.startsWith(href);
 						return (
 							<Link
 								key={href}
@@ -52,6 +57,10 @@ export default function TopNav() {
 						);
 					})}
 				</div>
+				<div className="ml-auto pl-2 flex items-center gap-3 flex-shrink-0">
+					<OutboxStatus />
+					<OperatorBadge />
+				</div>
 			</div>
 			
 			{/* 두 번째 행: RECEIVE, DISPOSE, INVENTORY REPORT (LQ2 경로일 때만 표시) */}
@@ -75,6 +84,9 @@ export default function TopNav() {
 							);
 						})}
 					</div>
+					<div className="ml-auto pl-2 flex-shrink-0">
+						<BarcodeProfileSelect section="lq2" />
+					</div>
 				</div>
 			)}
 			
@@ -99,6 +111,9 @@ export default function TopNav() {
 							);
 						})}
 					</div>
+					<div className="ml-auto pl-2 flex-shrink-0">
+						<BarcodeProfileSelect section="ckd" />
+					</div>
 				</div>
 			)}
 		</nav>
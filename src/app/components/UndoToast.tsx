@@ -0,0 +1,86 @@
+"use client";
+import { useEffect, useState } from "react";
+import { useUndoStack, type UndoEntry } from "../../lib/undoStack";
+
+// How long the toast stays up after a write; afterwards a small button keeps the history reachable
+const TOAST_MS = 10000;
+
+// Undo toast for the PDA pages. Shows the newest write from this device with a large
+// undo button; undoing steps back through the history one operation at a time.
+// onUndone lets the page reload the rows that were put back.
+export default function UndoToast({ onUndone }: { onUndone?: (entry: UndoEntry) => void }) {
+	const { entries, latest, undo } = useUndoStack();
+	const [openedAt] = useState(() => Date.now());
+	const [dismissedId, setDismissedId] = useState<string | null>(null);
+	const [busy, setBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	// Writes made before the page was opened only get the small button
+	const visible = latest !== null && latest.id !== dismissedId && Date.parse(latest.created_at) >= openedAt;
+
+	useEffect(() => {
+		if (!visible || !latest) return;
+		const id = latest.id;
+		const timer = setTimeout(() => setDismissedId(id), TOAST_MS);
+		return () => clearTimeout(timer);
+	}, [visible, latest]);
+
+	const handleUndo = async () => {
+		setBusy(true);
+		setError(null);
+		try {
+			const entry = await undo();
+			if (entry) onUndone?.(entry);
+		} catch (e) {
+			setError(e instanceof Error ? e.message : String(e));
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	if (!latest) return null;
+
+	// A failed undo from the small button opens the toast to show why
+	if (!visible && !error) {
+		return (
+			<button
+				onClick={() => {
+					if (confirm(`되돌릴까요?\n${latest.label}`)) void handleUndo();
+				}}
+				disabled={busy}
+				className="fixed bottom-4 right-4 z-40 rounded-full bg-gray-800 px-4 py-3 text-sm font-semibold text-white shadow-lg min-h-[44px] touch-manipulation disabled:opacity-50"
+				title={latest.label}
+			>
+				↶ 되돌리기 ({entries.length})
+			</button>
+		);
+	}
+
+	return (
+		<div className="fixed inset-x-2 bottom-4 z-40 mx-auto max-w-md rounded-lg bg-gray-900 p-3 text-white shadow-xl sm:inset-x-auto sm:right-4">
+			<div className="flex items-center gap-3">
+				<div className="flex-1 min-w-0">
+					<div className="truncate text-sm font-medium">{latest.label}</div>
+					{error && <div className="text-xs text-red-300">되돌리기 실패: {error}</div>}
+				</div>
+				<button
+					onClick={() => { void handleUndo(); }}
+					disabled={busy}
+					className="rounded bg-amber-500 px-4 py-3 text-base font-bold text-gray-900 hover:bg-amber-400 active:bg-amber-600 min-h-[44px] touch-manipulation disabled:opacity-50"
+				>
+					{busy ? "..." : "되돌리기"}
+				</button>
+				<button
+					onClick={() => {
+						setDismissedId(latest.id);
+						setError(null);
+					}}
+					className="rounded px-2 py-3 text-sm text-gray-300 hover:text-white min-h-[44px] touch-manipulation"
+					aria-label="닫기"
+				>
+					✕
+				</button>
+			</div>
+		</div>
+	);
+}
@@ -1,7 +1,15 @@
 "use client";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { supabase } from "../../../lib/supabaseClient";
-import { normalizeBarcode } from "../../../lib/barcode";
+import { postApi, type DisposeResult } from "../../../lib/api";
+import { barcodeIssue, matchesPrefix, parsePrefixList } from "../../../lib/barcode";
+import { useBarcodeProfile } from "../../../lib/barcodeProfile";
+import { readScan } from "../../../lib/labelData";
+import { useScannerInput, type ScanEvent } from "../../../lib/scannerInput";
+import { hasRole, roleRequiredMessage, useOperator } from "../../../lib/auth";
+import { useTableChanges, type TableChange } from "../../../lib/realtime";
+import SyncIndicator from "../../components/SyncIndicator";
+import ScannerSettings from "../../components/ScannerSettings";
 import Link from "next/link";
 
 type DisposedItem = {
@@ -11,133 +19,81 @@ type DisposedItem = {
 };
 
 export default function DisposePage() {
-	const [prefixText] = useState<string>("1M,2M");
+	const { profile, spec } = useBarcodeProfile("lq2");
+	const prefixText = spec.prefixes.join(",");
 	const [disposedItems, setDisposedItems] = useState<DisposedItem[]>([]);
 	const [todayCount, setTodayCount] = useState<number>(0);
 	const [status, setStatus] = useState<string>("");
-	const inputRef = useRef<HTMLInputElement | null>(null);
-	const [currentCode, setCurrentCode] = useState<string>("");
-	const [autoSubmit] = useState<boolean>(true);
-	const [submitDelayMs] = useState<number>(200);
-	const submitTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 	const seenRef = useRef<Set<string>>(new Set());
+	const { operator } = useOperator();
+	// Disposal is limited to supervisors (enforced by RLS)
+	const canDispose = hasRole(operator, "supervisor");
 
-	const allowedPrefixes = useCallback(() =>
-		prefixText.split(",").map(p => p.trim()).filter(Boolean), [prefixText]);
+	const allowedPrefixes = useMemo(() => parsePrefixList(prefixText), [prefixText]);
 
-	const shouldInclude = useCallback((text: string) => {
-		const p = allowedPrefixes();
-		if (p.length === 0) return true;
-		return p.some(pref => text.startsWith(pref));
-	}, [allowedPrefixes]);
+	const shouldInclude = useCallback((text: string) => matchesPrefix(text, allowedPrefixes), [allowedPrefixes]);
 
-	const addItem = useCallback(async (text: string) => {
+	const addItem = useCallback(async (text: string, symbology: string | null = null) => {
 		if (!text || text.trim().length === 0) return;
-		const normalized = normalizeBarcode(text);
+		// Structured labels carry the code in the profile's label field
+		const scan = readScan(text, spec.labelField, symbology);
+		const normalized = scan.code;
+		if (scan.label && !normalized) {
+			setStatus(`Skipped: label has no ${spec.labelField} field`);
+			return;
+		}
 		if (!normalized || normalized.length === 0) return;
+		if (!canDispose) {
+			setStatus(roleRequiredMessage("supervisor"));
+			return;
+		}
 		if (!shouldInclude(normalized)) {
 			setStatus(`Skipped: ${normalized} (prefix mismatch)`);
 			return;
 		}
+		// A wrong check digit is a misread label, not an unmatched item
+		if (barcodeIssue(normalized, spec) === "check") {
+			setStatus(`Rejected: ${normalized} (check digit mismatch)`);
+			return;
+		}
 		if (seenRef.current.has(normalized)) {
 			setStatus(`Already disposed: ${normalized}`);
 			return;
 		}
 
 		try {
-			// Check if item exists and is not already disposed
-			const { data: existing, error: checkError } = await supabase
-				.from("mo_lq2_inventory")
-				.select("id, disposed_at, received_at")
-				.eq("barcode", normalized)
-				.is("disposed_at", null)
-				.single();
-
-			if (checkError || !existing) {
-				setStatus(`Not received or already disposed: ${normalized}`);
-				return;
-			}
-
-			// Update inventory record with disposed_at
-			const { data, error } = await supabase
-				.from("mo_lq2_inventory")
-				.update({
-					disposed_at: new Date().toISOString(),
-				})
-				.eq("id", existing.id)
-				.select()
-				.single();
-
-			if (error) {
-				throw error;
-			}
-
-			// Update UI
-			const newItem = {
+			// The dispose route refuses barcodes that were never received or are already disposed
+			const data = await postApi<DisposeResult>("/api/inventory/dispose", {
 				barcode: normalized,
-				disposed_at: data.disposed_at,
-				received_at: existing.received_at,
-			};
-			setDisposedItems(prev => [newItem, ...prev]);
-			
-			// Update today count if disposed today
-			const disposedDate = new Date(data.disposed_at);
-			const today = new Date();
-			if (disposedDate.toDateString() === today.toDateString()) {
-				setTodayCount(prev => prev + 1);
+				profile_id: profile.id,
+			});
+
+			// Update UI, unless the realtime echo of this update already listed it
+			if (!seenRef.current.has(normalized)) {
+				seenRef.current.add(normalized);
+				setDisposedItems(prev => [data, ...prev]);
+				
+				// Update today count if disposed today
+				const disposedDate = new Date(data.disposed_at);
+				const today = new Date();
+				if (disposedDate.toDateString() === today.toDateString()) {
+					setTodayCount(prev => prev + 1);
+				}
 			}
 			
-			seenRef.current.add(normalized);
 			setStatus(`Disposed: ${normalized}`);
 		} catch (e) {
 			const msg = e instanceof Error ? e.message : String(e);
 			setStatus(`Dispose failed: ${msg}`);
 			console.error("Dispose failed", e);
 		}
-	}, [shouldInclude]);
+	}, [shouldInclude, canDispose, profile.id, spec]);
 
-	// Auto focus barcode input
-	useEffect(() => {
-		const focusBarcode = () => {
-			inputRef.current?.focus();
-		};
-		setTimeout(focusBarcode, 100);
-		const onFocus = () => {
-			if (document.activeElement !== inputRef.current) {
-				focusBarcode();
-			}
-		};
-		window.addEventListener("click", onFocus);
-		window.addEventListener("focus", focusBarcode);
-		return () => {
-			window.removeEventListener("click", onFocus);
-			window.removeEventListener("focus", focusBarcode);
-		};
-	}, []);
-
-	const handleKey = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
-		if (e.key === "Enter") {
-			const code = currentCode;
-			setCurrentCode("");
-			if (code.length > 0) addItem(code);
-			e.preventDefault();
-		}
-	}, [addItem, currentCode]);
-
-	// Auto submit when typing stops
-	useEffect(() => {
-		if (!autoSubmit) return;
-		if (!currentCode) return;
-		if (submitTimerRef.current) clearTimeout(submitTimerRef.current);
-		submitTimerRef.current = setTimeout(() => {
-			const code = currentCode;
-			setCurrentCode("");
-			if (code.length > 0) addItem(code);
-		}, Math.max(100, submitDelayMs));
-		return () => {
-			if (submitTimerRef.current) clearTimeout(submitTimerRef.current);
-		};
-	}, [autoSubmit, submitDelayMs, currentCode, addItem]);
+	// Scanner bursts submit on their own, typed codes on Enter
+	const handleScan = useCallback((event: ScanEvent) => {
+		addItem(event.text, event.symbology);
+	}, [addItem]);
+	const scanner = useScannerInput(handleScan);
 
 	// Load disposed items from database
 	const loadDisposedItems = useCallback(async () => {
@@ -185,6 +141,20 @@ export default function DisposePage() {
 		void loadDisposedItems();
 	}, [loadDisposedItems]);
 
+	// Disposals on other devices appear live
+	const applyInventoryChange = useCallback((change: TableChange<DisposedItem & { disposed_at: string | null }>) => {
+		if (change.eventType === "DELETE" || change.eventType === "RESYNC") {
+			void loadDisposedItems();
+			return;
+		}
+		const { barcode, received_at, disposed_at } = change.row;
+		if (!disposed_at || !shouldInclude(barcode) || seenRef.current.has(barcode)) return;
+		seenRef.current.add(barcode);
+		setDisposedItems(prev => [{ barcode, received_at, disposed_at }, ...prev]);
+		if (new Date(disposed_at).toDateString() === new Date().toDateString()) setTodayCount(prev => prev + 1);
+	}, [loadDisposedItems, shouldInclude]);
+	const sync = useTableChanges("mo_lq2_inventory", undefined, applyInventoryChange);
+
 	const formatDate = (dateString: string) => {
 		const date = new Date(dateString);
 		return date.toLocaleString("ko-KR", {
@@ -208,6 +178,7 @@ export default function DisposePage() {
 		<div className="w-full max-w-full mx-auto space-y-3 px-2 sm:px-4">
 			<div className="flex items-center justify-between mb-4 gap-2">
 				<h1 className="text-xl sm:text-3xl font-semibold flex-1">Dispose</h1>
+				<SyncIndicator sync={sync} />
 				<Link
 					href="/inventory"
 					className="px-4 sm:px-6 py-2.5 sm:py-3 text-sm sm:text-base font-semibold rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 active:bg-gray-300 min-h-[44px] sm:min-h-[48px] min-w-[80px] sm:min-w-[100px] flex items-center justify-center touch-manipulation flex-shrink-0"
@@ -231,17 +202,18 @@ export default function DisposePage() {
 			{/* Barcode input */}
 			<div className="rounded border border-red-300 bg-red-50 p-3">
 				<label className="block text-sm text-gray-800 mb-2 font-semibold">Barcode Scan</label>
+				{!canDispose && (
+					<div className="mb-2 text-sm text-red-700">{roleRequiredMessage("supervisor")}</div>
+				)}
 				<input
-					ref={inputRef}
+					{...scanner.inputProps}
 					type="text"
-					value={currentCode}
-					onChange={(e) => setCurrentCode(e.target.value)}
-					onKeyDown={handleKey}
 					className="w-full rounded border border-red-400 px-3 py-3 text-lg font-mono text-gray-900 placeholder-gray-500 bg-white focus:bg-red-100 focus:outline-none focus:ring-2 focus:ring-red-400"
 					placeholder="Scan barcode..."
 					autoComplete="off"
 					autoFocus
 				/>
+				<ScannerSettings />
 			</div>
 
 			{/* Status message */}
@@ -1,51 +1,81 @@
 "use client";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { supabase } from "../../../lib/supabaseClient";
-import { normalizeBarcode } from "../../../lib/barcode";
+import { barcodeIssue, matchesPrefix, parsePrefixList } from "../../../lib/barcode";
+import { useBarcodeProfile } from "../../../lib/barcodeProfile";
+import { describeLabelData, readScan } from "../../../lib/labelData";
+import { useScannerInput, type ScanEvent } from "../../../lib/scannerInput";
+import { scanFeedback } from "../../../lib/scanFeedback";
+import { parseLocationLabel, useCurrentLocation } from "../../../lib/location";
+import { enqueueWrite, useOutbox } from "../../../lib/scanOutbox";
+import { useTableChanges, type TableChange } from "../../../lib/realtime";
+import SyncIndicator from "../../components/SyncIndicator";
+import ScannerSettings from "../../components/ScannerSettings";
+import FeedbackSettings from "../../components/FeedbackSettings";
+import ScanFlash from "../../components/ScanFlash";
+import LocationBar from "../../components/LocationBar";
 import Link from "next/link";
 
 type ReceivedItem = {
 	barcode: string;
 	received_at: string;
+	location: string | null;
 };
 
 export default function ReceivePage() {
-	const [prefixText] = useState<string>("1M,2M");
+	const { profile, spec } = useBarcodeProfile("lq2");
+	const prefixText = spec.prefixes.join(",");
 	const [receivedItems, setReceivedItems] = useState<ReceivedItem[]>([]);
 	const [todayCount, setTodayCount] = useState<number>(0);
 	const [status, setStatus] = useState<string>("");
-	const inputRef = useRef<HTMLInputElement | null>(null);
-	const [currentCode, setCurrentCode] = useState<string>("");
-	const [autoSubmit] = useState<boolean>(true);
-	const [submitDelayMs] = useState<number>(200);
-	const submitTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+	const { location, set: setLocation } = useCurrentLocation();
 	const seenRef = useRef<Set<string>>(new Set());
+	const outbox = useOutbox();
+	// Barcodes not yet written to Supabase, by outbox status
+	const unsynced = useMemo(() => {
+		const map = new Map<string, "pending" | "failed">();
+		for (const entry of outbox.entries) {
+			if (entry.route === "/api/inventory/receive") map.set(String(entry.body.barcode), entry.status);
+		}
+		return map;
+	}, [outbox.entries]);
 
-	const allowedPrefixes = useCallback(() =>
-		prefixText.split(",").map(p => p.trim()).filter(Boolean), [prefixText]);
+	const allowedPrefixes = useMemo(() => parsePrefixList(prefixText), [prefixText]);
 
-	const shouldInclude = useCallback((text: string) => {
-		const p = allowedPrefixes();
-		if (p.length === 0) return true;
-		return p.some(pref => text.startsWith(pref));
-	}, [allowedPrefixes]);
+	const shouldInclude = useCallback((text: string) => matchesPrefix(text, allowedPrefixes), [allowedPrefixes]);
 
-	const addItem = useCallback(async (text: string) => {
+	const addItem = useCallback(async (text: string, symbology: string | null = null) => {
 		if (!text || text.trim().length === 0) return;
-		const normalized = normalizeBarcode(text);
+		// Structured labels carry the code in the profile's label field
+		const scan = readScan(text, spec.labelField, symbology);
+		const normalized = scan.code;
+		if (scan.label && !normalized) {
+			setStatus(`Skipped: label has no ${spec.labelField} field`);
+			scanFeedback("skipped");
+			return;
+		}
 		if (!normalized || normalized.length === 0) return;
 		if (!shouldInclude(normalized)) {
 			setStatus(`Skipped: ${normalized} (prefix mismatch)`);
+			scanFeedback("skipped");
+			return;
+		}
+		// A wrong check digit is a misread label, not an unmatched item
+		if (barcodeIssue(normalized, spec) === "check") {
+			setStatus(`Rejected: ${normalized} (check digit mismatch)`);
+			scanFeedback("skipped");
 			return;
 		}
 		if (seenRef.current.has(normalized)) {
 			setStatus(`Already scanned: ${normalized}`);
+			scanFeedback("duplicate");
 			return;
 		}
 		seenRef.current.add(normalized);
 
 		try {
-			// Check if already received (barcode is unique - cannot be received twice)
+			// Check if already received (barcode is unique - cannot be received twice).
+			// Offline this lookup just finds nothing; the receive route reports the duplicate on replay.
 			const { data: existing } = await supabase
 				.from("mo_lq2_inventory")
 				.select("id, disposed_at")
@@ -58,95 +88,54 @@ export default function ReceivePage() {
 				} else {
 					setStatus(`Already received: ${normalized}`);
 				}
+				scanFeedback("duplicate");
 				return;
 			}
 
-			// Insert new inventory record
-			const { data, error } = await supabase
-				.from("mo_lq2_inventory")
-				.insert({
-					barcode: normalized,
-					received_at: new Date().toISOString(),
-					prefixes: prefixText,
-				})
-				.select()
-				.single();
-
-			if (error) {
-				throw error;
-			}
+			// Queue the new inventory record; the outbox posts it to /api/inventory/receive now or when the connection returns
+			const receivedAt = new Date().toISOString();
+			await enqueueWrite("/api/inventory/receive", {
+				barcode: normalized,
+				received_at: receivedAt,
+				profile_id: profile.id,
+				label_data: scan.data,
+				location,
+			});
 
 			// Update UI
-			const newItem = {
-				barcode: normalized,
-				received_at: data.received_at,
-			};
-			setReceivedItems(prev => [newItem, ...prev]);
-			
-			// Update today count if received today
-			const receivedDate = new Date(data.received_at);
-			const today = new Date();
-			if (receivedDate.toDateString() === today.toDateString()) {
-				setTodayCount(prev => prev + 1);
-			}
+			setReceivedItems(prev => [{ barcode: normalized, received_at: receivedAt, location }, ...prev]);
+			setTodayCount(prev => prev + 1);
 			
-			setStatus(`Received: ${normalized}`);
+			setStatus(`Received: ${normalized}${scan.data ? ` (${describeLabelData(scan.data)})` : ""}`);
+			scanFeedback("matched");
 		} catch (e) {
 			const msg = e instanceof Error ? e.message : String(e);
 			setStatus(`Receive failed: ${msg}`);
+			scanFeedback("skipped");
 			console.error("Receive failed", e);
 		}
-	}, [prefixText, shouldInclude]);
-
-	// Auto focus barcode input
-	useEffect(() => {
-		const focusBarcode = () => {
-			inputRef.current?.focus();
-		};
-		setTimeout(focusBarcode, 100);
-		const onFocus = () => {
-			if (document.activeElement !== inputRef.current) {
-				focusBarcode();
-			}
-		};
-		window.addEventListener("click", onFocus);
-		window.addEventListener("focus", focusBarcode);
-		return () => {
-			window.removeEventListener("click", onFocus);
-			window.removeEventListener("focus", focusBarcode);
-		};
-	}, []);
+	}, [profile.id, shouldInclude, spec, location]);
 
-	const handleKey = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
-		if (e.key === "Enter") {
-			const code = currentCode;
-			setCurrentCode("");
-			if (code.length > 0) addItem(code);
-			e.preventDefault();
+	// Scanner bursts submit on their own, typed codes on Enter.
+	// A location label sets where the following receipts are recorded.
+	const handleScan = useCallback((event: ScanEvent) => {
+		const scannedLocation = parseLocationLabel(event.text);
+		if (scannedLocation) {
+			setLocation(scannedLocation);
+			setStatus(`Location: ${scannedLocation}`);
+			scanFeedback("matched");
+			return;
 		}
-	}, [addItem, currentCode]);
-
-	// Auto submit when typing stops
-	useEffect(() => {
-		if (!autoSubmit) return;
-		if (!currentCode) return;
-		if (submitTimerRef.current) clearTimeout(submitTimerRef.current);
-		submitTimerRef.current = setTimeout(() => {
-			const code = currentCode;
-			setCurrentCode("");
-			if (code.length > 0) addItem(code);
-		}, Math.max(100, submitDelayMs));
-		return () => {
-			if (submitTimerRef.current) clearTimeout(submitTimerRef.current);
-		};
-	}, [autoSubmit, submitDelayMs, currentCode, addItem]);
+		addItem(event.text, event.symbology);
+	}, [addItem, setLocation]);
+	const scanner = useScannerInput(handleScan);
 
 	// Load received items from database
 	const loadReceivedItems = useCallback(async () => {
 		try {
 			const { data, error } = await supabase
 				.from("mo_lq2_inventory")
-				.select("barcode, received_at")
+				.select("barcode, received_at, location")
 				.is("disposed_at", null)
 				.order("received_at", { ascending: false })
 				.limit(100);
@@ -158,6 +147,7 @@ export default function ReceivePage() {
 				.map(item => ({
 					barcode: item.barcode,
 					received_at: item.received_at,
+					location: item.location,
 				}))
 				.filter(item => shouldInclude(item.barcode));
 
@@ -186,6 +176,25 @@ export default function ReceivePage() {
 		void loadReceivedItems();
 	}, [loadReceivedItems]);
 
+	// Receipts on other PDAs appear live; disposed items drop out of the active list
+	const applyInventoryChange = useCallback((change: TableChange<{ barcode: string; received_at: string; disposed_at: string | null; location: string | null }>) => {
+		if (change.eventType === "DELETE" || change.eventType === "RESYNC") {
+			void loadReceivedItems();
+			return;
+		}
+		const { barcode, received_at, disposed_at, location } = change.row;
+		if (!shouldInclude(barcode)) return;
+		if (disposed_at) {
+			setReceivedItems(prev => prev.filter(item => item.barcode !== barcode));
+			return;
+		}
+		if (seenRef.current.has(barcode)) return;
+		seenRef.current.add(barcode);
+		setReceivedItems(prev => [{ barcode, received_at, location }, ...prev]);
+		if (new Date(received_at).toDateString() === new Date().toDateString()) setTodayCount(prev => prev + 1);
+	}, [loadReceivedItems, shouldInclude]);
+	const sync = useTableChanges("mo_lq2_inventory", undefined, applyInventoryChange);
+
 	const formatDate = (dateString: string) => {
 		const date = new Date(dateString);
 		return date.toLocaleString("ko-KR", {
@@ -201,6 +210,7 @@ export default function ReceivePage() {
 		<div className="w-full max-w-full mx-auto space-y-3 px-2 sm:px-4">
 			<div className="flex items-center justify-between mb-4 gap-2">
 				<h1 className="text-xl sm:text-3xl font-semibold flex-1">Receive</h1>
+				<SyncIndicator sync={sync} />
 				<Link
 					href="/inventory"
 					className="px-4 sm:px-6 py-2.5 sm:py-3 text-sm sm:text-base font-semibold rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 active:bg-gray-300 min-h-[44px] sm:min-h-[48px] min-w-[80px] sm:min-w-[100px] flex items-center justify-center touch-manipulation flex-shrink-0"
@@ -209,6 +219,8 @@ export default function ReceivePage() {
 				</Link>
 			</div>
 
+			<LocationBar />
+
 			{/* Stats Cards */}
 			<div className="grid grid-cols-2 gap-3">
 				<div className="rounded-lg border-2 border-blue-400 bg-blue-50 p-3 sm:p-4 shadow-md">
@@ -225,16 +237,15 @@ export default function ReceivePage() {
 			<div className="rounded border border-blue-300 bg-blue-50 p-3">
 				<label className="block text-sm text-gray-800 mb-2 font-semibold">Barcode Scan</label>
 				<input
-					ref={inputRef}
+					{...scanner.inputProps}
 					type="text"
-					value={currentCode}
-					onChange={(e) => setCurrentCode(e.target.value)}
-					onKeyDown={handleKey}
 					className="w-full rounded border border-blue-400 px-3 py-3 text-lg font-mono text-gray-900 placeholder-gray-500 bg-white focus:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-400"
 					placeholder="Scan barcode..."
 					autoComplete="off"
 					autoFocus
 				/>
+				<ScannerSettings />
+				<FeedbackSettings />
 			</div>
 
 			{/* Status message */}
@@ -255,8 +266,13 @@ export default function ReceivePage() {
 						>
 							<div className="flex-1">
 								<span className="font-mono text-base sm:text-sm text-gray-900">{item.barcode}</span>
+								{unsynced.has(item.barcode) && (
+									<span className={`ml-2 text-xs font-semibold px-2 py-0.5 rounded ${unsynced.get(item.barcode) === "failed" ? "bg-red-100 text-red-700" : "bg-yellow-100 text-yellow-800"}`}>
+										{unsynced.get(item.barcode) === "failed" ? "실패" : "대기"}
+									</span>
+								)}
 								<div className="text-xs text-gray-600 mt-1">
-									Received: {formatDate(item.received_at)}
+									Received: {formatDate(item.received_at)}{item.location && ` · ${item.location}`}
 								</div>
 							</div>
 						</li>
@@ -266,6 +282,8 @@ export default function ReceivePage() {
 					)}
 				</ul>
 			</div>
+
+			<ScanFlash />
 		</div>
 	);
 }
@@ -1,7 +1,10 @@
 "use client";
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { supabase } from "../../../lib/supabaseClient";
-import { normalizeBarcode } from "../../../lib/barcode";
+import { matchesPrefix, normalizeBarcode, parsePrefixList } from "../../../lib/barcode";
+import { useBarcodeProfile } from "../../../lib/barcodeProfile";
+import { useTableChanges, type TableChange } from "../../../lib/realtime";
+import SyncIndicator from "../../components/SyncIndicator";
 import Link from "next/link";
 
 type InventoryItem = {
@@ -10,23 +13,39 @@ type InventoryItem = {
 	disposed_at: string | null;
 	days_in_stock: number;
 	status: "Active" | "Disposed";
+	location: string | null; // rack/bin it was received at
 };
 
+type InventoryRow = { barcode: string; received_at: string; disposed_at: string | null; location: string | null };
+
+function toInventoryItem(row: InventoryRow, now: Date): InventoryItem {
+	const received = new Date(row.received_at);
+	const disposed = row.disposed_at ? new Date(row.disposed_at) : null;
+	const endDate = disposed || now;
+	const diffTime = endDate.getTime() - received.getTime();
+	const days = Math.floor(diffTime / (1000 * 60 * 60 * 24));
+
+	return {
+		barcode: normalizeBarcode(row.barcode),
+		received_at: row.received_at,
+		disposed_at: row.disposed_at,
+		days_in_stock: days,
+		status: row.disposed_at ? "Disposed" : "Active",
+		location: row.location,
+	};
+}
+
 export default function ReportPage() {
-	const [prefixText] = useState<string>("1M,2M");
+	const { spec } = useBarcodeProfile("lq2");
+	const prefixText = spec.prefixes.join(",");
 	const [inventory, setInventory] = useState<InventoryItem[]>([]);
 	const [loading, setLoading] = useState<boolean>(true);
 	const [status, setStatus] = useState<string>("");
 	const [filter, setFilter] = useState<"all" | "active" | "disposed">("all");
 
-	const allowedPrefixes = useCallback(() =>
-		prefixText.split(",").map(p => p.trim()).filter(Boolean), [prefixText]);
+	const allowedPrefixes = useMemo(() => parsePrefixList(prefixText), [prefixText]);
 
-	const shouldInclude = useCallback((text: string) => {
-		const p = allowedPrefixes();
-		if (p.length === 0) return true;
-		return p.some(pref => text.startsWith(pref));
-	}, [allowedPrefixes]);
+	const shouldInclude = useCallback((text: string) => matchesPrefix(text, allowedPrefixes), [allowedPrefixes]);
 
 	// Load inventory data
 	const loadInventory = useCallback(async () => {
@@ -34,7 +53,7 @@ export default function ReportPage() {
 		try {
 			const { data, error } = await supabase
 				.from("mo_lq2_inventory")
-				.select("barcode, received_at, disposed_at")
+				.select("barcode, received_at, disposed_at, location")
 				.order("received_at", { ascending: false });
 
 			if (error) throw error;
@@ -42,22 +61,7 @@ export default function ReportPage() {
 			const now = new Date();
 			// Filter by prefix (same as OCR/SCAN)
 			const items: InventoryItem[] = (data || [])
-				.map(item => {
-					const normalized = normalizeBarcode(item.barcode);
-					const received = new Date(item.received_at);
-					const disposed = item.disposed_at ? new Date(item.disposed_at) : null;
-					const endDate = disposed || now;
-					const diffTime = endDate.getTime() - received.getTime();
-					const days = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-
-					return {
-						barcode: normalized,
-						received_at: item.received_at,
-						disposed_at: item.disposed_at,
-						days_in_stock: days,
-						status: (item.disposed_at ? "Disposed" : "Active") as "Active" | "Disposed",
-					};
-				})
+				.map(item => toInventoryItem(item, now))
 				.filter(item => shouldInclude(item.barcode));
 
 			setInventory(items);
@@ -75,6 +79,20 @@ export default function ReportPage() {
 		void loadInventory();
 	}, [loadInventory]);
 
+	// Receipts and disposals from the PDAs update the report live
+	const applyInventoryChange = useCallback((change: TableChange<InventoryRow>) => {
+		if (change.eventType === "DELETE" || change.eventType === "RESYNC") {
+			void loadInventory();
+			return;
+		}
+		const item = toInventoryItem(change.row, new Date());
+		if (!shouldInclude(item.barcode)) return;
+		setInventory(prev => prev.some(i => i.barcode === item.barcode)
+			? prev.map(i => (i.barcode === item.barcode ? item : i))
+			: [item, ...prev]);
+	}, [loadInventory, shouldInclude]);
+	const sync = useTableChanges("mo_lq2_inventory", undefined, applyInventoryChange);
+
 	const filteredInventory = inventory.filter(item => {
 		if (filter === "active") return item.status === "Active";
 		if (filter === "disposed") return item.status === "Disposed";
@@ -98,9 +116,10 @@ export default function ReportPage() {
 
 	// Export to Excel (CSV format that Excel can open)
 	const exportToExcel = useCallback(() => {
-		const headers = ["Barcode", "Received Date", "Disposed Date", "Days in Stock", "Status"];
+		const headers = ["Barcode", "Location", "Received Date", "Disposed Date", "Days in Stock", "Status"];
 		const rows = filteredInventory.map(item => [
 			item.barcode,
+			item.location ?? "",
 			formatDateTime(item.received_at),
 			item.disposed_at ? formatDateTime(item.disposed_at) : "",
 			item.days_in_stock.toString(),
@@ -144,6 +163,7 @@ export default function ReportPage() {
 		<div className="w-full max-w-full mx-auto space-y-4 px-2 sm:px-4">
 			<div className="flex items-center justify-between mb-4 gap-2">
 				<h1 className="text-xl sm:text-3xl font-semibold flex-1">Inventory Report</h1>
+				<SyncIndicator sync={sync} />
 				<Link
 					href="/inventory"
 					className="px-4 sm:px-6 py-2.5 sm:py-3 text-sm sm:text-base font-semibold rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 active:bg-gray-300 min-h-[44px] sm:min-h-[48px] min-w-[80px] sm:min-w-[100px] flex items-center justify-center touch-manipulation flex-shrink-0"
@@ -257,6 +277,7 @@ export default function ReportPage() {
 						<thead>
 							<tr className="border-b bg-gray-50">
 								<th className="text-left p-2 font-medium">Barcode</th>
+								<th className="text-left p-2 font-medium">Location</th>
 								<th className="text-left p-2 font-medium">Received Date</th>
 								<th className="text-left p-2 font-medium">Disposed Date</th>
 								<th className="text-right p-2 font-medium">Days in Stock</th>
@@ -277,7 +298,12 @@ export default function ReportPage() {
 											: "bg-gray-50"
 									}`}
 								>
-									<td className="p-2 font-mono">{item.barcode}</td>
+									<td className="p-2 font-mono">
+										<Link href={`/locations?code=${encodeURIComponent(item.barcode)}`} className="hover:underline" title="Where was it last seen?">
+											{item.barcode}
+										</Link>
+									</td>
+									<td className="p-2 font-mono">{item.location ?? "-"}</td>
 									<td className="p-2">{formatDateTime(item.received_at)}</td>
 									<td className="p-2">
 										{item.disposed_at ? formatDateTime(item.disposed_at) : "-"}
@@ -298,7 +324,7 @@ export default function ReportPage() {
 							))}
 							{filteredInventory.length === 0 && (
 								<tr>
-									<td colSpan={5} className="p-4 text-center text-gray-500 italic">
+									<td colSpan={6} className="p-4 text-center text-gray-500 italic">
 										No items
 									</td>
 								</tr>
@@ -1,18 +1,28 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import "./globals.css";
 import TopNav from "./components/TopNav";
+import ServiceWorkerRegister from "./components/ServiceWorkerRegister";
+import AuthGate from "./components/AuthGate";
 
 export const metadata: Metadata = {
 	title: "OCR Demo",
 	description: "PDF/Image OCR with line-by-line preview",
+	appleWebApp: { capable: true, title: "MGA Scan" },
+};
+
+export const viewport: Viewport = {
+	themeColor: "#2563eb",
 };
 
 export default function RootLayout({ children }: { children: React.ReactNode }) {
 	return (
 		<html lang="ko" className="h-full">
 			<body className="h-full bg-gray-50 text-gray-900">
+				<ServiceWorkerRegister />
 				<TopNav />
-				<main className="min-h-screen p-3 sm:p-6">{children}</main>
+				<main className="min-h-screen p-3 sm:p-6">
+					<AuthGate>{children}</AuthGate>
+				</main>
 			</body>
 		</html>
 	);
@@ -0,0 +1,122 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { normalizeBarcode } from "../../lib/barcode";
+import { findSightings, type Sighting } from "../../lib/location";
+import { useScannerInput, type ScanEvent } from "../../lib/scannerInput";
+
+const formatDateTime = (dateString: string) =>
+	new Date(dateString).toLocaleString("ko-KR", {
+		year: "numeric",
+		month: "2-digit",
+		day: "2-digit",
+		hour: "2-digit",
+		minute: "2-digit",
+	});
+
+// Where was this barcode last seen? Scan or type a code; ?code= opens with one (Report links here)
+export default function LocationLookupPage() {
+	const [code, setCode] = useState<string>("");
+	const [sightings, setSightings] = useState<Sighting[] | null>(null);
+	const [loading, setLoading] = useState<boolean>(false);
+	const [error, setError] = useState<string>("");
+
+	const lookup = useCallback(async (raw: string) => {
+		const normalized = normalizeBarcode(raw);
+		if (!normalized) return;
+		setCode(normalized);
+		setLoading(true);
+		setError("");
+		try {
+			setSightings(await findSightings(normalized));
+		} catch (e) {
+			const msg = e instanceof Error ? e.message : String(e);
+			setError(`Lookup failed: ${msg}`);
+			setSightings(null);
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	const handleScan = useCallback((event: ScanEvent) => {
+		void lookup(event.text);
+	}, [lookup]);
+	const scanner = useScannerInput(handleScan);
+
+	useEffect(() => {
+		const initial = new URLSearchParams(window.location.search).get("code");
+		if (initial) void lookup(initial);
+	}, [lookup]);
+
+	const last = sightings?.find(s => s.location !== null) ?? null;
+
+	return (
+		<div className="w-full max-w-3xl mx-auto space-y-3 px-2 sm:px-4">
+			<h1 className="text-xl sm:text-2xl font-semibold">위치 조회</h1>
+
+			<div className="rounded border border-teal-300 bg-teal-50 p-3">
+				<label className="block text-sm text-gray-800 mb-2 font-semibold">바코드</label>
+				<input
+					{...scanner.inputProps}
+					type="text"
+					className="w-full rounded border border-teal-400 px-3 py-3 text-lg font-mono text-gray-900 placeholder-gray-500 bg-white focus:bg-teal-100 focus:outline-none focus:ring-2 focus:ring-teal-400"
+					placeholder="바코드를 스캔하거나 입력 후 Enter"
+					autoComplete="off"
+					autoFocus
+				/>
+			</div>
+
+			{error && <div className="rounded border border-red-300 bg-red-50 p-2 text-sm text-red-700">{error}</div>}
+			{loading && <div className="text-center py-4 text-gray-500">Loading...</div>}
+
+			{!loading && sightings && (
+				<>
+					<div className="rounded-lg border-2 border-teal-400 bg-white p-4 shadow-md">
+						<div className="text-sm text-gray-600 font-mono">{code}</div>
+						{last ? (
+							<>
+								<div className="text-2xl sm:text-3xl font-bold font-mono text-teal-800">{last.location}</div>
+								<div className="text-sm text-gray-700">
+									Last seen {formatDateTime(last.at)} · {last.kind === "scan" ? `scan${last.session ? ` (${last.session})` : ""}` : "received"}
+									{last.disposed_at && ` · disposed ${formatDateTime(last.disposed_at)}`}
+								</div>
+								{sightings[0] !== last && (
+									<div className="mt-1 text-xs text-amber-700">Seen later without a location ({formatDateTime(sightings[0].at)})</div>
+								)}
+							</>
+						) : (
+							<div className="text-base text-gray-700">
+								{sightings.length === 0 ? "Never scanned or received" : "Seen, but no location was recorded"}
+							</div>
+						)}
+					</div>
+
+					{sightings.length > 0 && (
+						<div className="rounded border bg-white p-3 sm:p-4 overflow-x-auto">
+							<h2 className="font-medium text-base sm:text-sm mb-3">History ({sightings.length})</h2>
+							<table className="w-full text-sm">
+								<thead>
+									<tr className="border-b">
+										<th className="text-left p-2 font-medium">When</th>
+										<th className="text-left p-2 font-medium">Location</th>
+										<th className="text-left p-2 font-medium">Where from</th>
+									</tr>
+								</thead>
+								<tbody>
+									{sightings.map((s, idx) => (
+										<tr key={`${s.kind}-${s.at}-${idx}`} className="border-b">
+											<td className="p-2">{formatDateTime(s.at)}</td>
+											<td className="p-2 font-mono">{s.location ?? "-"}</td>
+											<td className="p-2">
+												{s.kind === "scan" ? `Scan${s.session ? ` · ${s.session}` : ""}` : `Receive${s.disposed_at ? " · disposed" : ""}`}
+											</td>
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</div>
+					)}
+				</>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,19 @@
+import type { MetadataRoute } from "next";
+
+// Web app manifest so the PDA terminals can install the app to the home screen
+export default function manifest(): MetadataRoute.Manifest {
+	return {
+		name: "LEEHWA-MGA Scan",
+		short_name: "MGA Scan",
+		description: "Barcode scan, receive and OCR for CKD / LQ2",
+		start_url: "/ckd/scan",
+		display: "standalone",
+		orientation: "portrait",
+		background_color: "#f9fafb",
+		theme_color: "#2563eb",
+		icons: [
+			{ src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" },
+			{ src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "maskable" },
+		],
+	};
+}
@@ -1,58 +1,94 @@
 "use client";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { supabase } from "../../lib/supabaseClient";
-import { normalizeBarcode } from "../../lib/barcode";
+import { matchesPrefix, normalizeBarcode, parsePrefixList } from "../../lib/barcode";
+import { useBarcodeProfile } from "../../lib/barcodeProfile";
+import { useActiveSession } from "../../lib/scanSession";
+import { manifestLabel, useManifests } from "../../lib/manifest";
+import { hasRole, roleRequiredMessage, useOperator } from "../../lib/auth";
+import { fetchAllRows, type LoadProgress } from "../../lib/pagedFetch";
+import { combineSync, useTableChanges, type TableChange } from "../../lib/realtime";
+import { substitutionCost, useConfusionModel } from "../../lib/ocrConfusion";
+import { describeLine, REASON_LABEL, reconcile } from "../../lib/reconcile";
+import { isPhysicalSource, isScanSource, SCAN_SOURCES, SOURCE_LABEL, type ScanSource } from "../../lib/scanSource";
+import { lastSeenLocations } from "../../lib/location";
+import LoadProgressBar from "../components/LoadProgressBar";
+import SyncIndicator from "../components/SyncIndicator";
 
 type Row = { text: string };
+// Expected rows carry the packing-list columns when the upload had a readable table
+type ExpectedRow = Row & { expected_count: number; case_no: string | null; part_no: string | null; quantity: number | null; weight: number | null };
+type ScannedRow = Row & { scan_count: number; source: string; location: string | null };
+
+const EXPECTED_COLUMNS = "text, expected_count, case_no, part_no, quantity, weight";
+
+function csvField(value: string | number | null): string {
+    const text = value === null ? "" : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
 
 export default function MatchPage() {
-    const [prefixText, setPrefixText] = useState<string>("1M,2M");
+    const { profile, spec } = useBarcodeProfile("ckd");
+    const { model: confusions } = useConfusionModel(profile.id);
+    // Typed prefixes override the section's format profile until cleared
+    const [prefixOverride, setPrefixOverride] = useState<string | null>(null);
+    const prefixText = prefixOverride ?? spec.prefixes.join(",");
     const [loading, setLoading] = useState<boolean>(true); // Start with true to show loading state
     const [error, setError] = useState<string>("");
-    const [expected, setExpected] = useState<Row[]>([]); // from mo_ocr_results
-    const [scanned, setScanned] = useState<Row[]>([]);   // from mo_scan_items
+    const [expected, setExpected] = useState<ExpectedRow[]>([]); // from mo_ocr_results
+    const [scanned, setScanned] = useState<ScannedRow[]>([]);   // from mo_scan_items
+    const [expectedProgress, setExpectedProgress] = useState<LoadProgress | null>(null);
+    const [scannedProgress, setScannedProgress] = useState<LoadProgress | null>(null);
+    const sessionState = useActiveSession();
+    const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+    // Default to the device's active session until another one is picked
+    const sessionId = selectedSessionId ?? sessionState.session?.id ?? null;
+    const { manifests } = useManifests();
+    const [selectedManifestId, setSelectedManifestId] = useState<string | null>(null);
+    // Any manifest can be compared with any session; default to the session's own list, then the latest upload
+    const sessionManifestId = sessionState.sessions.find(s => s.id === sessionId)?.manifest_id ?? null;
+    const manifestId = selectedManifestId ?? sessionManifestId ?? manifests[0]?.id ?? null;
+    const { operator } = useOperator();
+    const canClear = hasRole(operator, "supervisor");
 
-    const allowedPrefixes = useMemo(() => prefixText.split(",").map(p => p.trim()).filter(Boolean), [prefixText]);
-    const include = useCallback((t: string) => {
-        const v = normalizeBarcode(t);
-        return allowedPrefixes.length === 0 ? true : allowedPrefixes.some(p => v.startsWith(p.toUpperCase()));
-    }, [allowedPrefixes]);
+    const allowedPrefixes = useMemo(() => parsePrefixList(prefixText), [prefixText]);
+    const include = useCallback((t: string) => matchesPrefix(normalizeBarcode(t), allowedPrefixes), [allowedPrefixes]);
 
     const refresh = useCallback(async () => {
         setLoading(true);
         setError("");
         try {
-            // Load expected from mo_ocr_results (no prefix filter needed, we'll filter client-side)
-            const expRes = await supabase.from("mo_ocr_results").select("text");
-            if (expRes.error) throw expRes.error;
+            // Load expected from the selected manifest (no prefix filter needed, we'll filter client-side)
+            const expRows = manifestId
+                ? await fetchAllRows<ExpectedRow & { id: number }>("mo_ocr_results", EXPECTED_COLUMNS, { manifest_id: manifestId }, setExpectedProgress)
+                : [];
             
-            // Load scanned from mo_scan_items - need to handle multiple prefix formats
+            // Load scanned from mo_scan_items for the selected session - need to handle multiple prefix formats
             // Some items have "1M", "2M" individually, others have "1M,2M"
             // So we need to get all items and filter client-side
-            const scanRes = await supabase
-                .from("mo_scan_items")
-                .select("text, matched, prefixes");
-            if (scanRes.error) throw scanRes.error;
+            const scanRows = sessionId
+                ? await fetchAllRows<{ id: number; text: string; prefixes: string | null; scan_count: number; source: string; location: string | null }>("mo_scan_items", "text, prefixes, scan_count, source, location", { session_id: sessionId }, setScannedProgress)
+                : [];
             
             // Normalize and filter expected items
-            const normalizedExpected: Row[] = [];
-            for (const r of expRes.data ?? []) {
-                const normalized = normalizeBarcode(String((r as any).text));
+            const normalizedExpected: ExpectedRow[] = [];
+            for (const r of expRows) {
+                const normalized = normalizeBarcode(r.text);
                 if (include(normalized)) {
-                    normalizedExpected.push({ text: normalized });
+                    normalizedExpected.push({ ...r, text: normalized });
                 }
             }
             
             // Normalize and filter scanned items (include all scanned items for comparison)
             // Also check if the item's prefix matches our allowed prefixes
-            const normalizedScanned: Row[] = [];
-            for (const r of scanRes.data ?? []) {
-                const normalized = normalizeBarcode(String((r as any).text));
+            const normalizedScanned: ScannedRow[] = [];
+            for (const r of scanRows) {
+                const normalized = normalizeBarcode(r.text);
                 if (!include(normalized)) continue;
                 
                 // Check if the item's prefix matches our allowed prefixes
                 // Item can have "1M", "2M", or "1M,2M" as prefix
-                const itemPrefix = String((r as any).prefixes || "");
+                const itemPrefix = String(r.prefixes || "");
                 const itemPrefixes = itemPrefix.split(",").map((p: string) => p.trim());
                 const hasMatchingPrefix = allowedPrefixes.length === 0 || 
                     allowedPrefixes.some(allowed => 
@@ -61,7 +97,7 @@ export default function MatchPage() {
                 
                 if (hasMatchingPrefix) {
                     // Include all scanned items (both matched and unmatched) for proper comparison
-                    normalizedScanned.push({ text: normalized });
+                    normalizedScanned.push({ text: normalized, scan_count: r.scan_count, source: r.source, location: r.location });
                 }
             }
             
@@ -72,37 +108,94 @@ export default function MatchPage() {
             setError(msg);
         } finally {
             setLoading(false);
+            setExpectedProgress(null);
+            setScannedProgress(null);
         }
-    }, [prefixText, include]);
+    }, [prefixText, allowedPrefixes, sessionId, manifestId, include]);
 
     useEffect(() => { 
         refresh(); 
-        // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [refresh]); // Refresh when prefixText changes
 
-    const expectedSet = useMemo(() => {
-        const s = new Set<string>();
-        for (const r of expected) {
-            s.add(r.text); // Already normalized and filtered in refresh
+    // Counts follow scans and expected-list edits from other devices live; deletes reload everything.
+    // A repeat scan arrives as an UPDATE of the code's scan_count.
+    const putRow = useCallback(<T extends Row>(rows: T[], row: T) => {
+        const normalized = normalizeBarcode(row.text);
+        if (!include(normalized)) return rows;
+        const next = { ...row, text: normalized };
+        return rows.some(r => r.text === normalized) ? rows.map(r => (r.text === normalized ? next : r)) : [...rows, next];
+    }, [include]);
+    const applyScanChange = useCallback((change: TableChange<ScannedRow>) => {
+        if (change.eventType === "DELETE" || change.eventType === "RESYNC") {
+            void refresh();
+            return;
+        }
+        setScanned(prev => putRow(prev, { text: change.row.text, scan_count: change.row.scan_count, source: change.row.source, location: change.row.location }));
+    }, [refresh, putRow]);
+    const applyExpectedChange = useCallback((change: TableChange<ExpectedRow>) => {
+        if (change.eventType !== "INSERT") {
+            void refresh();
+            return;
         }
-        return s;
-    }, [expected]);
-    const scannedSet = useMemo(() => {
-        const s = new Set<string>();
+        const { text, expected_count, case_no, part_no, quantity, weight } = change.row;
+        setExpected(prev => putRow(prev, { text, expected_count, case_no, part_no, quantity, weight }));
+    }, [refresh, putRow]);
+    const scanSync = useTableChanges("mo_scan_items", sessionId ? `session_id=eq.${sessionId}` : null, applyScanChange);
+    const expectedSync = useTableChanges("mo_ocr_results", manifestId ? `manifest_id=eq.${manifestId}` : null, applyExpectedChange);
+
+    // Same answer as SCAN and SEARCH: both lists go through the shared reconciliation (texts already normalized)
+    const result = useMemo(() => reconcile(
+        expected.map(r => ({ text: r.text, count: r.expected_count ?? 1 })),
+        scanned.map(r => ({ text: r.text, count: r.scan_count ?? 1 })),
+        { similarity: { cost: (a, b) => substitutionCost(confusions, a, b) } },
+    ), [expected, scanned, confusions]);
+    const { matched, missing, unexpected, duplicates, probable, totals } = result;
+
+    // Scanned codes by how they were recorded, so manual marks stand apart from physical reads
+    const bySource = useMemo(() => {
+        const counts = new Map<ScanSource, number>();
         for (const r of scanned) {
-            s.add(r.text); // Already normalized and filtered in refresh
+            const source = isScanSource(r.source) ? r.source : "scanner";
+            counts.set(source, (counts.get(source) ?? 0) + 1);
         }
-        return s;
+        return SCAN_SOURCES.filter(s => counts.has(s)).map(source => ({ source, codes: counts.get(source) ?? 0 }));
     }, [scanned]);
 
-    const matched = useMemo(() => [...expectedSet].filter(t => scannedSet.has(t)), [expectedSet, scannedSet]);
-    const missing = useMemo(() => [...expectedSet].filter(t => !scannedSet.has(t)), [expectedSet, scannedSet]);
-    const unexpected = useMemo(() => [...scannedSet].filter(t => !expectedSet.has(t)), [expectedSet, scannedSet]);
+    // Packing-list columns by code; quantities are totalled over rows that have one
+    const expectedByText = useMemo(() => new Map(expected.map(r => [r.text, r])), [expected]);
+    // Rack/bin each code was last scanned at (see LocationBar): in this session, or for codes
+    // not scanned here yet, in any earlier session
+    const missingCodes = useMemo(() => missing.map(l => l.text).join("\n"), [missing]);
+    const [lastSeen, setLastSeen] = useState<Map<string, string>>(new Map());
+    useEffect(() => {
+        let cancelled = false;
+        lastSeenLocations(missingCodes ? missingCodes.split("\n") : [])
+            .then(found => { if (!cancelled) setLastSeen(found); })
+            .catch(e => console.error("Load last locations failed:", e));
+        return () => { cancelled = true; };
+    }, [missingCodes]);
+    const locationByText = useMemo(() => {
+        const locations = new Map<string, string | null>(lastSeen);
+        for (const r of scanned) if (r.location || !locations.has(r.text)) locations.set(r.text, r.location);
+        return locations;
+    }, [scanned, lastSeen]);
+    const quantityOf = useCallback((codes: string[]) => {
+        let total = 0;
+        let known = 0;
+        for (const t of codes) {
+            const quantity = expectedByText.get(t)?.quantity;
+            if (quantity == null) continue;
+            total += quantity;
+            known++;
+        }
+        return known > 0 ? total : null;
+    }, [expectedByText]);
+    const expectedQuantity = useMemo(() => quantityOf(expected.map(r => r.text)), [quantityOf, expected]);
+    const matchedQuantity = useMemo(() => quantityOf(matched.map(l => l.text)), [quantityOf, matched]);
 
-    const downloadCsv = useCallback((filename: string, rows: string[]) => {
-        const header = "barcode\n";
-        const body = [...rows].sort().join("\n");
-        const blob = new Blob([header + body], { type: "text/csv;charset=utf-8;" });
+    const downloadCsv = useCallback((filename: string, header: string[], rows: Array<Array<string | number | null>>) => {
+        const body = rows.map(r => r.map(csvField).join(",")).join("\n");
+        const blob = new Blob([header.join(",") + "\n" + body], { type: "text/csv;charset=utf-8;" });
         const url = URL.createObjectURL(blob);
         const a = document.createElement("a");
         a.href = url;
@@ -111,15 +204,35 @@ export default function MatchPage() {
         URL.revokeObjectURL(url);
     }, []);
 
+    // The missing list carries the packing-list columns so the floor can find the case
+    const downloadMissing = useCallback(() => {
+        downloadCsv("missing.csv", ["barcode", "expected", "scanned", "reason", "case_no", "part_no", "quantity", "weight", "last_location"], missing.map(l => {
+            const r = expectedByText.get(l.text);
+            return [l.text, l.expected, l.scanned, l.reason, r?.case_no ?? null, r?.part_no ?? null, r?.quantity ?? null, r?.weight ?? null, locationByText.get(l.text) ?? null];
+        }));
+    }, [downloadCsv, missing, expectedByText, locationByText]);
+    const downloadUnexpected = useCallback(() => {
+        const likely = new Map(probable.map(p => [p.scanned, p]));
+        downloadCsv("unexpected.csv", ["barcode", "scanned", "reason", "likely_expected", "score", "last_location"], unexpected.map(l => {
+            const pair = likely.get(l.text);
+            return [l.text, l.scanned, l.reason, pair?.expected ?? null, pair ? pair.score.toFixed(2) : null, locationByText.get(l.text) ?? null];
+        }));
+    }, [downloadCsv, unexpected, probable, locationByText]);
+
     const clearScanItems = useCallback(async () => {
-        if (!confirm("스캔 데이터(mo_scan_items)를 모두 삭제할까요? 이 작업은 되돌릴 수 없습니다.")) return;
+        if (!sessionId) return;
+        if (!canClear) {
+            setError(roleRequiredMessage("supervisor"));
+            return;
+        }
+        if (!confirm("선택한 세션의 스캔 데이터(mo_scan_items)를 모두 삭제할까요? 이 작업은 되돌릴 수 없습니다.")) return;
         setLoading(true);
         setError("");
         try {
             const { error } = await supabase
                 .from("mo_scan_items")
                 .delete()
-                .gt("id", 0); // delete all rows
+                .eq("session_id", sessionId); // delete all rows of this session
             if (error) throw error;
             await refresh(); // Refresh data after clearing
         } catch (e) {
@@ -128,18 +241,36 @@ export default function MatchPage() {
         } finally {
             setLoading(false);
         }
-    }, [refresh]);
+    }, [sessionId, refresh, canClear]);
 
     return (
 		<div className="max-w-6xl mx-auto space-y-4">
 			<h1 className="text-2xl sm:text-3xl font-semibold">Match</h1>
-			<div className="flex items-center gap-3 text-sm">
+			<div className="flex flex-wrap items-center gap-3 text-sm">
 				<label htmlFor="prefixes" className="text-gray-600">Allowed prefixes</label>
-				<input id="prefixes" value={prefixText} onChange={(e)=>setPrefixText(e.target.value)} className="rounded border px-2 py-1" />
+				<input id="prefixes" value={prefixText} onChange={(e)=>setPrefixOverride(e.target.value)} className="rounded border px-2 py-1" />
+				<label htmlFor="manifest" className="text-gray-600">Manifest</label>
+				<select id="manifest" value={manifestId ?? ""} onChange={(e)=>setSelectedManifestId(e.target.value || null)} className="rounded border px-2 py-1 bg-white">
+					{!manifestId && <option value="">(none)</option>}
+					{manifests.map(m => (
+						<option key={m.id} value={m.id}>{manifestLabel(m)}</option>
+					))}
+				</select>
+				<label htmlFor="session" className="text-gray-600">Session</label>
+				<select id="session" value={sessionId ?? ""} onChange={(e)=>setSelectedSessionId(e.target.value || null)} className="rounded border px-2 py-1 bg-white">
+					{!sessionId && <option value="">(none)</option>}
+					{sessionState.sessions.map(s => (
+						<option key={s.id} value={s.id}>{s.name || s.id.slice(0, 8)}{s.closed_at ? " (closed)" : ""}</option>
+					))}
+				</select>
 				<button onClick={refresh} disabled={loading} className={`rounded px-3 py-2 text-sm ${loading?"bg-gray-300 text-gray-500":"bg-black text-white hover:bg-gray-800"}`}>{loading?"Refreshing...":"Refresh"}</button>
-				<button onClick={clearScanItems} disabled={loading} className="rounded px-3 py-2 text-sm bg-red-200 text-red-800 hover:bg-red-300">Clear Scan Data</button>
+				<button onClick={clearScanItems} disabled={loading || !sessionId || !canClear} title={canClear ? undefined : roleRequiredMessage("supervisor")} className="rounded px-3 py-2 text-sm bg-red-200 text-red-800 hover:bg-red-300 disabled:opacity-50">Clear Scan Data</button>
 			</div>
 
+			<SyncIndicator sync={combineSync(scanSync, expectedSync)} />
+			<LoadProgressBar label="Expected" progress={expectedProgress} />
+			<LoadProgressBar label="Scanned" progress={scannedProgress} />
+
 			{error && (
 				<div className="rounded border bg-white p-3 text-sm text-red-600">{error}</div>
 			)}
@@ -153,32 +284,81 @@ export default function MatchPage() {
 				<div className="rounded border bg-white p-4">
 					<h2 className="font-medium mb-2">Overview</h2>
 					<ul className="space-y-1 text-sm text-gray-700">
-						<li>Total expected (DB): <span className="font-semibold">{expectedSet.size}</span></li>
-						<li>Scanned: <span className="font-semibold">{scannedSet.size}</span></li>
+						<li>Total expected (DB): <span className="font-semibold">{expected.length}</span> codes, {totals.expected} labels</li>
+						<li>Scanned: <span className="font-semibold">{scanned.length}</span> codes, {totals.scanned} labels</li>
+						<li>Progress: <span className="font-semibold">{totals.done} of {totals.expected}</span> labels scanned</li>
 						<li>Matched: <span className="font-semibold text-emerald-700">{matched.length}</span></li>
 						<li>Missing: <span className="font-semibold text-amber-700">{missing.length}</span></li>
 						<li>Unexpected: <span className="font-semibold text-rose-700">{unexpected.length}</span></li>
+						<li>Over-scanned / repeated: <span className="font-semibold text-rose-700">{duplicates.length}</span></li>
+						{bySource.length > 0 && (
+							<li>
+								By source:{" "}
+								{bySource.map(({ source, codes }, i) => (
+									<span key={source} className={isPhysicalSource(source) ? "" : "font-semibold text-fuchsia-700"}>
+										{i > 0 && " · "}{SOURCE_LABEL[source]} {codes}
+									</span>
+								))}
+							</li>
+						)}
+						{expectedQuantity !== null && (
+							<li>Quantity (matched / expected): <span className="font-semibold">{matchedQuantity ?? 0} / {expectedQuantity}</span></li>
+						)}
 					</ul>
 				</div>
 				<div className="rounded border bg-white p-4">
 					<div className="flex items-center justify-between mb-2">
 						<h2 className="font-medium">Missing ({missing.length})</h2>
-						<button onClick={()=>downloadCsv("missing.csv", missing)} className="rounded bg-amber-600 px-2 py-1 text-white text-xs hover:bg-amber-700">Download CSV</button>
+						<button onClick={downloadMissing} className="rounded bg-amber-600 px-2 py-1 text-white text-xs hover:bg-amber-700">Download CSV</button>
 					</div>
 					<ul className="space-y-1 max-h-96 overflow-auto">
-						{missing.map((t)=> (
-							<li key={t} className="rounded border border-amber-200 bg-amber-50 px-3 py-1 text-sm font-mono text-gray-900">{t}</li>
-						))}
+						{missing.map((l)=> {
+							const r = expectedByText.get(l.text);
+							const details = [describeLine(l), r?.case_no && `Case ${r.case_no}`, r && r.quantity !== null && `Qty ${r.quantity}`, locationByText.get(l.text)].filter(Boolean).join(" · ");
+							return (
+								<li key={l.text} className="rounded border border-amber-200 bg-amber-50 px-3 py-1 text-sm font-mono text-gray-900">
+									{l.text}
+									<span className="ml-2 font-sans text-xs text-gray-600">{details}</span>
+								</li>
+							);
+						})}
 					</ul>
 				</div>
 				<div className="rounded border bg-white p-4">
 					<div className="flex items-center justify-between mb-2">
 						<h2 className="font-medium">Unexpected ({unexpected.length})</h2>
-						<button onClick={()=>downloadCsv("unexpected.csv", unexpected)} className="rounded bg-rose-600 px-2 py-1 text-white text-xs hover:bg-rose-700">Download CSV</button>
+						<button onClick={downloadUnexpected} className="rounded bg-rose-600 px-2 py-1 text-white text-xs hover:bg-rose-700">Download CSV</button>
 					</div>
 					<ul className="space-y-1 max-h-96 overflow-auto">
-						{unexpected.map((t)=> (
-							<li key={t} className="rounded border border-rose-200 bg-rose-50 px-3 py-1 text-sm font-mono text-gray-900">{t}</li>
+						{unexpected.map((l)=> (
+							<li key={l.text} className="rounded border border-rose-200 bg-rose-50 px-3 py-1 text-sm font-mono text-gray-900">
+								{l.text}
+								<span className="ml-2 font-sans text-xs text-gray-600">{[describeLine(l), locationByText.get(l.text)].filter(Boolean).join(" · ")}</span>
+							</li>
+						))}
+					</ul>
+				</div>
+				<div className="rounded border bg-white p-4 md:col-span-2">
+					<h2 className="font-medium mb-2">Probable OCR errors ({probable.length})</h2>
+					<ul className="space-y-1 max-h-96 overflow-auto text-sm">
+						{probable.map((p)=> (
+							<li key={p.scanned} className="rounded border border-blue-200 bg-blue-50 px-3 py-1">
+								<span className="font-mono">{p.scanned}</span>
+								<span className="mx-2 text-gray-500">→</span>
+								<span className="font-mono">{p.expected}</span>
+								<span className="ml-2 text-xs text-gray-600">{Math.round(p.score * 100)}% · {p.details}</span>
+							</li>
+						))}
+					</ul>
+				</div>
+				<div className="rounded border bg-white p-4">
+					<h2 className="font-medium mb-2">Duplicates ({duplicates.length})</h2>
+					<ul className="space-y-1 max-h-96 overflow-auto">
+						{duplicates.map((l)=> (
+							<li key={`${l.reason}-${l.text}`} className="rounded border border-rose-200 bg-white px-3 py-1 text-sm font-mono text-gray-900">
+								{l.text}
+								<span className="ml-2 font-sans text-xs text-gray-600">{[REASON_LABEL[l.reason], describeLine(l), locationByText.get(l.text)].filter(Boolean).join(" · ")}</span>
+							</li>
 						))}
 					</ul>
 				</div>
@@ -1,457 +1,336 @@
 "use client";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { usePathname } from "next/navigation";
 import { supabase } from "../../lib/supabaseClient";
-import { normalizeBarcode } from "../../lib/barcode";
+import { matchesPrefix, normalizeBarcode, normalizeToLength, parsePrefixList } from "../../lib/barcode";
+import { useBarcodeProfile } from "../../lib/barcodeProfile";
+import { substitutionCost, useConfusionModel } from "../../lib/ocrConfusion";
+import { describeLine, reconcile, type ReconcileLine } from "../../lib/reconcile";
+import { pushUndo, snapshotRows, type UndoEntry } from "../../lib/undoStack";
+import { isScanSource, mergeSource, type ScanOrigin, type ScanSource } from "../../lib/scanSource";
+import { enqueueWrite, listOutbox, useOutbox } from "../../lib/scanOutbox";
+import { useActiveSession } from "../../lib/scanSession";
+import { useScannerInput, type ScanEvent } from "../../lib/scannerInput";
+import { parseLocationLabel, useCurrentLocation } from "../../lib/location";
+import { hasRole, roleRequiredMessage, useOperator } from "../../lib/auth";
+import { fetchAllRows, type LoadProgress } from "../../lib/pagedFetch";
+import { combineSync, useTableChanges, type TableChange } from "../../lib/realtime";
+import SessionBar from "../components/SessionBar";
+import LoadProgressBar from "../components/LoadProgressBar";
+import SyncIndicator from "../components/SyncIndicator";
+import UndoToast from "../components/UndoToast";
+import SourceBadge from "../components/SourceBadge";
+import LocationBar from "../components/LocationBar";
 
 type ScanItem = { text: string };
 
+// Codes per bulk delete request (they are sent in the URL)
+const DELETE_CHUNK = 200;
+
+// Add or remove one code, keeping the list's order
+function placeItem(list: ScanItem[], text: string, present: boolean): ScanItem[] {
+    const has = list.some(it => it.text === text);
+    if (present) return has ? list : [...list, { text }];
+    return has ? list.filter(it => it.text !== text) : list;
+}
+
 export default function SearchPage() {
-    const [prefixText, setPrefixText] = useState<string>("1M,2M");
+    const { profile, spec } = useBarcodeProfile("ckd");
+    // Operators' past OCR fixes for this profile: cheap misreads rank similar pairs higher
+    const { model: confusions, recordCorrections } = useConfusionModel(profile.id);
+    const confusionCost = useCallback((ocr: string, actual: string) => substitutionCost(confusions, ocr, actual), [confusions]);
+    // Typed prefixes override the section's format profile until cleared
+    const [prefixOverride, setPrefixOverride] = useState<string | null>(null);
+    const prefixText = prefixOverride ?? spec.prefixes.join(",");
     const [status, setStatus] = useState<string>("");
-    const [searchQuery, setSearchQuery] = useState<string>(""); // Search query for filtering list
+    const { location, set: setLocation } = useCurrentLocation();
     const expectedCacheRef = useRef<Set<string>>(new Set());
     const seenRef = useRef<Set<string>>(new Set());
     const [expectedList, setExpectedList] = useState<string[]>([]); // Store full expected list for display
+    const [expectedCounts, setExpectedCounts] = useState<Map<string, number>>(new Map()); // labels listed per code
+    const [scanCounts, setScanCounts] = useState<Map<string, number>>(new Map()); // labels scanned per code, as stored
+    const [origins, setOrigins] = useState<Map<string, ScanOrigin>>(new Map()); // how each code was recorded
+    const [expectedProgress, setExpectedProgress] = useState<LoadProgress | null>(null);
     const [matched, setMatched] = useState<ScanItem[]>([]);
     const [unmatched, setUnmatched] = useState<ScanItem[]>([]);
-    const [uploading, setUploading] = useState<boolean>(false);
-    const searchInputRef = useRef<HTMLInputElement | null>(null);
-    const pathname = usePathname();
-    const hasUnsavedData = useRef<boolean>(false); // Track if there's unsaved data
     const [showSimilarPairs, setShowSimilarPairs] = useState<boolean>(true); // Toggle for similar pairs section (default: open)
     const [editingItem, setEditingItem] = useState<string | null>(null); // Track which item is being edited
     const [editValue, setEditValue] = useState<string>(""); // Value for editing
+    const sessionState = useActiveSession();
+    const sessionId = sessionState.session?.id ?? null;
+    const manifestId = sessionState.session?.manifest_id ?? null;
+    const outbox = useOutbox();
+    // Scans of this session still in the outbox, per code: counted on top of the stored scan_count
+    const queuedCounts = useMemo(() => {
+        const map = new Map<string, number>();
+        for (const entry of outbox.entries) {
+            if (entry.route === "/api/scans" && entry.body.session_id === sessionId) {
+                const text = String(entry.body.text);
+                map.set(text, (map.get(text) ?? 0) + 1);
+            }
+        }
+        return map;
+    }, [outbox.entries, sessionId]);
+    const { operator } = useOperator();
+    // Correcting or deleting recorded data is limited to supervisors (enforced by RLS)
+    const canEdit = hasRole(operator, "supervisor");
 
-    const allowedPrefixes = useCallback(() =>
-        prefixText.split(",").map(p => p.trim()).filter(Boolean), [prefixText]);
+    const allowedPrefixes = useMemo(() => parsePrefixList(prefixText), [prefixText]);
 
-    const shouldInclude = useCallback((text: string) => {
-        const p = allowedPrefixes();
-        if (p.length === 0) return true;
-        return p.some(pref => text.startsWith(pref));
-    }, [allowedPrefixes]);
+    const shouldInclude = useCallback((text: string) => matchesPrefix(text, allowedPrefixes), [allowedPrefixes]);
 
-    const addItem = useCallback(async (text: string) => {
+    const addItem = useCallback(async (text: string, source: ScanSource = "scanner", manualReason: string | null = null) => {
         const normalized = normalizeBarcode(text);
+        if (!sessionId) {
+            setStatus(`Save failed: no active session (${normalized})`);
+            return;
+        }
         if (!shouldInclude(normalized)) return;
-        if (seenRef.current.has(normalized)) return;
-        seenRef.current.add(normalized);
-        
-        // Fast path: local cache lookup (no network)
-        const exists = expectedCacheRef.current.has(normalized);
-        const isMatched = exists;
-        
-        // Update UI immediately
-        if (exists) {
-            setMatched(prev => [...prev, { text: normalized }]);
-            setStatus(`Matched: ${normalized}`);
+        const repeat = seenRef.current.has(normalized);
+        if (repeat) {
+            // Listed on several cases and partly scanned: count one more label
+            setStatus(`Counted: ${normalized}`);
         } else {
-            setUnmatched(prev => [...prev, { text: normalized }]);
-            setStatus(`Unmatched: ${normalized}`);
+            seenRef.current.add(normalized);
+            
+            // Fast path: local cache lookup (no network); the server decides matched and the row echoes back
+            if (expectedCacheRef.current.has(normalized)) {
+                setMatched(prev => [...prev, { text: normalized }]);
+                setStatus(`Matched: ${normalized}`);
+            } else {
+                setUnmatched(prev => [...prev, { text: normalized }]);
+                setStatus(`Unmatched: ${normalized}`);
+            }
         }
         
-        // Save to DB immediately on add (same as scan)
+        // Same write as SCAN: queued in the outbox and posted to /api/scans, which checks the
+        // format and the manual reason; the scan id lets it be undone like a PDA scan
         try {
-            const payload = [{
+            const scanId = crypto.randomUUID();
+            await enqueueWrite("/api/scans", {
+                session_id: sessionId,
                 text: normalized,
-                prefixes: prefixText,
-                matched: isMatched
-            }];
-            
-            await supabase
-                .from("mo_scan_items")
-                .upsert(payload, { onConflict: "text" });
-            
-            hasUnsavedData.current = false; // Mark as saved
+                profile_id: profile.id,
+                scan_id: scanId,
+                source,
+                manual_reason: manualReason,
+                location,
+                scanned_at: new Date().toISOString(),
+            });
+            pushUndo(`스캔 ${normalized}`, { kind: "scan", session_id: sessionId, text: normalized, scan_id: scanId });
+            setOrigins(prev => {
+                const current = prev.get(normalized);
+                const merged = mergeSource(current?.source, source);
+                if (current && merged === current.source) return prev;
+                return new Map(prev).set(normalized, { source: merged, reason: manualReason });
+            });
         } catch (e) {
             const msg = e instanceof Error ? e.message : String(e);
             setStatus(`Save failed: ${msg}`);
-            hasUnsavedData.current = true; // Mark as unsaved on error
         }
-    }, [prefixText, shouldInclude]);
+    }, [sessionId, shouldInclude, profile.id, location]);
+
+    // The search field doubles as scanner input: a scanner burst records a scan (or sets the
+    // location, for a location label), typed digits stay in the field as the search query
+    const handleScan = useCallback((event: ScanEvent) => {
+        const scannedLocation = parseLocationLabel(event.text);
+        if (scannedLocation) {
+            setLocation(scannedLocation);
+            setStatus(`Location: ${scannedLocation}`);
+            return;
+        }
+        void addItem(event.text, "scanner");
+    }, [addItem, setLocation]);
+    const scanner = useScannerInput(handleScan, { submitTyped: false, keepFocus: false });
+    const searchQuery = scanner.value;
+    const setSearchQuery = scanner.setValue;
 
     // Load expected cache from DB once (and provide a manual refresh)
     const loadExpectedCache = useCallback(async () => {
+        if (!manifestId) {
+            expectedCacheRef.current = new Set();
+            setExpectedList([]);
+            setExpectedCounts(new Map());
+            return;
+        }
         try {
-            const { data, error } = await supabase.from("mo_ocr_results").select("text");
-            if (error) throw error;
+            const data = await fetchAllRows<{ id: number; text: string; expected_count: number }>(
+                "mo_ocr_results", "text, expected_count", { manifest_id: manifestId }, setExpectedProgress,
+            );
             const set = new Set<string>();
             const list: string[] = [];
-            for (const r of data ?? []) {
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const normalized = normalizeBarcode((r as any).text);
+            const counts = new Map<string, number>();
+            for (const r of data) {
+                const normalized = normalizeBarcode(r.text);
                 if (shouldInclude(normalized)) {
                     set.add(normalized);
                     list.push(normalized);
+                    counts.set(normalized, (counts.get(normalized) ?? 0) + (r.expected_count ?? 1));
                 }
             }
             expectedCacheRef.current = set;
             setExpectedList(list.sort());
+            setExpectedCounts(counts);
             setStatus(`Expected list loaded: ${set.size}`);
         } catch (e) {
             const msg = e instanceof Error ? e.message : String(e);
             setStatus(`Load expected failed: ${msg}`);
+        } finally {
+            setExpectedProgress(null);
         }
-    }, [shouldInclude]);
+    }, [manifestId, shouldInclude]);
 
     useEffect(() => { void loadExpectedCache(); }, [loadExpectedCache]);
 
     // Load scanned items from database on page load
     const loadScannedItems = useCallback(async () => {
+        seenRef.current = new Set();
+        if (!sessionId) {
+            setMatched([]);
+            setUnmatched([]);
+            setScanCounts(new Map());
+            setOrigins(new Map());
+            return;
+        }
         try {
-            // Load all items and filter by prefix client-side (to handle "1M", "2M", "1M,2M" formats)
-            const { data, error } = await supabase
-                .from("mo_scan_items")
-                .select("text, matched, prefixes");
-            
-            if (error) throw error;
+            // Load the session's items and filter by prefix client-side (to handle "1M", "2M", "1M,2M" formats)
+            const data = await fetchAllRows<{ id: number; text: string; matched: boolean; scan_count: number; prefixes: string | null; source: string; manual_reason: string | null }>(
+                "mo_scan_items", "text, matched, scan_count, prefixes, source, manual_reason", { session_id: sessionId },
+            );
             
             const loadedMatched: ScanItem[] = [];
             const loadedUnmatched: ScanItem[] = [];
-            const allowedPrefixesList = allowedPrefixes();
+            const loadedCounts = new Map<string, number>();
+            const loadedOrigins = new Map<string, ScanOrigin>();
             
-            for (const item of data ?? []) {
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const normalized = normalizeBarcode((item as any).text);
+            for (const item of data) {
+                const normalized = normalizeBarcode(item.text);
                 if (!shouldInclude(normalized)) continue;
                 
                 // Check if the item's prefix matches our allowed prefixes
                 // Item can have "1M", "2M", or "1M,2M" as prefix
-                const itemPrefix = String((item as any).prefixes || "");
+                const itemPrefix = String(item.prefixes || "");
                 const itemPrefixes = itemPrefix.split(",").map((p: string) => p.trim());
-                const hasMatchingPrefix = allowedPrefixesList.length === 0 || 
-                    allowedPrefixesList.some(allowed => 
+                const hasMatchingPrefix = allowedPrefixes.length === 0 || 
+                    allowedPrefixes.some(allowed => 
                         itemPrefixes.some(item => item === allowed) || itemPrefix === prefixText
                     );
                 
                 if (!hasMatchingPrefix) continue;
                 
                 seenRef.current.add(normalized);
+                loadedCounts.set(normalized, item.scan_count ?? 1);
+                if (isScanSource(item.source)) loadedOrigins.set(normalized, { source: item.source, reason: item.manual_reason });
                 
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                if ((item as any).matched) {
+                if (item.matched) {
                     loadedMatched.push({ text: normalized });
                 } else {
                     loadedUnmatched.push({ text: normalized });
                 }
             }
+
+            // Scans still waiting in the outbox are not in the DB yet; their counts come from queuedCounts
+            for (const entry of await listOutbox()) {
+                if (entry.route !== "/api/scans" || entry.body.session_id !== sessionId) continue;
+                const normalized = String(entry.body.text);
+                if (seenRef.current.has(normalized) || !shouldInclude(normalized)) continue;
+                seenRef.current.add(normalized);
+                if (expectedCacheRef.current.has(normalized)) loadedMatched.push({ text: normalized });
+                else loadedUnmatched.push({ text: normalized });
+                const source = isScanSource(entry.body.source) ? entry.body.source : "scanner";
+                loadedOrigins.set(normalized, { source, reason: (entry.body.manual_reason as string | null) ?? null });
+            }
             
             setMatched(loadedMatched);
             setUnmatched(loadedUnmatched);
+            setScanCounts(loadedCounts);
+            setOrigins(loadedOrigins);
             setStatus(`Loaded ${loadedMatched.length + loadedUnmatched.length} scanned items from DB`);
         } catch (e) {
             const msg = e instanceof Error ? e.message : String(e);
             console.error("Load scanned items failed:", msg);
         }
-    }, [prefixText, shouldInclude]);
+    }, [prefixText, sessionId, allowedPrefixes, shouldInclude]);
 
-    // Load scanned items on mount and when prefixText changes
+    // Load scanned items on mount and when prefixText or the session changes
     useEffect(() => { 
         void loadScannedItems(); 
     }, [loadScannedItems]);
 
-    const uploadBatch = useCallback(async () => {
-        const items = [...matched, ...unmatched];
-        if (items.length === 0) return;
-        setUploading(true);
-        try {
-            // Save items into mo_scan_items with matched flag
-            const seen = new Set<string>();
-            const payload = items.filter(i => {
-                if (seen.has(i.text)) return false;
-                seen.add(i.text);
-                return true;
-            }).map(i => ({ text: i.text, prefixes: prefixText, matched: matched.some(m => m.text === i.text) }));
+    // Floor 1 scans the same session on another PDA; its scans arrive live.
+    // UPDATE can flip matched, so the code is moved to the list the server says; repeat scans update scan_count.
+    const applyScanChange = useCallback((change: TableChange<{ text: string; matched: boolean; scan_count: number; source: string; manual_reason: string | null }>) => {
+        if (change.eventType === "DELETE" || change.eventType === "RESYNC") {
+            void loadScannedItems();
+            return;
+        }
+        const normalized = normalizeBarcode(change.row.text);
+        if (!shouldInclude(normalized)) return;
+        seenRef.current.add(normalized);
+        setScanCounts(prev => new Map(prev).set(normalized, change.row.scan_count ?? 1));
+        const source = change.row.source;
+        if (isScanSource(source)) setOrigins(prev => new Map(prev).set(normalized, { source, reason: change.row.manual_reason }));
+        setMatched(prev => placeItem(prev, normalized, change.row.matched));
+        setUnmatched(prev => placeItem(prev, normalized, !change.row.matched));
+    }, [loadScannedItems, shouldInclude]);
+    const scanSync = useTableChanges("mo_scan_items", sessionId ? `session_id=eq.${sessionId}` : null, applyScanChange);
 
-            const { error } = await supabase
-                .from("mo_scan_items")
-                .upsert(payload, { onConflict: "text" });
-            if (error) throw error;
-            setStatus(`Saved ${payload.length} items to DB`);
-            hasUnsavedData.current = false; // Mark as saved
-            // Keep UI lists - don't clear so counts remain visible
-        } catch (e) {
-            const msg = e instanceof Error ? e.message : String(e);
-            setStatus(`Upload failed: ${msg}`);
-        } finally {
-            setUploading(false);
+    // Expected codes added or corrected from another device
+    const applyExpectedChange = useCallback((change: TableChange<{ text: string; expected_count: number }>) => {
+        if (change.eventType !== "INSERT") {
+            void loadExpectedCache();
+            return;
         }
-    }, [matched, unmatched, prefixText]);
+        const normalized = normalizeBarcode(change.row.text);
+        if (!shouldInclude(normalized) || expectedCacheRef.current.has(normalized)) return;
+        expectedCacheRef.current.add(normalized);
+        setExpectedList(prev => [...prev, normalized].sort());
+        setExpectedCounts(prev => new Map(prev).set(normalized, change.row.expected_count ?? 1));
+    }, [loadExpectedCache, shouldInclude]);
+    const expectedSync = useTableChanges("mo_ocr_results", manifestId ? `manifest_id=eq.${manifestId}` : null, applyExpectedChange);
 
     const clearList = useCallback(() => {
         seenRef.current.clear();
         setMatched([]);
         setUnmatched([]);
+        setScanCounts(new Map());
+        setOrigins(new Map());
         setSearchQuery("");
         setStatus("");
-        hasUnsavedData.current = false;
-    }, []);
-
-    // Auto-save function (reusable)
-    const autoSaveData = useCallback(async () => {
-        if (!hasUnsavedData.current) return;
-        const items = [...matched, ...unmatched];
-        if (items.length === 0) return;
-        
-        try {
-            const seen = new Set<string>();
-            const payload = items.filter(i => {
-                if (seen.has(i.text)) return false;
-                seen.add(i.text);
-                return true;
-            }).map(i => ({ text: i.text, prefixes: prefixText, matched: matched.some(m => m.text === i.text) }));
-
-            await supabase
-                .from("mo_scan_items")
-                .upsert(payload, { onConflict: "text" });
-            hasUnsavedData.current = false;
-            // Don't show status message for auto-save to avoid UI spam
-            // Status will only show on manual save or errors
-        } catch (e) {
-            console.error("Auto-save failed:", e);
-        }
-    }, [matched, unmatched, prefixText]);
-
-    // Periodic auto-save (every 5 seconds if there's unsaved data)
-    useEffect(() => {
-        if (!hasUnsavedData.current) return;
-        
-        const interval = setInterval(() => {
-            if (hasUnsavedData.current && (matched.length > 0 || unmatched.length > 0)) {
-                autoSaveData();
-            }
-        }, 5000); // Auto-save every 5 seconds
-        
-        return () => clearInterval(interval);
-    }, [matched, unmatched, autoSaveData]);
+    }, [setSearchQuery]);
 
-    // Auto-save when navigating away from search page
-    useEffect(() => {
-        // Save when pathname changes away from /search
-        if (pathname !== "/search" && hasUnsavedData.current && (matched.length > 0 || unmatched.length > 0)) {
-            autoSaveData();
-        }
-    }, [pathname, matched, unmatched, autoSaveData]);
+    // Same reconciliation as MATCH and SCAN, with similarity ranked by this profile's confusion model
+    const result = useMemo(() => reconcile(
+        expectedList.map(text => ({ text, count: expectedCounts.get(text) ?? 1 })),
+        [...matched, ...unmatched].map(it => ({ text: it.text, count: ((scanCounts.get(it.text) ?? 0) + (queuedCounts.get(it.text) ?? 0)) || 1 })),
+        { similarity: { cost: confusionCost, limit: 10 } },
+    ), [expectedList, expectedCounts, matched, unmatched, scanCounts, queuedCounts, confusionCost]);
 
-    // Calculate missing items (expected but not scanned yet)
-    const missing = expectedList.filter(text => !seenRef.current.has(text));
-
-    // Calculate similarity between two barcodes
-    // Returns object with similarity score and match details
-    // Handles cases where length differs (OCR errors)
-    const calculateSimilarity = useCallback((text1: string, text2: string): { score: number; details: string } | null => {
-        const t1 = text1.toUpperCase();
-        const t2 = text2.toUpperCase();
-        
-        // Extract numeric parts (after prefix)
-        const num1 = t1.replace(/^[A-Z]+/, '');
-        const num2 = t2.replace(/^[A-Z]+/, '');
-        
-        // Normalize to same length for comparison (take shorter length or 14)
-        const targetLen = Math.min(num1.length, num2.length, 14);
-        const n1 = num1.slice(-targetLen); // Take last N digits
-        const n2 = num2.slice(-targetLen); // Take last N digits
-        
-        // Check if last 3-4 digits match (most common OCR error pattern)
-        const checkLen = Math.min(4, targetLen);
-        if (checkLen >= 3) {
-            const last1 = n1.slice(-checkLen);
-            const last2 = n2.slice(-checkLen);
-            if (last1 === last2) {
-                // Last digits match - check how similar the rest is
-                const prefix1 = n1.slice(0, -checkLen);
-                const prefix2 = n2.slice(0, -checkLen);
-                
-                // Count differences in prefix
-                let diff = 0;
-                const maxLen = Math.max(prefix1.length, prefix2.length);
-                const minLen = Math.min(prefix1.length, prefix2.length);
-                
-                for (let i = 0; i < minLen; i++) {
-                    if (prefix1[i] !== prefix2[i]) diff++;
-                }
-                diff += Math.abs(prefix1.length - prefix2.length);
-                
-                // If only 1-3 digits differ, consider it similar
-                if (diff <= 3 && maxLen > 0) {
-                    const score = Math.max(0.7, 1.0 - (diff / Math.max(maxLen, 1)));
-                    const lenDiff = Math.abs(num1.length - num2.length);
-                    const lenInfo = lenDiff > 0 ? ` (자리수 차이: ${lenDiff})` : '';
-                    return {
-                        score: score,
-                        details: `끝 ${checkLen}자리 일치, 앞부분 ${diff}자리 차이${lenInfo}`
-                    };
-                } else if (diff <= 1) {
-                    const lenDiff = Math.abs(num1.length - num2.length);
-                    const lenInfo = lenDiff > 0 ? ` (자리수 차이: ${lenDiff})` : '';
-                    return {
-                        score: 0.9,
-                        details: `끝 ${checkLen}자리 일치, 앞부분 1자리 차이${lenInfo}`
-                    };
-                }
-            }
-        }
-        
-        // Check if same length (after normalization) and only 1-3 digits differ
-        if (n1.length === n2.length && n1.length > 0) {
-            let diff = 0;
-            for (let i = 0; i < n1.length; i++) {
-                if (n1[i] !== n2[i]) diff++;
-            }
-            if (diff <= 3 && diff > 0) {
-                const lenDiff = Math.abs(num1.length - num2.length);
-                const lenInfo = lenDiff > 0 ? ` (자리수 차이: ${lenDiff})` : '';
-                return {
-                    score: Math.max(0.7, 1.0 - (diff / n1.length)),
-                    details: `길이 같음, ${diff}자리 차이${lenInfo}`
-                };
-            }
-        }
-        
-        // Check if one is substring of the other (OCR might have extra/missing digits)
-        if (num1.length !== num2.length) {
-            const shorter = num1.length < num2.length ? num1 : num2;
-            const longer = num1.length < num2.length ? num2 : num1;
-            
-            // Check if shorter is contained in longer (with some tolerance)
-            if (longer.includes(shorter) || shorter.length >= 10) {
-                // Check how many digits match when aligned
-                let maxMatches = 0;
-                for (let offset = 0; offset <= longer.length - shorter.length; offset++) {
-                    let matches = 0;
-                    for (let i = 0; i < shorter.length; i++) {
-                        if (shorter[i] === longer[offset + i]) matches++;
-                    }
-                    maxMatches = Math.max(maxMatches, matches);
-                }
-                
-                const similarity = maxMatches / shorter.length;
-                if (similarity >= 0.85) {
-                    const lenDiff = Math.abs(num1.length - num2.length);
-                    return {
-                        score: similarity,
-                        details: `부분 일치 (${maxMatches}/${shorter.length}자리), 자리수 차이: ${lenDiff}`
-                    };
-                }
-            }
-        }
-        
-        return null;
-    }, []);
+    // Expected codes not scanned at all; partly scanned ones stay in the list but are not deleted in bulk
+    const missing = useMemo(() => result.missing.filter(line => line.reason === "not_scanned").map(line => line.text), [result]);
 
     // Find similar pairs between missing (OCR) and unmatched (barcode scan - accurate)
     // unmatched is the accurate barcode scan, missing is OCR which might be wrong
-    // Find all possible matches between unmatched and missing items
-    const similarPairs = useMemo(() => {
-        if (missing.length === 0 || unmatched.length === 0) {
-            return [];
-        }
-        
-        const pairs: Array<{
-            missing: string;
-            unmatched: string;
-            similarity: number;
-            details: string;
-        }> = [];
-        
-        // For each unmatched item, find the most similar missing item
-        for (const unmatchedItem of unmatched) {
-            let bestMatch: { missing: string; similarity: number; details: string } | null = null;
-            
-            for (const missingItem of missing) {
-                const result = calculateSimilarity(missingItem, unmatchedItem.text);
-                if (result && result.score >= 0.7) {
-                    if (!bestMatch || result.score > bestMatch.similarity) {
-                        bestMatch = {
-                            missing: missingItem,
-                            similarity: result.score,
-                            details: result.details
-                        };
-                    }
-                }
-            }
-            
-            if (bestMatch) {
-                pairs.push({
-                    missing: bestMatch.missing,
-                    unmatched: unmatchedItem.text,
-                    similarity: bestMatch.similarity,
-                    details: bestMatch.details
-                });
-            }
-        }
-        
-        // Sort by similarity score (highest first)
-        return pairs.sort((a, b) => b.similarity - a.similarity);
-    }, [missing, unmatched, calculateSimilarity]);
+    // One pair per unmatched item: the most similar expected code still short of its count
+    const similarPairs = useMemo(() => result.probable.map(p => ({
+        missing: p.expected,
+        unmatched: p.scanned,
+        similarity: p.score,
+        details: p.details,
+    })), [result]);
 
     // For each unmatched, find similar OCR results across the *entire* expected list
     // - 이미 스캔된 것(Scanned)과 아직 스캔 안 된 것(Missing)으로 나눠서 보여준다.
     // - 단순 참고용으로만 화면에 표시하고, 실제 DB 변경은 하지 않는다.
     const closestExpectedPairs = useMemo(() => {
-        if (expectedList.length === 0 || unmatched.length === 0) {
-            return [];
-        }
-
-        const missingSet = new Set(missing);
-
-        const pairs: Array<{
-            unmatched: string;
-            scannedCandidates: Array<{
-                expected: string;
-                similarity: number;
-                details: string;
-            }>;
-            missingCandidates: Array<{
-                expected: string;
-                similarity: number;
-                details: string;
-            }>;
-        }> = [];
-
-        for (const unmatchedItem of unmatched) {
-            const scannedCandidates: Array<{
-                expected: string;
-                similarity: number;
-                details: string;
-            }> = [];
-            const missingCandidates: Array<{
-                expected: string;
-                similarity: number;
-                details: string;
-            }> = [];
-
-            for (const expectedText of expectedList) {
-                const result = calculateSimilarity(expectedText, unmatchedItem.text);
-                if (!result) continue;
-
-                // 일정 수준(0.7 이상) 이상일 때만 후보로 본다
-                if (result.score >= 0.7) {
-                    const targetArray = missingSet.has(expectedText)
-                        ? missingCandidates
-                        : scannedCandidates;
-                    targetArray.push({
-                        expected: expectedText,
-                        similarity: result.score,
-                        details: result.details,
-                    });
-                }
-            }
-
-            if (scannedCandidates.length === 0 && missingCandidates.length === 0) continue;
-
-            // 각 그룹별로 유사도 높은 순 정렬 후 상위 N개만 남긴다.
-            const topN = 5;
-            scannedCandidates.sort((a, b) => b.similarity - a.similarity);
-            missingCandidates.sort((a, b) => b.similarity - a.similarity);
-
-            pairs.push({
-                unmatched: unmatchedItem.text,
-                scannedCandidates: scannedCandidates.slice(0, topN),
-                missingCandidates: missingCandidates.slice(0, topN),
-            });
-        }
+        const topN = 5;
+        const pairs = [...result.candidates].map(([text, candidates]) => {
+            const toPair = (c: { expected: string; score: number; details: string }) => ({ expected: c.expected, similarity: c.score, details: c.details });
+            return {
+                unmatched: text,
+                scannedCandidates: candidates.filter(c => !c.missing).slice(0, topN).map(toPair),
+                missingCandidates: candidates.filter(c => c.missing).slice(0, topN).map(toPair),
+            };
+        });
 
         // 그룹 정렬 기준: 스캔된 후보 중 최고 유사도 → 없으면 미싱 후보 중 최고 유사도
         return pairs.sort((a, b) => {
@@ -459,80 +338,84 @@ export default function SearchPage() {
             const bBest = b.scannedCandidates[0]?.similarity ?? b.missingCandidates[0]?.similarity ?? 0;
             return bBest - aBest;
         });
-    }, [unmatched, expectedList, missing, calculateSimilarity]);
-
-    // Normalize barcode to target length (default 14)
-    // If longer, take first N characters; if shorter, pad or take as-is
-    const normalizeToLength = useCallback((text: string, targetLen: number = 14): string => {
-        const normalized = normalizeBarcode(text);
-        if (normalized.length === targetLen) return normalized;
-        
-        // Extract prefix (letters) and numbers
-        const prefixMatch = normalized.match(/^([A-Z]+)/);
-        const prefix = prefixMatch ? prefixMatch[1] : '';
-        const numbers = normalized.replace(/^[A-Z]+/, '');
-        
-        if (numbers.length > targetLen - prefix.length) {
-            // Too long: take first N digits
-            const targetNumbers = numbers.slice(0, targetLen - prefix.length);
-            return prefix + targetNumbers;
-        } else if (numbers.length < targetLen - prefix.length) {
-            // Too short: keep as-is (don't pad, as we don't know what to pad with)
-            return normalized;
-        }
-        
-        return normalized;
-    }, []);
+    }, [result]);
 
     // Handle matching similar items
     // unmatchedText (barcode scan) is accurate, missingText (OCR) is wrong
     // Update mo_ocr_results to replace OCR value with barcode scan value
     const handleMatchSimilar = useCallback(async (missingText: string, unmatchedText: string) => {
+        if (!canEdit) {
+            setStatus(roleRequiredMessage("supervisor"));
+            return;
+        }
+        if (!sessionId || !manifestId) {
+            setStatus("매칭 실패: 활성 세션 또는 예상 목록이 없습니다.");
+            return;
+        }
         try {
-            // Normalize unmatchedText to 14 characters if needed (barcode scan is accurate)
-            const normalizedUnmatched = normalizeToLength(unmatchedText, 14);
+            // Normalize unmatchedText to the profile length if needed (barcode scan is accurate)
+            const normalizedUnmatched = spec.length ? normalizeToLength(unmatchedText, spec.length.max) : normalizeBarcode(unmatchedText);
+            const before = await snapshotRows([
+                { table: "mo_ocr_results", scopeId: manifestId, texts: [missingText, normalizedUnmatched] },
+                { table: "mo_scan_items", scopeId: sessionId, texts: [unmatchedText, normalizedUnmatched] },
+            ]);
             
-            // Update mo_ocr_results: replace OCR value (missingText) with barcode scan value (normalizedUnmatched)
-            // First, delete the old OCR value
-            await supabase
-                .from("mo_ocr_results")
-                .delete()
-                .eq("text", missingText);
+            const rewritten = normalizeBarcode(unmatchedText) !== normalizedUnmatched;
+            // A write that fails part way can still be undone
+            try {
+                // Update mo_ocr_results: replace OCR value (missingText) with barcode scan value (normalizedUnmatched)
+                // First, delete the old OCR value
+                const { error: deleteError } = await supabase
+                    .from("mo_ocr_results")
+                    .delete()
+                    .eq("manifest_id", manifestId)
+                    .eq("text", missingText);
+                if (deleteError) throw deleteError;
             
-            // Then, insert the normalized barcode scan value as the correct OCR result
-            await supabase
-                .from("mo_ocr_results")
-                .upsert([{
-                    text: normalizedUnmatched,
-                    prefixes: prefixText,
-                    confidence: 0
-                }], { onConflict: "text" });
+                // Then, insert the normalized barcode scan value as the correct OCR result
+                const { error: ocrError } = await supabase
+                    .from("mo_ocr_results")
+                    .upsert([{
+                        manifest_id: manifestId,
+                        text: normalizedUnmatched,
+                        prefixes: prefixText,
+                        confidence: 0,
+                        expected_count: expectedCounts.get(missingText) ?? 1
+                    }], { onConflict: "manifest_id,text" });
+                if (ocrError) throw ocrError;
             
-            // If the original unmatchedText was different from normalized, update it in scan_items too
-            if (normalizeBarcode(unmatchedText) !== normalizedUnmatched) {
-                // Delete old unmatched item (text is unique, so no prefix filter needed)
-                await supabase
-                    .from("mo_scan_items")
-                    .delete()
-                    .eq("text", unmatchedText);
+                // If the original unmatchedText was different from normalized, update it in scan_items too
+                if (rewritten) {
+                    // Delete old unmatched item (text is unique per session, so no prefix filter needed)
+                    const { error: scanDeleteError } = await supabase
+                        .from("mo_scan_items")
+                        .delete()
+                        .eq("session_id", sessionId)
+                        .eq("text", unmatchedText);
+                    if (scanDeleteError) throw scanDeleteError;
                 
-                // Remove from UI
-                setUnmatched(prev => prev.filter(item => item.text !== unmatchedText));
-                seenRef.current.delete(unmatchedText);
-            } else {
-                // Just update the matched flag
-                await supabase
+                    seenRef.current.delete(unmatchedText);
+                }
+
+                // The scan item now counts as matched. A rewritten code was never read as such,
+                // so it is recorded as a similarity match; otherwise the scan keeps its source.
+                const { error: scanError } = await supabase
                     .from("mo_scan_items")
                     .upsert([{
+                        session_id: sessionId,
                         text: normalizedUnmatched,
                         prefixes: prefixText,
-                        matched: true
-                    }], { onConflict: "text" });
-                
-                // Remove from unmatched list
-                setUnmatched(prev => prev.filter(item => item.text !== unmatchedText));
+                        matched: true,
+                        ...(rewritten ? { source: "similarity" } : {})
+                    }], { onConflict: "session_id,text" });
+                if (scanError) throw scanError;
+            } finally {
+                pushUndo(`매칭 ${missingText} → ${normalizedUnmatched}`, { kind: "rows", snapshots: before });
             }
             
+            // Remove from unmatched list
+            setUnmatched(prev => prev.filter(item => item.text !== unmatchedText));
+            
             // Add to matched (use normalized version)
             setMatched(prev => {
                 if (prev.some(m => m.text === normalizedUnmatched)) {
@@ -543,14 +426,17 @@ export default function SearchPage() {
             
             // Update seenRef
             seenRef.current.add(normalizedUnmatched);
-            
+
+            // Teach the confusion model; a failed write only costs the lesson, not the match
+            recordCorrections("search", [{ ocr_text: missingText, corrected_text: normalizedUnmatched }]).catch(() => undefined);
+
             // Reload expected cache to reflect the change (this updates expectedList)
             await loadExpectedCache();
             
             // Reload scanned items from DB to ensure UI is in sync with DB
             await loadScannedItems();
             
-            const lenInfo = normalizeBarcode(unmatchedText) !== normalizedUnmatched 
+            const lenInfo = rewritten
                 ? ` (${unmatchedText} → ${normalizedUnmatched}로 정규화됨)`
                 : '';
             setStatus(`매칭 완료: OCR "${missingText}" → 바코드 "${normalizedUnmatched}"로 업데이트됨${lenInfo}`);
@@ -559,16 +445,17 @@ export default function SearchPage() {
             const msg = e instanceof Error ? e.message : String(e);
             setStatus(`매칭 실패: ${msg}`);
         }
-    }, [prefixText, loadExpectedCache, loadScannedItems, normalizeToLength]);
+    }, [prefixText, sessionId, manifestId, loadExpectedCache, loadScannedItems, spec, canEdit, recordCorrections, expectedCounts, setSearchQuery]);
 
     // Create unified list with proper ordering:
     // 1. Unmatched (orange) - always on top
-    // 2. Missing (gray) - not scanned yet
+    // 2. Missing (gray) - not scanned yet, or fewer labels than listed
     // 3. Matched (green) - scanned and matched, move to bottom
     const unifiedList = useMemo(() => {
-        const unmatchedItems = unmatched.map(it => ({ text: it.text, status: 'unmatched' as const }));
-        const missingItems = missing.map(text => ({ text, status: 'missing' as const }));
-        const matchedItems = matched.map(it => ({ text: it.text, status: 'matched' as const }));
+        const item = <S extends 'unmatched' | 'missing' | 'matched'>(line: ReconcileLine, status: S) => ({ text: line.text, status, line });
+        const unmatchedItems = result.unexpected.map(line => item(line, 'unmatched'));
+        const missingItems = result.missing.map(line => item(line, 'missing'));
+        const matchedItems = result.matched.map(line => item(line, 'matched'));
         
         // Order: Unmatched first, then Missing, then Matched
         let list = [...unmatchedItems, ...missingItems, ...matchedItems];
@@ -587,14 +474,22 @@ export default function SearchPage() {
         }
         
         return list;
-    }, [unmatched, missing, matched, searchQuery]);
+    }, [result, searchQuery]);
 
     // Handle adding item from list
     const handleAddItem = useCallback(async (text: string, status: 'unmatched' | 'missing' | 'matched') => {
         // Only process missing items (expected but not scanned) and unmatched items
         if (status === 'missing') {
-            // 이미 OCR 결과(mo_ocr_results)에 존재하지만 스캔되지 않은 값 -> 스캔만 추가
-            await addItem(text); // addItem now saves to DB immediately
+            // 이미 OCR 결과(mo_ocr_results)에 존재하지만 스캔되지 않은 값 -> 스캔만 추가 (수동 추가로 기록)
+            let reason: string | null = null;
+            if (profile.manualReasonRequired) {
+                reason = window.prompt(`수동 추가 사유 (${text})`)?.trim() || null;
+                if (!reason) {
+                    setStatus(`수동 추가 취소: ${text} (사유 필요)`);
+                    return;
+                }
+            }
+            await addItem(text, "manual", reason); // addItem now saves to DB immediately
             setSearchQuery(""); // Clear search query after adding item
             return;
         }
@@ -606,25 +501,34 @@ export default function SearchPage() {
             try {
                 const normalized = normalizeBarcode(text);
 
-                // 1) mo_ocr_results에 추가 (이미 있으면 무시)
+                // 1) 세션의 예상 목록(mo_ocr_results)에 추가 (이미 있으면 무시)
+                if (!manifestId) throw new Error("세션에 연결된 예상 목록이 없습니다.");
+                if (!sessionId) throw new Error("활성 세션이 없습니다.");
+                const before = await snapshotRows([
+                    { table: "mo_ocr_results", scopeId: manifestId, texts: [normalized] },
+                    { table: "mo_scan_items", scopeId: sessionId, texts: [normalized] },
+                ]);
                 const { error: ocrError } = await supabase
                     .from("mo_ocr_results")
                     .upsert([{
+                        manifest_id: manifestId,
                         text: normalized,
                         prefixes: prefixText,
                         confidence: 0,
-                    }], { onConflict: "text" });
+                    }], { onConflict: "manifest_id,text", ignoreDuplicates: true });
                 if (ocrError) throw ocrError;
 
                 // 2) mo_scan_items에서 해당 항목을 matched=true 로 업데이트
                 const { error: scanError } = await supabase
                     .from("mo_scan_items")
                     .upsert([{
+                        session_id: sessionId,
                         text: normalized,
                         prefixes: prefixText,
                         matched: true,
-                    }], { onConflict: "text" });
+                    }], { onConflict: "session_id,text" });
                 if (scanError) throw scanError;
+                pushUndo(`OCR 추가 ${normalized}`, { kind: "rows", snapshots: before });
 
                 // 3) 로컬 상태 업데이트: unmatched 목록에서 제거하고 matched로 이동
                 setUnmatched(prev => prev.filter(item => item.text !== text));
@@ -643,18 +547,27 @@ export default function SearchPage() {
                 setStatus(`추가 실패: ${msg}`);
             }
         }
-    }, [addItem, prefixText, loadExpectedCache]);
+    }, [addItem, prefixText, sessionId, manifestId, loadExpectedCache, profile.manualReasonRequired, setSearchQuery]);
 
     // Handle deleting unmatched item
     const handleDeleteItem = useCallback(async (text: string) => {
+        if (!canEdit) {
+            setStatus(roleRequiredMessage("supervisor"));
+            return;
+        }
         if (!confirm(`"${text}" 항목을 삭제하시겠습니까?`)) return;
         
         try {
-            // Delete from database (text is unique, so no prefix filter needed)
-            await supabase
+            // Delete from database (text is unique per session, so no prefix filter needed)
+            if (!sessionId) throw new Error("활성 세션이 없습니다.");
+            const before = await snapshotRows([{ table: "mo_scan_items", scopeId: sessionId, texts: [text] }]);
+            const { error } = await supabase
                 .from("mo_scan_items")
                 .delete()
+                .eq("session_id", sessionId)
                 .eq("text", text);
+            if (error) throw error;
+            pushUndo(`삭제 ${text}`, { kind: "rows", snapshots: before });
             
             // Remove from UI
             setUnmatched(prev => prev.filter(item => item.text !== text));
@@ -665,18 +578,27 @@ export default function SearchPage() {
             const msg = e instanceof Error ? e.message : String(e);
             setStatus(`삭제 실패: ${msg}`);
         }
-    }, [prefixText]);
+    }, [sessionId, canEdit]);
 
     // Handle deleting missing (OCR) item
     const handleDeleteMissingItem = useCallback(async (text: string) => {
+        if (!canEdit) {
+            setStatus(roleRequiredMessage("supervisor"));
+            return;
+        }
         if (!confirm(`OCR 항목 "${text}"을(를) 삭제하시겠습니까?`)) return;
         
         try {
-            // Delete from mo_ocr_results
-            await supabase
+            // Delete from the session's expected list (mo_ocr_results)
+            if (!manifestId) throw new Error("세션에 연결된 예상 목록이 없습니다.");
+            const before = await snapshotRows([{ table: "mo_ocr_results", scopeId: manifestId, texts: [text] }]);
+            const { error } = await supabase
                 .from("mo_ocr_results")
                 .delete()
+                .eq("manifest_id", manifestId)
                 .eq("text", text);
+            if (error) throw error;
+            pushUndo(`OCR 삭제 ${text}`, { kind: "rows", snapshots: before });
             
             // Reload expected cache to reflect the change
             await loadExpectedCache();
@@ -686,10 +608,14 @@ export default function SearchPage() {
             const msg = e instanceof Error ? e.message : String(e);
             setStatus(`삭제 실패: ${msg}`);
         }
-    }, [loadExpectedCache]);
+    }, [manifestId, loadExpectedCache, canEdit]);
 
     // Handle deleting all missing (OCR) items
     const handleDeleteAllMissing = useCallback(async () => {
+        if (!canEdit) {
+            setStatus(roleRequiredMessage("supervisor"));
+            return;
+        }
         if (missing.length === 0) {
             setStatus("삭제할 OCR 항목이 없습니다.");
             return;
@@ -698,12 +624,22 @@ export default function SearchPage() {
         if (!confirm(`스캔되지 않은 OCR 항목 ${missing.length}개를 모두 삭제하시겠습니까? 이 작업은 되돌릴 수 없습니다.`)) return;
         
         try {
-            // Delete all missing items from mo_ocr_results
-            for (const text of missing) {
-                await supabase
-                    .from("mo_ocr_results")
-                    .delete()
-                    .eq("text", text);
+            // Delete all missing items from the session's expected list (mo_ocr_results)
+            if (!manifestId) throw new Error("세션에 연결된 예상 목록이 없습니다.");
+            // The snapshot is kept on the server, so the undo entry stays small however many codes go
+            const before = await snapshotRows([{ table: "mo_ocr_results", scopeId: manifestId, texts: missing }]);
+            // Codes go in the request URL, so delete a chunk at a time; a failed chunk can still be undone
+            try {
+                for (let i = 0; i < missing.length; i += DELETE_CHUNK) {
+                    const { error } = await supabase
+                        .from("mo_ocr_results")
+                        .delete()
+                        .eq("manifest_id", manifestId)
+                        .in("text", missing.slice(i, i + DELETE_CHUNK));
+                    if (error) throw error;
+                }
+            } finally {
+                pushUndo(`OCR ${missing.length}개 삭제`, { kind: "rows", snapshots: before });
             }
             
             // Reload expected cache to reflect the change
@@ -714,7 +650,7 @@ export default function SearchPage() {
             const msg = e instanceof Error ? e.message : String(e);
             setStatus(`삭제 실패: ${msg}`);
         }
-    }, [missing, loadExpectedCache]);
+    }, [missing, manifestId, loadExpectedCache, canEdit]);
 
     // Handle editing unmatched item
     const handleStartEdit = useCallback((text: string) => {
@@ -728,6 +664,10 @@ export default function SearchPage() {
     }, []);
 
     const handleSaveEdit = useCallback(async (oldText: string, newText: string) => {
+        if (!canEdit) {
+            setStatus(roleRequiredMessage("supervisor"));
+            return;
+        }
         const normalized = normalizeBarcode(newText);
         if (!normalized || normalized.length === 0) {
             setStatus("유효하지 않은 바코드입니다.");
@@ -751,29 +691,38 @@ export default function SearchPage() {
                 return;
             }
 
-            // Delete old item from database (text is unique, so no prefix filter needed)
-            await supabase
-                .from("mo_scan_items")
-                .delete()
-                .eq("text", oldText);
+            if (!sessionId) throw new Error("활성 세션이 없습니다.");
+            const before = await snapshotRows([{ table: "mo_scan_items", scopeId: sessionId, texts: [oldText, normalized] }]);
 
             // Check if new text matches expected
             const exists = expectedCacheRef.current.has(normalized);
             const isMatched = exists;
 
-            // Insert new item
-            await supabase
+            // Rename the row in place so its counts, scan ids, source, reason and location carry over
+            // (text is unique per session, so no prefix filter needed)
+            const { data: renamed, error } = await supabase
                 .from("mo_scan_items")
-                .upsert([{
-                    text: normalized,
-                    prefixes: prefixText,
-                    matched: isMatched
-                }], { onConflict: "text" });
+                .update({ text: normalized, matched: isMatched })
+                .eq("session_id", sessionId)
+                .eq("text", oldText)
+                .select("id");
+            if (error) throw error;
+            if (!renamed || renamed.length === 0) throw new Error(`"${oldText}" 항목을 찾을 수 없습니다.`);
+
+            pushUndo(`수정 ${oldText} → ${normalized}`, { kind: "rows", snapshots: before });
+
+            // The scanned value was corrected by hand: teach the confusion model like the other edits
+            recordCorrections("search", [{ ocr_text: oldText, corrected_text: normalized }]).catch(() => undefined);
 
             // Update UI
             setUnmatched(prev => prev.filter(item => item.text !== oldText));
             seenRef.current.delete(oldText);
             seenRef.current.add(normalized);
+            setScanCounts(prev => new Map(prev).set(normalized, prev.get(oldText) ?? 1));
+            setOrigins(prev => {
+                const origin = prev.get(oldText);
+                return origin ? new Map(prev).set(normalized, origin) : prev;
+            });
 
             if (isMatched) {
                 setMatched(prev => [...prev, { text: normalized }]);
@@ -788,11 +737,22 @@ export default function SearchPage() {
             const msg = e instanceof Error ? e.message : String(e);
             setStatus(`수정 실패: ${msg}`);
         }
-    }, [prefixText, shouldInclude, handleCancelEdit]);
+    }, [sessionId, shouldInclude, handleCancelEdit, canEdit, recordCorrections]);
+
+    // Rows put back by an undo: reload both lists
+    const handleUndone = useCallback((entry: UndoEntry) => {
+        void loadExpectedCache();
+        void loadScannedItems();
+        setStatus(`되돌림: ${entry.label}`);
+    }, [loadExpectedCache, loadScannedItems]);
 
     return (
 		<div className="w-full max-w-full mx-auto space-y-3 px-2 sm:px-4">
 			<h1 className="text-2xl sm:text-3xl font-semibold">검색 (2층)</h1>
+			<SessionBar sessionState={sessionState} compact />
+			<LocationBar />
+			<SyncIndicator sync={combineSync(scanSync, expectedSync)} />
+			<LoadProgressBar label="Expected" progress={expectedProgress} />
 			{status && (
 				<div className="rounded border bg-white p-3 text-sm sm:text-base text-gray-700">{status}</div>
 			)}
@@ -804,7 +764,7 @@ export default function SearchPage() {
 					<input
 						id="prefixes"
 						value={prefixText}
-						onChange={(e) => setPrefixText(e.target.value)}
+						onChange={(e) => setPrefixOverride(e.target.value)}
 						className="w-full sm:w-auto rounded border px-3 py-2.5 text-base sm:text-sm"
 					/>
 				</div>
@@ -812,7 +772,6 @@ export default function SearchPage() {
 				{/* Buttons - full width on mobile, wrapped - PDA touch-friendly */}
 				<div className="flex flex-wrap gap-2">
 					<button onClick={loadExpectedCache} className="flex-1 sm:flex-none rounded px-4 py-3 sm:py-2 text-base sm:text-sm bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800 touch-manipulation min-h-[44px]">Refresh expected</button>
-					<button onClick={uploadBatch} disabled={(matched.length+unmatched.length)===0 || uploading} className={`flex-1 sm:flex-none rounded px-4 py-3 sm:py-2 text-base sm:text-sm touch-manipulation min-h-[44px] ${(matched.length+unmatched.length)===0 || uploading ? "bg-gray-300 text-gray-500" : "bg-emerald-600 text-white hover:bg-emerald-700 active:bg-emerald-800"}`}>{uploading?"Saving...":"Save"}</button>
 					<button onClick={clearList} className="flex-1 sm:flex-none rounded px-4 py-3 sm:py-2 text-base sm:text-sm bg-gray-200 text-gray-800 hover:bg-gray-300 active:bg-gray-400 touch-manipulation min-h-[44px]">Clear list</button>
 				</div>
 			</div>
@@ -820,10 +779,8 @@ export default function SearchPage() {
             <div className="rounded border bg-white p-3 sm:p-4">
                 <label className="block text-base sm:text-sm text-gray-800 mb-2 font-semibold">검색 (끝 3자리)</label>
                 <input
-                    ref={searchInputRef}
+                    {...scanner.inputProps}
                     type="text"
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
                     className="w-full rounded border px-4 py-3 text-base font-mono text-gray-900 placeholder-gray-500 bg-blue-50 border-blue-300 focus:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-400"
                     placeholder="끝 3자리 입력..."
                     autoComplete="off"
@@ -1013,14 +970,16 @@ export default function SearchPage() {
                     <div className="flex flex-wrap items-center gap-2 sm:gap-3">
                         <div className="flex flex-wrap gap-2 sm:gap-3 text-xs sm:text-sm">
                             <span className="text-orange-600 font-semibold">Unmatched: {unmatched.length}</span>
-                            <span className="text-gray-600 font-semibold">Missing: {missing.length}</span>
+                            <span className="text-gray-600 font-semibold">Missing: {result.missing.length}</span>
+                            <span className="text-gray-600 font-semibold">{result.totals.done} of {result.totals.expected} labels</span>
                             <span className="text-emerald-600 font-semibold">Matched: {matched.length}</span>
                         </div>
                         {missing.length > 0 && (
                             <button
                                 onClick={handleDeleteAllMissing}
-                                className="px-2 py-1 text-xs font-medium rounded touch-manipulation bg-red-500 text-white hover:bg-red-600 active:bg-red-700"
-                                title="스캔되지 않은 모든 OCR 항목 삭제"
+                                disabled={!canEdit}
+                                className="px-2 py-1 text-xs font-medium rounded touch-manipulation bg-red-500 text-white hover:bg-red-600 active:bg-red-700 disabled:opacity-50"
+                                title={canEdit ? "스캔되지 않은 모든 OCR 항목 삭제" : roleRequiredMessage("supervisor")}
                             >
                                 Missing 전체 삭제
                             </button>
@@ -1044,6 +1003,7 @@ export default function SearchPage() {
                         }
                         
                         const isEditing = editingItem === item.text && item.status === 'unmatched';
+                        const origin = origins.get(item.text);
                         
                         return (
                             <li 
@@ -1086,6 +1046,10 @@ export default function SearchPage() {
                                 ) : (
                                     <>
                                         <span className="font-mono text-base sm:text-sm flex-1">{item.text}</span>
+                                        {origin && origin.source !== "scanner" && <SourceBadge source={origin.source} reason={origin.reason} />}
+                                        {(item.line.expected > 1 || item.line.scanned > 1) && (
+                                            <span className={`text-xs ${item.line.reason === "over_scan" ? "font-semibold text-red-700" : "text-gray-600"}`}>{describeLine(item.line)}</span>
+                                        )}
                                         {item.status === 'unmatched' && (
                                             <div className="flex gap-1">
                                                 <button
@@ -1139,6 +1103,8 @@ export default function SearchPage() {
                     )}
                 </ul>
             </div>
+
+			<UndoToast onUndone={handleUndone} />
 		</div>
     );
 }
@@ -0,0 +1,42 @@
+import { supabase } from "./supabaseClient";
+import { getDeviceId } from "./device";
+import type { ScanSource } from "./scanSource";
+
+// Client side of the /api routes: every write goes through one validated server path.
+
+// The server answered with an error status; message is its { error } text
+export class ApiError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "ApiError";
+		this.status = status;
+	}
+}
+
+export async function postApi<T>(path: string, body: unknown): Promise<T> {
+	const { data } = await supabase.auth.getSession();
+	const token = data.session?.access_token;
+	const res = await fetch(path, {
+		method: "POST",
+		headers: {
+			"Content-Type": "application/json",
+			"x-mo-device": getDeviceId(),
+			...(token ? { Authorization: `Bearer ${token}` } : {}),
+		},
+		body: JSON.stringify(body),
+	});
+	const json = await res.json().catch(() => ({}));
+	if (!res.ok) throw new ApiError(res.status, json.error ?? res.statusText);
+	return json as T;
+}
+
+// Response shapes of the routes under src/app/api
+export type ScanResult = { text: string; matched: boolean; duplicate: boolean; scan_count: number; source: ScanSource };
+export type ScanUndoResult = { text: string; undone: boolean; scan_count: number }; // scan_count 0: row removed
+export type ReceiveResult = { barcode: string; received_at: string; duplicate: boolean };
+export type DisposeResult = { barcode: string; received_at: string; disposed_at: string };
+// duplicates: repeats folded into expected_count; existing: codes already on the manifest, left as stored
+export type ManifestItemsResult = { stored: number; duplicates: number; rejected: string[]; existing: string[] };
+export type CorrectionsResult = { stored: number };
@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "./supabaseClient";
+
+// Operators sign in with Supabase auth; their role (mo_operators) decides what
+// RLS lets them do. Destructive actions need supervisor or admin.
+export type Role = "operator" | "supervisor" | "admin";
+
+export type Operator = {
+	user_id: string;
+	name: string;
+	role: Role;
+};
+
+const ROLE_ORDER: Role[] = ["operator", "supervisor", "admin"];
+
+// Mirrors public.mo_has_role() so the UI can disable what RLS would refuse anyway
+export function hasRole(operator: Operator | null, min: Role): boolean {
+	if (!operator) return false;
+	return ROLE_ORDER.indexOf(operator.role) >= ROLE_ORDER.indexOf(min);
+}
+
+export function roleRequiredMessage(min: Role): string {
+	return `권한 없음: ${min} 이상만 가능합니다`;
+}
+
+// Last known operator row, so a PDA that signed in earlier keeps working offline
+const OPERATOR_CACHE_KEY = "mo_operator";
+
+function readCachedOperator(userId: string): Operator | null {
+	try {
+		const cached = JSON.parse(window.localStorage.getItem(OPERATOR_CACHE_KEY) ?? "null") as Operator | null;
+		return cached?.user_id === userId ? cached : null;
+	} catch {
+		return null;
+	}
+}
+
+async function loadOperator(userId: string): Promise<Operator | null> {
+	const { data, error } = await supabase
+		.from("mo_operators")
+		.select("user_id, name, role")
+		.eq("user_id", userId)
+		.maybeSingle();
+	if (error) {
+		const cached = readCachedOperator(userId);
+		if (cached) return cached;
+		throw error;
+	}
+	if (data) {
+		window.localStorage.setItem(OPERATOR_CACHE_KEY, JSON.stringify(data));
+	} else {
+		window.localStorage.removeItem(OPERATOR_CACHE_KEY);
+	}
+	return (data as Operator | null) ?? null;
+}
+
+export function useOperator() {
+	const [userId, setUserId] = useState<string | null>(null);
+	const [email, setEmail] = useState<string>("");
+	const [operator, setOperator] = useState<Operator | null>(null);
+	const [loading, setLoading] = useState<boolean>(true);
+	const [error, setError] = useState<string>("");
+
+	const applySession = useCallback(async (user: { id: string; email?: string } | null) => {
+		setUserId(user?.id ?? null);
+		setEmail(user?.email ?? "");
+		if (!user) {
+			setOperator(null);
+			setLoading(false);
+			return;
+		}
+		try {
+			setOperator(await loadOperator(user.id));
+			setError("");
+		} catch (e) {
+			const msg = e instanceof Error ? e.message : String(e);
+			setError(`Load operator failed: ${msg}`);
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	useEffect(() => {
+		supabase.auth.getSession()
+			.then(({ data }) => applySession(data.session?.user ?? null))
+			.catch(e => {
+				setError(e instanceof Error ? e.message : String(e));
+				setLoading(false);
+			});
+		const { data: sub } = supabase.auth.onAuthStateChange((_event, session) => {
+			void applySession(session?.user ?? null);
+		});
+		return () => sub.subscription.unsubscribe();
+	}, [applySession]);
+
+	const signIn = useCallback(async (loginEmail: string, password: string) => {
+		const { error } = await supabase.auth.signInWithPassword({ email: loginEmail.trim(), password });
+		if (error) throw error;
+	}, []);
+
+	const signOut = useCallback(async () => {
+		window.localStorage.removeItem(OPERATOR_CACHE_KEY);
+		const { error } = await supabase.auth.signOut();
+		if (error) throw error;
+	}, []);
+
+	return { userId, email, operator, loading, error, signIn, signOut };
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+	barcodeIssue,
+	barcodeSearchPattern,
+	barcodeSimilarity,
+	checkCharacter,
+	checkDigitRepairs,
+	DEFAULT_BARCODE_SPEC,
+	isPattern,
+	matchesPrefix,
+	normalizeBarcode,
+	parsePrefixList,
+	type BarcodeSpec,
+} from "./barcode";
+
+// Plain digits with a GS1 check digit, e.g. EAN-13
+const EAN_SPEC: BarcodeSpec = { prefixes: [], length: null, charset: "0-9", pattern: null, check: "mod10", labelField: null };
+
+describe("normalizeBarcode", () => {
+	it("drops separators and uppercases", () => {
+		expect(normalizeBarcode(" 1m-1234 5678​9012 ")).toBe("1M123456789012");
+		expect(normalizeBarcode("")).toBe("");
+	});
+});
+
+describe("parsePrefixList / matchesPrefix", () => {
+	it("splits, trims and uppercases, skipping empty entries", () => {
+		expect(parsePrefixList("1m, 2M ,,")).toEqual(["1M", "2M"]);
+		expect(parsePrefixList("")).toEqual([]);
+	});
+
+	it("matches any listed prefix, and everything without prefixes", () => {
+		expect(matchesPrefix("2M123", ["1M", "2M"])).toBe(true);
+		expect(matchesPrefix("3M123", ["1M", "2M"])).toBe(false);
+		expect(matchesPrefix("3M123", [])).toBe(true);
+	});
+});
+
+describe("checkCharacter", () => {
+	it("computes GS1 mod10", () => {
+		expect(checkCharacter("400638133393", "mod10")).toBe("1");
+	});
+
+	it("computes Code 39 mod43 over character values", () => {
+		expect(checkCharacter("CODE39", "mod43")).toBe("W");
+	});
+
+	it("computes mod11 with weights 2..7 from the right", () => {
+		expect(checkCharacter("123", "mod11")).toBe("6");
+	});
+
+	it("gives up on characters the rule cannot weigh", () => {
+		expect(checkCharacter("12*4", "mod10")).toBeNull();
+	});
+});
+
+describe("barcodeIssue", () => {
+	it("reports the first rule a code breaks", () => {
+		expect(barcodeIssue("1M123456789012", DEFAULT_BARCODE_SPEC)).toBeNull();
+		expect(barcodeIssue("", DEFAULT_BARCODE_SPEC)).toBe("empty");
+		expect(barcodeIssue("3M123456789012", DEFAULT_BARCODE_SPEC)).toBe("prefix");
+		expect(barcodeIssue("1M12345", DEFAULT_BARCODE_SPEC)).toBe("length");
+		expect(barcodeIssue("1M12345678901*", DEFAULT_BARCODE_SPEC)).toBe("charset");
+		expect(barcodeIssue("1M12345678901A", DEFAULT_BARCODE_SPEC)).toBe("pattern");
+	});
+
+	it("checks the check digit last", () => {
+		expect(barcodeIssue("4006381333931", EAN_SPEC)).toBeNull();
+		expect(barcodeIssue("4006381333932", EAN_SPEC)).toBe("check");
+		expect(barcodeIssue("40063813339A1", EAN_SPEC)).toBe("charset");
+	});
+});
+
+describe("checkDigitRepairs", () => {
+	it("offers valid one-character fixes, cheapest misread first", () => {
+		const cost = (read: string, actual: string) => (read === "2" && actual === "1" ? 0.1 : 1);
+		const repairs = checkDigitRepairs("4006381333932", EAN_SPEC, cost);
+		expect(repairs[0]).toEqual({ code: "4006381333931", cost: 0.1 });
+		for (const repair of repairs) expect(barcodeIssue(repair.code, EAN_SPEC)).toBeNull();
+	});
+
+	it("leaves codes with other faults alone", () => {
+		expect(checkDigitRepairs("4006381333931", EAN_SPEC)).toEqual([]);
+		expect(checkDigitRepairs("40063813339A1", EAN_SPEC)).toEqual([]);
+	});
+});
+
+describe("barcodeSearchPattern", () => {
+	it("finds codes in free OCR text by pattern, or by prefix and length", () => {
+		const text = "CASE 1 1M123456789012 / 2m987654321098 3M111111111111";
+		expect(text.match(barcodeSearchPattern(DEFAULT_BARCODE_SPEC))).toEqual(["1M123456789012", "2m987654321098"]);
+		expect(text.match(barcodeSearchPattern({ ...DEFAULT_BARCODE_SPEC, pattern: null }))).toEqual(["1M123456789012", "2m987654321098"]);
+	});
+});
+
+describe("isPattern", () => {
+	it("accepts patterns that compile and rejects the rest", () => {
+		expect(isPattern(DEFAULT_BARCODE_SPEC.pattern as string)).toBe(true);
+		expect(isPattern("[12]M\\d{12")).toBe(true);
+		expect(isPattern("[12M\\d{12}")).toBe(false);
+		expect(isPattern("1M)|(2M")).toBe(false);
+	});
+});
+
+describe("barcodeSimilarity", () => {
+	it("scores codes whose last digits match by the differences before them", () => {
+		const match = barcodeSimilarity("1M123456789012", "1M128456789012");
+		expect(match?.score).toBeCloseTo(0.9);
+		expect(match?.details).toContain("끝 4자리 일치, 앞부분 1자리 차이");
+	});
+
+	it("ranks known OCR confusions higher", () => {
+		const cost = (a: string, b: string) => (a === b ? 0 : (a === "3" && b === "8") || (a === "8" && b === "3") ? 0.2 : 1);
+		const match = barcodeSimilarity("1M123456789012", "1M128456789012", cost);
+		expect(match?.score).toBeCloseTo(0.98);
+		expect(match?.details).toContain("OCR 혼동 반영");
+	});
+
+	it("matches a code with a missing digit by alignment", () => {
+		expect(barcodeSimilarity("1M123456789012", "1M12345678901")?.details).toContain("부분 일치");
+	});
+
+	it("returns null for unrelated codes", () => {
+		expect(barcodeSimilarity("1M111111111111", "1M999999999999")).toBeNull();
+	});
+});
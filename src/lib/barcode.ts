@@ -13,4 +13,287 @@ export function normalizeBarcode(text: string): string {
 	return noSep.toUpperCase();
 }
 
+// Check-digit rule applied after shape checks. The last character is the check character
+// over everything before it, prefix included; letters count by their Code 39 value (A = 10).
+// - mod10: GS1 style, weights 3,1 from the right, check = (10 - sum % 10) % 10
+// - mod11: weights 2..7 from the right, check = (11 - sum % 11) % 11, 10 printed as "X"
+// - mod43: Code 39, plain sum of the character values % 43
+// - custom:<weights>:<modulus>, e.g. "custom:7,3,1:10": weights repeat from the right,
+//   check = (modulus - sum % modulus) % modulus
+export type CheckRule = "none" | "mod10" | "mod11" | "mod43" | `custom:${string}`;
 
+// What a valid code looks like for one product line.
+// Plain data (no RegExp/functions) so specs can be stored and passed around as JSON.
+export type BarcodeSpec = {
+	prefixes: string[];                         // empty = any prefix
+	length: { min: number; max: number } | null; // null = any length
+	charset: string;                            // regex character class body, e.g. "A-Z0-9"
+	pattern: string | null;                     // unanchored regex the whole code must match, e.g. "[12]M\\d{12}"
+	check: CheckRule;
+	labelField: string | null;                  // label field holding the code (GS1 AI or MH10 DI, see labelData.ts); null = whole payload
+};
+
+// 1M/2M + 12 digits labels used by both CKD and LQ2
+export const DEFAULT_BARCODE_SPEC: BarcodeSpec = {
+	prefixes: ["1M", "2M"],
+	length: { min: 14, max: 14 },
+	charset: "A-Z0-9",
+	pattern: "[12]M\\d{12}",
+	check: "none",
+	labelField: null,
+};
+
+export type BarcodeIssue = "empty" | "prefix" | "length" | "charset" | "pattern" | "check";
+
+// "1M, 2M" -> ["1M", "2M"]
+export function parsePrefixList(text: string): string[] {
+	return text.split(",").map(p => p.trim().toUpperCase()).filter(Boolean);
+}
+
+export function matchesPrefix(code: string, prefixes: string[]): boolean {
+	if (prefixes.length === 0) return true;
+	return prefixes.some(p => code.startsWith(p));
+}
+
+// First prefix the code starts with, or null
+export function prefixOf(code: string, prefixes: string[]): string | null {
+	return prefixes.find(p => code.startsWith(p)) ?? null;
+}
+
+// Returns the first rule the (normalized) code breaks, or null when it is valid
+export function barcodeIssue(code: string, spec: BarcodeSpec): BarcodeIssue | null {
+	if (!code) return "empty";
+	if (!matchesPrefix(code, spec.prefixes)) return "prefix";
+	if (spec.length && (code.length < spec.length.min || code.length > spec.length.max)) return "length";
+	if (spec.charset && !new RegExp(`^[${spec.charset}]+$`).test(code)) return "charset";
+	if (spec.pattern && !new RegExp(`^(?:${spec.pattern})$`).test(code)) return "pattern";
+	if (!hasValidCheckCharacter(code, spec.check)) return "check";
+	return null;
+}
+
+export function isValidBarcode(code: string, spec: BarcodeSpec): boolean {
+	return barcodeIssue(code, spec) === null;
+}
+
+// Code 39 character set; a character's index is its value in check-digit sums
+const CHECK_CHARS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%";
+
+type CheckScheme = { weights: number[]; modulus: number; complement: boolean };
+
+const CHECK_SCHEMES: Record<"mod10" | "mod11" | "mod43", CheckScheme> = {
+	mod10: { weights: [3, 1], modulus: 10, complement: true },
+	mod11: { weights: [2, 3, 4, 5, 6, 7], modulus: 11, complement: true },
+	mod43: { weights: [1], modulus: 43, complement: false },
+};
+
+function checkScheme(rule: string): CheckScheme | null {
+	if (rule === "mod10" || rule === "mod11" || rule === "mod43") return CHECK_SCHEMES[rule];
+	const custom = /^custom:(\d+(?:,\d+)*):(\d+)$/.exec(rule);
+	if (!custom) return null;
+	const modulus = Number(custom[2]);
+	if (modulus < 2 || modulus > CHECK_CHARS.length) return null;
+	return { weights: custom[1].split(",").map(Number), modulus, complement: true };
+}
+
+// Whether a stored check_digit value names a rule this library knows
+export function isCheckRule(text: string): text is CheckRule {
+	return text === "none" || checkScheme(text) !== null;
+}
+
+// Whether a stored pattern compiles as a JavaScript regex (the table only checks Postgres syntax)
+export function isPattern(text: string): boolean {
+	try {
+		new RegExp(`^(?:${text})$`);
+		new RegExp(text, "gi");
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// Check character for the data part of a code, or null when the data holds a character
+// the rule cannot weigh (or the rule is unknown)
+export function checkCharacter(data: string, rule: CheckRule): string | null {
+	const scheme = checkScheme(rule);
+	if (!scheme) return null;
+	let sum = 0;
+	for (let i = 0; i < data.length; i++) {
+		const value = CHECK_CHARS.indexOf(data[data.length - 1 - i]);
+		if (value < 0) return null;
+		sum += value * scheme.weights[i % scheme.weights.length];
+	}
+	const rest = sum % scheme.modulus;
+	const value = scheme.complement ? (scheme.modulus - rest) % scheme.modulus : rest;
+	return scheme.modulus === 11 && value === 10 ? "X" : CHECK_CHARS[value];
+}
+
+function hasValidCheckCharacter(code: string, rule: CheckRule): boolean {
+	if (rule === "none") return true;
+	return code.length >= 2 && checkCharacter(code.slice(0, -1), rule) === code[code.length - 1];
+}
+
+export type CheckRepair = { code: string; cost: number };
+
+// For an OCR'd code whose only fault is its check character: the one-character
+// substitutions that make it valid, most likely misread first. cost(read, actual)
+// prices a substitution (see substitutionCost in ocrConfusion); prefixes are left alone.
+export function checkDigitRepairs(
+	code: string,
+	spec: BarcodeSpec,
+	cost: (a: string, b: string) => number = (a, b) => (a === b ? 0 : 1),
+	limit = 3,
+): CheckRepair[] {
+	if (barcodeIssue(code, spec) !== "check") return [];
+	const start = prefixOf(code, spec.prefixes)?.length ?? 0;
+	const repairs: CheckRepair[] = [];
+	for (let i = start; i < code.length; i++) {
+		for (const c of CHECK_CHARS) {
+			if (c === code[i]) continue;
+			const candidate = code.slice(0, i) + c + code.slice(i + 1);
+			if (isValidBarcode(candidate, spec)) repairs.push({ code: candidate, cost: cost(code[i], c) });
+		}
+	}
+	return repairs.sort((a, b) => a.cost - b.cost).slice(0, limit);
+}
+
+// Global regex for finding candidate codes inside free OCR text.
+// Uses the spec's pattern when set, otherwise prefix + charset run of the allowed length.
+export function barcodeSearchPattern(spec: BarcodeSpec): RegExp {
+	if (spec.pattern) return new RegExp(spec.pattern, "gi");
+	const prefixes = spec.prefixes.map(p => p.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+	const head = prefixes.length > 0 ? `(?:${prefixes.join("|")})` : "";
+	const shortest = prefixes.length > 0 ? Math.min(...prefixes.map(p => p.length)) : 0;
+	const longest = prefixes.length > 0 ? Math.max(...prefixes.map(p => p.length)) : 0;
+	const body = spec.length
+		? `{${Math.max(spec.length.min - longest, 0)},${Math.max(spec.length.max - shortest, 0)}}`
+		: "+";
+	return new RegExp(`${head}[${spec.charset || "A-Z0-9"}]${body}`, "gi");
+}
+
+// Normalize barcode to target length (default 14)
+// If longer, take first N characters; if shorter, keep as-is
+export function normalizeToLength(text: string, targetLen: number = 14): string {
+	const normalized = normalizeBarcode(text);
+	if (normalized.length === targetLen) return normalized;
+
+	// Extract prefix (letters) and numbers
+	const prefixMatch = normalized.match(/^([A-Z]+)/);
+	const prefix = prefixMatch ? prefixMatch[1] : "";
+	const numbers = normalized.replace(/^[A-Z]+/, "");
+
+	if (numbers.length > targetLen - prefix.length) {
+		// Too long: take first N digits
+		return prefix + numbers.slice(0, targetLen - prefix.length);
+	}
+	// Too short: keep as-is (don't pad, as we don't know what to pad with)
+	return normalized;
+}
+
+export type Similarity = { score: number; details: string };
+
+// Note for the details text when known OCR confusions made the differences cheaper
+function confusionInfo(diff: number, weighted: number): string {
+	return weighted < diff - 0.01 ? " (OCR 혼동 반영)" : "";
+}
+
+// Similarity between two barcodes, tolerant of OCR errors (wrong digits, extra/missing digits).
+// Returns null when they are not similar enough to be worth suggesting.
+// cost(a, b) weighs a differing character (0..1, default 1); a confusion model makes
+// well-known misreads cheaper so those pairs rank first.
+export function barcodeSimilarity(
+	text1: string,
+	text2: string,
+	cost: (a: string, b: string) => number = (a, b) => (a === b ? 0 : 1),
+): Similarity | null {
+	const t1 = text1.toUpperCase();
+	const t2 = text2.toUpperCase();
+
+	// Extract numeric parts (after prefix)
+	const num1 = t1.replace(/^[A-Z]+/, "");
+	const num2 = t2.replace(/^[A-Z]+/, "");
+
+	// Normalize to same length for comparison (take shorter length or 14)
+	const targetLen = Math.min(num1.length, num2.length, 14);
+	const n1 = num1.slice(-targetLen); // Take last N digits
+	const n2 = num2.slice(-targetLen);
+	const lenDiff = Math.abs(num1.length - num2.length);
+	const lenInfo = lenDiff > 0 ? ` (자리수 차이: ${lenDiff})` : "";
+
+	// Check if last 3-4 digits match (most common OCR error pattern)
+	const checkLen = Math.min(4, targetLen);
+	if (checkLen >= 3 && n1.slice(-checkLen) === n2.slice(-checkLen)) {
+		// Last digits match - check how similar the rest is
+		const prefix1 = n1.slice(0, -checkLen);
+		const prefix2 = n2.slice(0, -checkLen);
+
+		// Count differences in prefix
+		let diff = 0;
+		let weighted = 0;
+		const maxLen = Math.max(prefix1.length, prefix2.length);
+		const minLen = Math.min(prefix1.length, prefix2.length);
+		for (let i = 0; i < minLen; i++) {
+			if (prefix1[i] !== prefix2[i]) {
+				diff++;
+				weighted += cost(prefix1[i], prefix2[i]);
+			}
+		}
+		diff += Math.abs(prefix1.length - prefix2.length);
+		weighted += Math.abs(prefix1.length - prefix2.length);
+
+		// If only 1-3 digits differ, consider it similar
+		if (diff <= 3 && maxLen > 0) {
+			return {
+				score: Math.max(0.7, 1.0 - (weighted / Math.max(maxLen, 1))),
+				details: `끝 ${checkLen}자리 일치, 앞부분 ${diff}자리 차이${confusionInfo(diff, weighted)}${lenInfo}`,
+			};
+		} else if (diff <= 1) {
+			return { score: 0.9, details: `끝 ${checkLen}자리 일치, 앞부분 1자리 차이${lenInfo}` };
+		}
+	}
+
+	// Check if same length (after normalization) and only 1-3 digits differ
+	if (n1.length === n2.length && n1.length > 0) {
+		let diff = 0;
+		let weighted = 0;
+		for (let i = 0; i < n1.length; i++) {
+			if (n1[i] !== n2[i]) {
+				diff++;
+				weighted += cost(n1[i], n2[i]);
+			}
+		}
+		if (diff <= 3 && diff > 0) {
+			return {
+				score: Math.max(0.7, 1.0 - (weighted / n1.length)),
+				details: `길이 같음, ${diff}자리 차이${confusionInfo(diff, weighted)}${lenInfo}`,
+			};
+		}
+	}
+
+	// Check if one is substring of the other (OCR might have extra/missing digits)
+	if (num1.length !== num2.length) {
+		const shorter = num1.length < num2.length ? num1 : num2;
+		const longer = num1.length < num2.length ? num2 : num1;
+
+		if (longer.includes(shorter) || shorter.length >= 10) {
+			// Check how many digits match when aligned
+			let maxMatches = 0;
+			for (let offset = 0; offset <= longer.length - shorter.length; offset++) {
+				let matches = 0;
+				for (let i = 0; i < shorter.length; i++) {
+					if (shorter[i] === longer[offset + i]) matches++;
+				}
+				maxMatches = Math.max(maxMatches, matches);
+			}
+
+			const similarity = maxMatches / shorter.length;
+			if (similarity >= 0.85) {
+				return {
+					score: similarity,
+					details: `부분 일치 (${maxMatches}/${shorter.length}자리), 자리수 차이: ${lenDiff}`,
+				};
+			}
+		}
+	}
+
+	return null;
+}
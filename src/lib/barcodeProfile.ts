@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "./supabaseClient";
+import { DEFAULT_BARCODE_SPEC, isCheckRule, isPattern, parsePrefixList, type BarcodeSpec } from "./barcode";
+
+// Barcode format profiles (mo_barcode_profiles) describe one customer / part family.
+// Each top-nav section picks its own active profile, remembered per device.
+export type BarcodeSection = "ckd" | "lq2";
+
+export type BarcodeProfile = {
+	id: string;
+	name: string;
+	spec: BarcodeSpec;
+	// Manual adds from a list must give a reason
+	manualReasonRequired: boolean;
+};
+
+type ProfileRow = {
+	id: string;
+	name: string;
+	prefixes: string | null;
+	min_length: number | null;
+	max_length: number | null;
+	pattern: string | null;
+	check_digit: string | null;
+	label_field: string | null;
+	manual_reason_required: boolean | null;
+};
+
+const PROFILE_COLUMNS = "id, name, prefixes, min_length, max_length, pattern, check_digit, label_field, manual_reason_required";
+
+const PROFILE_KEY_PREFIX = "mo_barcode_profile_";
+const PROFILE_EVENT = "mo:barcode-profile";
+
+// Used until profiles load, and when the table is empty
+export const BUILTIN_PROFILE: BarcodeProfile = { id: "", name: "1M/2M (기본)", spec: DEFAULT_BARCODE_SPEC, manualReasonRequired: false };
+
+function toProfile(row: ProfileRow): BarcodeProfile {
+	const min = row.min_length ?? row.max_length;
+	const max = row.max_length ?? row.min_length;
+	return {
+		id: row.id,
+		name: row.name,
+		spec: {
+			prefixes: parsePrefixList(row.prefixes ?? ""),
+			length: min != null && max != null ? { min, max } : null,
+			charset: DEFAULT_BARCODE_SPEC.charset,
+			// A pattern JavaScript cannot compile would throw on every scan; it falls back to none
+			pattern: row.pattern && isPattern(row.pattern) ? row.pattern : null,
+			// The table constraint keeps unknown rules out; older rows fall back to no check
+			check: row.check_digit && isCheckRule(row.check_digit) ? row.check_digit : "none",
+			labelField: row.label_field?.trim().toUpperCase() || null,
+		},
+		manualReasonRequired: row.manual_reason_required ?? false,
+	};
+}
+
+export function getSectionProfileId(section: BarcodeSection): string | null {
+	if (typeof window === "undefined") return null;
+	return window.localStorage.getItem(PROFILE_KEY_PREFIX + section);
+}
+
+export function setSectionProfileId(section: BarcodeSection, id: string | null) {
+	if (typeof window === "undefined") return;
+	if (id) {
+		window.localStorage.setItem(PROFILE_KEY_PREFIX + section, id);
+	} else {
+		window.localStorage.removeItem(PROFILE_KEY_PREFIX + section);
+	}
+	window.dispatchEvent(new Event(PROFILE_EVENT));
+}
+
+export async function listBarcodeProfiles(): Promise<BarcodeProfile[]> {
+	const { data, error } = await supabase
+		.from("mo_barcode_profiles")
+		.select(PROFILE_COLUMNS)
+		.order("name", { ascending: true });
+	if (error) throw error;
+	return ((data ?? []) as ProfileRow[]).map(toProfile);
+}
+
+// Profile for an id sent by a client (API routes pass their per-request client).
+// An empty or unknown id means the built-in profile, same as the pages' fallback.
+export async function loadBarcodeProfile(client: SupabaseClient, profileId: string | null): Promise<BarcodeProfile> {
+	if (!profileId) return BUILTIN_PROFILE;
+	const { data, error } = await client
+		.from("mo_barcode_profiles")
+		.select(PROFILE_COLUMNS)
+		.eq("id", profileId)
+		.maybeSingle();
+	if (error) throw error;
+	return data ? toProfile(data as ProfileRow) : BUILTIN_PROFILE;
+}
+
+export async function loadBarcodeSpec(client: SupabaseClient, profileId: string | null): Promise<BarcodeSpec> {
+	return (await loadBarcodeProfile(client, profileId)).spec;
+}
+
+// Active profile for a section. Falls back to the first stored profile, then to the built-in 1M/2M spec.
+export function useBarcodeProfile(section: BarcodeSection) {
+	const [profiles, setProfiles] = useState<BarcodeProfile[]>([]);
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+	const [error, setError] = useState<string>("");
+
+	const reportError = useCallback((e: unknown) => {
+		const msg = e instanceof Error ? e.message : String(e);
+		setError(`Load barcode profiles failed: ${msg}`);
+	}, []);
+
+	useEffect(() => {
+		listBarcodeProfiles()
+			.then(list => {
+				setProfiles(list);
+				setSelectedId(getSectionProfileId(section));
+			})
+			.catch(reportError);
+	}, [section, reportError]);
+
+	useEffect(() => {
+		const sync = () => setSelectedId(getSectionProfileId(section));
+		window.addEventListener(PROFILE_EVENT, sync);
+		window.addEventListener("storage", sync);
+		return () => {
+			window.removeEventListener(PROFILE_EVENT, sync);
+			window.removeEventListener("storage", sync);
+		};
+	}, [section]);
+
+	const select = useCallback((id: string | null) => {
+		setSectionProfileId(section, id);
+	}, [section]);
+
+	const profile = useMemo(
+		() => profiles.find(p => p.id === selectedId) ?? profiles[0] ?? BUILTIN_PROFILE,
+		[profiles, selectedId],
+	);
+
+	return { profile, spec: profile.spec, profiles, error, select };
+}
@@ -0,0 +1,40 @@
+import { BarcodeFormat, BrowserMultiFormatReader, type IScannerControls } from "@zxing/browser";
+import { DecodeHintType } from "@zxing/library";
+
+// Symbologies printed on CKD/LQ2 labels
+const LABEL_FORMATS = [BarcodeFormat.CODE_128, BarcodeFormat.DATA_MATRIX, BarcodeFormat.QR_CODE];
+
+export function createBarcodeReader(): BrowserMultiFormatReader {
+	const hints = new Map<DecodeHintType, unknown>();
+	hints.set(DecodeHintType.POSSIBLE_FORMATS, LABEL_FORMATS);
+	hints.set(DecodeHintType.TRY_HARDER, true);
+	// Short pause between hits so one label held in front of the camera is not decoded every frame
+	return new BrowserMultiFormatReader(hints, { delayBetweenScanSuccess: 800 });
+}
+
+// Decode a single symbol from a still image. Returns null when nothing is found,
+// so callers can fall back to OCR.
+export function decodeBarcodeFromCanvas(canvas: HTMLCanvasElement): string | null {
+	try {
+		return createBarcodeReader().decodeFromCanvas(canvas).getText();
+	} catch {
+		// NotFound/Checksum/Format exceptions all mean "no usable symbol"
+		return null;
+	}
+}
+
+// Continuously decode from the rear camera into onDecode. Call stop() on the returned controls.
+export async function startLiveBarcodeScan(
+	video: HTMLVideoElement,
+	onDecode: (text: string) => void,
+): Promise<IScannerControls> {
+	const reader = createBarcodeReader();
+	return reader.decodeFromConstraints(
+		{ video: { facingMode: { ideal: "environment" } } },
+		video,
+		(result) => {
+			// Errors here are per-frame "not found" noise; only results matter
+			if (result) onDecode(result.getText());
+		},
+	);
+}
@@ -0,0 +1,13 @@
+// Stable per-device id (one per browser profile), sent with every request so
+// audit events can tell which PDA made a change.
+const DEVICE_KEY = "mo_device_id";
+
+export function getDeviceId(): string {
+	if (typeof window === "undefined") return "server";
+	let id = window.localStorage.getItem(DEVICE_KEY);
+	if (!id) {
+		id = crypto.randomUUID();
+		window.localStorage.setItem(DEVICE_KEY, id);
+	}
+	return id;
+}
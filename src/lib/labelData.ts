@@ -0,0 +1,207 @@
+import { normalizeBarcode } from "./barcode";
+
+// Structured supplier labels. Besides plain codes, labels carry several fields in one symbol:
+// - GS1 element strings: application identifiers (AI) such as 01 GTIN, 10 lot, 21 serial
+// - ANSI MH10.8.2 data identifiers (DI) such as 1P part, Q quantity, S serial, usually
+//   inside an ISO/IEC 15434 envelope: [)> RS 06 GS 1P... GS Q... RS EOT
+// Variable-length fields end at a GS (FNC1) separator, which keyboard-wedge scanners send
+// as a control character (or as Ctrl+], see wedgeControlChar).
+export type LabelFormat = "gs1" | "mh10";
+
+export type LabelField = { id: string; name: string | null; value: string };
+
+export type ParsedLabel = { format: LabelFormat; fields: LabelField[] };
+
+// Fields stored next to a scanned code, by identifier: { "Q": "10", "1P": "AB-123" }
+export type LabelData = Record<string, string>;
+
+const GS = "\x1D";
+const RS = "\x1E";
+const EOT = "\x04";
+
+const GS1_NAMES: Record<string, string> = {
+	"00": "SSCC",
+	"01": "GTIN",
+	"02": "Content GTIN",
+	"10": "Lot",
+	"11": "Production date",
+	"13": "Packaging date",
+	"15": "Best before",
+	"17": "Expiry date",
+	"20": "Variant",
+	"21": "Serial",
+	"22": "Consumer variant",
+	"240": "Additional ID",
+	"241": "Customer part",
+	"250": "Secondary serial",
+	"30": "Count",
+	"310": "Net weight (kg)",
+	"37": "Count of units",
+	"400": "Order number",
+	"401": "Consignment",
+	"402": "Shipment ID",
+	"403": "Routing code",
+	"410": "Ship to",
+	"420": "Ship to postal code",
+	"422": "Country of origin",
+	"7003": "Expiry time",
+	"90": "Internal",
+};
+
+// Data length of AIs with a predefined length, by their first two digits (GS1 General Specifications)
+const GS1_FIXED_LENGTH: Record<string, number> = {
+	"00": 18, "01": 14, "02": 14, "03": 14, "04": 16,
+	"11": 6, "12": 6, "13": 6, "14": 6, "15": 6, "16": 6, "17": 6, "18": 6, "19": 6,
+	"20": 2, "31": 6, "32": 6, "33": 6, "34": 6, "35": 6, "36": 6, "41": 13,
+};
+
+// Digits in the AI itself, by its first two digits
+function gs1AiLength(data: string): number {
+	const head = data.slice(0, 2);
+	if (/^(0[0-4]|1\d|2[0-2]|30|37|9\d)$/.test(head)) return 2;
+	if (/^(23|24|25|40|41|42|71)$/.test(head)) return 3;
+	return 4;
+}
+
+function gs1Field(id: string, value: string): LabelField {
+	return { id, name: GS1_NAMES[id] ?? GS1_NAMES[id.slice(0, 3)] ?? null, value };
+}
+
+// "01095011010209171719050810ABC123<GS>21XYZ" -> 01, 17, 10, 21. Null on anything that is not an AI.
+function parseGs1(data: string): LabelField[] | null {
+	const fields: LabelField[] = [];
+	let rest = data;
+	while (rest.length > 0) {
+		if (rest[0] === GS) {
+			rest = rest.slice(1);
+			continue;
+		}
+		if (!/^\d{2}/.test(rest)) return null;
+		const ai = rest.slice(0, gs1AiLength(rest));
+		if (!/^\d+$/.test(ai)) return null;
+		rest = rest.slice(ai.length);
+		const fixed = GS1_FIXED_LENGTH[ai.slice(0, 2)];
+		const end = fixed ?? (rest.includes(GS) ? rest.indexOf(GS) : rest.length);
+		if (rest.length < end) return null;
+		fields.push(gs1Field(ai, rest.slice(0, end)));
+		rest = rest.slice(end);
+	}
+	return fields.length > 0 ? fields : null;
+}
+
+// Human-readable form printed under the symbol: "(01)09501101020917(21)XYZ"
+function parseGs1Text(data: string): LabelField[] | null {
+	const fields: LabelField[] = [];
+	const pattern = /\((\d{2,4})\)([^(]*)/g;
+	let consumed = 0;
+	for (let m = pattern.exec(data); m; m = pattern.exec(data)) {
+		if (m.index !== consumed) return null;
+		fields.push(gs1Field(m[1], m[2].trim()));
+		consumed = pattern.lastIndex;
+	}
+	return fields.length > 0 && consumed === data.length ? fields : null;
+}
+
+const MH10_NAMES: Record<string, string> = {
+	"K": "Customer order",
+	"1K": "Supplier order",
+	"P": "Customer part",
+	"1P": "Supplier part",
+	"2P": "Revision",
+	"Q": "Quantity",
+	"7Q": "Quantity and unit",
+	"S": "Serial",
+	"3S": "Package ID",
+	"4S": "Package ID",
+	"25S": "Supplier serial",
+	"T": "Traceability",
+	"1T": "Lot",
+	"V": "Supplier",
+	"1V": "Manufacturer",
+	"6D": "Date",
+	"9D": "Date code",
+	"4L": "Country of origin",
+	"1J": "License plate",
+	"5J": "License plate",
+};
+
+// "1PAB-123<GS>Q10<GS>S0001" -> 1P, Q, S. A DI is up to three digits and a letter.
+function parseMh10(data: string): LabelField[] | null {
+	const fields: LabelField[] = [];
+	for (const segment of data.split(GS)) {
+		if (!segment) continue;
+		const m = /^(\d{0,3}[A-Z])(.*)$/.exec(segment);
+		if (!m) return null;
+		fields.push({ id: m[1], name: MH10_NAMES[m[1]] ?? null, value: m[2] });
+	}
+	return fields.length > 0 ? fields : null;
+}
+
+const GS1_SYMBOLOGIES = ["]C1", "]d2", "]Q3", "]e0", "]J1"];
+
+// Split a scanned payload into fields, or null for a plain code. symbology is the AIM
+// identifier when the scanner input has already split it off the payload.
+export function parseLabel(raw: string, symbology: string | null = null): ParsedLabel | null {
+	const data = raw.replace(/[\r\n]+$/, "");
+
+	// ISO/IEC 15434 envelope: format 06 carries data identifiers, 05 GS1 AIs
+	const envelope = /^\[\)>\x1E(\d{2})\x1D?/.exec(data);
+	if (envelope) {
+		const body = data.slice(envelope[0].length).split(RS)[0].replace(EOT, "");
+		const fields = envelope[1] === "06" ? parseMh10(body) : envelope[1] === "05" ? parseGs1(body) : null;
+		return fields ? { format: envelope[1] === "06" ? "mh10" : "gs1", fields } : null;
+	}
+
+	// Symbology identifier of a GS1 symbol (GS1-128, DataMatrix, QR), or a leading FNC1
+	const inline = /^\](C1|d2|Q3|e0|J1)/.exec(data);
+	const gs1Symbol = inline !== null || (symbology !== null && GS1_SYMBOLOGIES.includes(symbology));
+	if (gs1Symbol || data.startsWith(GS)) {
+		const fields = parseGs1(data.slice(inline ? 3 : data.startsWith(GS) ? 1 : 0));
+		return fields ? { format: "gs1", fields } : null;
+	}
+	if (data.startsWith("(")) {
+		const fields = parseGs1Text(data);
+		return fields ? { format: "gs1", fields } : null;
+	}
+	if (data.includes(GS)) {
+		const mh10 = parseMh10(data);
+		if (mh10) return { format: "mh10", fields: mh10 };
+		const gs1 = parseGs1(data);
+		if (gs1) return { format: "gs1", fields: gs1 };
+	}
+	return null;
+}
+
+// Code and remaining fields of a scan. id names the label field holding the code (e.g. "S", "21");
+// without one, or for a plain code, the whole payload is the code as before.
+// code is "" when the label lacks that field.
+export function readScan(
+	raw: string,
+	id: string | null,
+	symbology: string | null = null,
+): { code: string; label: ParsedLabel | null; data: LabelData | null } {
+	const label = id ? parseLabel(raw, symbology) : null;
+	if (!label) return { code: normalizeBarcode(raw), label: null, data: null };
+	const field = label.fields.find(f => f.id === id);
+	const data: LabelData = {};
+	for (const f of label.fields) {
+		if (f !== field && !(f.id in data)) data[f.id] = f.value;
+	}
+	return { code: field ? normalizeBarcode(field.value) : "", label, data };
+}
+
+// "Q 10, 1P AB-123" for status lines
+export function describeLabelData(data: LabelData | null): string {
+	if (!data) return "";
+	return Object.entries(data).map(([id, value]) => `${id} ${value}`).join(", ");
+}
+
+// Scanners in "control characters as Ctrl+key" mode type GS as Ctrl+], RS as Ctrl+^ and
+// EOT as Ctrl+D, which inputs drop. Returns the character to append for such a key.
+export function wedgeControlChar(e: { ctrlKey: boolean; key: string }): string | null {
+	if (!e.ctrlKey) return null;
+	if (e.key === "]") return GS;
+	if (e.key === "^" || e.key === "6") return RS;
+	if (e.key === "d" || e.key === "D") return EOT;
+	return null;
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { supabase } from "./supabaseClient";
+
+// Rack/bin locations. Operators scan a location label (LOC-2F-A03) on SCAN, SEARCH or
+// RECEIVE; it stays the device's current location until another one is scanned or it is
+// cleared, and every scan or receipt made meanwhile is recorded there.
+export const LOCATION_PATTERN = /^LOC(-[A-Z0-9]+)+$/;
+
+// The location a scanned payload names, or null for a product label
+export function parseLocationLabel(raw: string): string | null {
+	const text = raw.trim().toUpperCase();
+	return LOCATION_PATTERN.test(text) ? text : null;
+}
+
+export function isLocation(text: string): boolean {
+	return LOCATION_PATTERN.test(text);
+}
+
+const LOCATION_KEY = "mo_current_location";
+const LOCATION_EVENT = "mo:location";
+
+export function getCurrentLocation(): string | null {
+	if (typeof window === "undefined") return null;
+	const stored = window.localStorage.getItem(LOCATION_KEY);
+	return stored && isLocation(stored) ? stored : null;
+}
+
+export function setCurrentLocation(location: string | null) {
+	if (typeof window === "undefined") return;
+	if (location) window.localStorage.setItem(LOCATION_KEY, location);
+	else window.localStorage.removeItem(LOCATION_KEY);
+	window.dispatchEvent(new Event(LOCATION_EVENT));
+}
+
+export function useCurrentLocation() {
+	const [location, setLocation] = useState<string | null>(null);
+
+	useEffect(() => {
+		const sync = () => setLocation(getCurrentLocation());
+		sync();
+		window.addEventListener(LOCATION_EVENT, sync);
+		window.addEventListener("storage", sync);
+		return () => {
+			window.removeEventListener(LOCATION_EVENT, sync);
+			window.removeEventListener("storage", sync);
+		};
+	}, []);
+
+	return { location, set: setCurrentLocation };
+}
+
+// One place a barcode was recorded: a session scan or its LQ2 receipt
+export type Sighting = {
+	kind: "scan" | "receive";
+	location: string | null; // null: recorded before a location was scanned
+	at: string;
+	session: string | null; // session name for scans
+	disposed_at: string | null; // receipts only
+};
+
+const SIGHTING_LIMIT = 50;
+// Codes per request in lastSeenLocations; they go in the request URL
+const LOOKUP_CHUNK = 50;
+
+// Where a barcode has been seen, newest first; the first entry with a location answers
+// "where was it last seen"
+export async function findSightings(code: string): Promise<Sighting[]> {
+	const [scans, receipts] = await Promise.all([
+		supabase
+			.from("mo_scan_items")
+			.select("session_id, location, last_scanned_at, created_at")
+			.eq("text", code)
+			.order("last_scanned_at", { ascending: false })
+			.limit(SIGHTING_LIMIT),
+		supabase
+			.from("mo_lq2_inventory")
+			.select("location, received_at, disposed_at")
+			.eq("barcode", code)
+			.limit(SIGHTING_LIMIT),
+	]);
+	if (scans.error) throw scans.error;
+	if (receipts.error) throw receipts.error;
+
+	const sessionIds = [...new Set((scans.data ?? []).map(row => row.session_id as string))];
+	const names = new Map<string, string | null>();
+	if (sessionIds.length > 0) {
+		const { data, error } = await supabase.from("mo_scan_sessions").select("id, name").in("id", sessionIds);
+		if (error) throw error;
+		for (const session of data ?? []) names.set(session.id, session.name);
+	}
+
+	const sightings: Sighting[] = [
+		...(scans.data ?? []).map(row => ({
+			kind: "scan" as const,
+			location: row.location as string | null,
+			at: (row.last_scanned_at ?? row.created_at) as string,
+			session: names.get(row.session_id) ?? null,
+			disposed_at: null,
+		})),
+		...(receipts.data ?? []).map(row => ({
+			kind: "receive" as const,
+			location: row.location as string | null,
+			at: row.received_at as string,
+			session: null,
+			disposed_at: row.disposed_at as string | null,
+		})),
+	];
+	return sightings.sort((a, b) => Date.parse(b.at) - Date.parse(a.at));
+}
+
+// Location each code was last scanned at, over every session. Codes never scanned at a
+// location are left out.
+export async function lastSeenLocations(codes: string[]): Promise<Map<string, string>> {
+	const found = new Map<string, string>();
+	for (let i = 0; i < codes.length; i += LOOKUP_CHUNK) {
+		const { data, error } = await supabase
+			.from("mo_scan_items")
+			.select("text, location, last_scanned_at")
+			.in("text", codes.slice(i, i + LOOKUP_CHUNK))
+			.not("location", "is", null)
+			.order("last_scanned_at", { ascending: false });
+		if (error) throw error;
+		for (const row of data ?? []) {
+			if (!found.has(row.text)) found.set(row.text, row.location as string);
+		}
+	}
+	return found;
+}
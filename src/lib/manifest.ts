@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "./supabaseClient";
+import { postApi } from "./api";
+
+// A manifest is one uploaded expected list (one OCR run of a packing list).
+// mo_ocr_results rows belong to a manifest instead of being wiped on every upload.
+export type Manifest = {
+	id: string;
+	created_at: string;
+	name: string;
+	source_file: string | null;
+	page_count: number | null;
+};
+
+export function manifestLabel(m: Manifest): string {
+	const date = new Date(m.created_at).toLocaleDateString("ko-KR");
+	return `${m.name} (${date})`;
+}
+
+// Complete manifests only: an upload that failed part-way never shows up half filled
+export async function listManifests(): Promise<Manifest[]> {
+	const { data, error } = await supabase
+		.from("mo_manifests")
+		.select("id, created_at, name, source_file, page_count")
+		.not("completed_at", "is", null)
+		.order("created_at", { ascending: false });
+	if (error) throw error;
+	return (data ?? []) as Manifest[];
+}
+
+export async function createManifest(input: { name: string; source_file: string | null; page_count: number | null }): Promise<Manifest> {
+	return postApi<Manifest>("/api/manifests", input);
+}
+
+export function useManifests() {
+	const [manifests, setManifests] = useState<Manifest[]>([]);
+	const [error, setError] = useState<string>("");
+
+	const reportError = useCallback((e: unknown) => {
+		const msg = e instanceof Error ? e.message : String(e);
+		setError(`Load manifests failed: ${msg}`);
+	}, []);
+
+	const refresh = useCallback(async () => {
+		try {
+			const list = await listManifests();
+			setManifests(list);
+			setError("");
+		} catch (e) {
+			reportError(e);
+		}
+	}, [reportError]);
+
+	useEffect(() => {
+		listManifests().then(setManifests).catch(reportError);
+	}, [reportError]);
+
+	return { manifests, error, refresh };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from "vitest";
+
+// The model helpers are pure; only the hook talks to Supabase
+vi.mock("./supabaseClient", () => ({ supabase: {} }));
+
+const { buildConfusionModel, correctOcrConfusions, substitutionCost, DEFAULT_CONFUSION_MODEL } = await import("./ocrConfusion");
+
+describe("correctOcrConfusions", () => {
+	it("fixes letters read inside digits", () => {
+		expect(correctOcrConfusions("1M2B45")).toBe("1M2845");
+		expect(correctOcrConfusions("1M12O456789S12")).toBe("1M120456789512");
+	});
+
+	it("leaves words alone", () => {
+		expect(correctOcrConfusions("BOX 12")).toBe("BOX 12");
+	});
+
+	it("never rewrites a profile prefix", () => {
+		expect(correctOcrConfusions("S12S45")).toBe("512545");
+		expect(correctOcrConfusions("S12S45", DEFAULT_CONFUSION_MODEL, ["S1"])).toBe("S12545");
+	});
+
+	it("applies confusions learned from corrections once there is enough evidence", () => {
+		const pair = { ocr_text: "1M1234567890I2", corrected_text: "1M123456789012" };
+		expect(correctOcrConfusions("1M99I9", buildConfusionModel([pair]))).toBe("1M99I9");
+		expect(correctOcrConfusions("1M99I9", buildConfusionModel([pair, pair]))).toBe("1M9919");
+	});
+});
+
+describe("buildConfusionModel / substitutionCost", () => {
+	it("skips pairs of different length", () => {
+		const model = buildConfusionModel([{ ocr_text: "1M12I", corrected_text: "1M1211" }]);
+		expect(model.has("I")).toBe(false);
+	});
+
+	it("makes frequent confusions cheap", () => {
+		expect(substitutionCost(DEFAULT_CONFUSION_MODEL, "8", "8")).toBe(0);
+		expect(substitutionCost(DEFAULT_CONFUSION_MODEL, "B", "8")).toBeCloseTo(0.2);
+		expect(substitutionCost(DEFAULT_CONFUSION_MODEL, "8", "B")).toBeCloseTo(0.2);
+		expect(substitutionCost(DEFAULT_CONFUSION_MODEL, "A", "4")).toBe(1);
+	});
+});
@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "./supabaseClient";
+import { normalizeBarcode } from "./barcode";
+import { postApi, type CorrectionsResult } from "./api";
+
+// Character-confusion model learned from operator corrections (mo_ocr_corrections).
+// Each correction pair of equal length is aligned position by position; every differing
+// position counts as "OCR read X where the label said Y". Pairs of different length
+// (split or merged rows, missing digits) say nothing about single characters and are skipped.
+// Models are kept per barcode profile, since fonts and label stock differ between customers.
+export type ConfusionModel = Map<string, Map<string, number>>; // read char -> actual char -> count
+
+export type CorrectionSource = "search" | "camera" | "review";
+
+export type CorrectionPair = { ocr_text: string; corrected_text: string };
+
+// The fixes that used to be hard-coded (B->8, S->5, O->0), as if seen this many times.
+// Learned pairs add to them and can outvote them.
+const PRIOR_CONFUSIONS: Array<[string, string]> = [["B", "8"], ["S", "5"], ["O", "0"]];
+const PRIOR_WEIGHT = 5;
+
+// A substitution is applied only with this much evidence and share of that character's corrections
+const MIN_EVIDENCE = 2;
+const MIN_SHARE = 0.5;
+
+// Most recent pairs per profile used for the model
+const MODEL_ROWS = 2000;
+
+function addCount(model: ConfusionModel, read: string, actual: string, count: number) {
+	const row = model.get(read) ?? new Map<string, number>();
+	row.set(actual, (row.get(actual) ?? 0) + count);
+	model.set(read, row);
+}
+
+export function buildConfusionModel(pairs: CorrectionPair[]): ConfusionModel {
+	const model: ConfusionModel = new Map();
+	for (const [read, actual] of PRIOR_CONFUSIONS) addCount(model, read, actual, PRIOR_WEIGHT);
+	for (const pair of pairs) {
+		const read = normalizeBarcode(pair.ocr_text);
+		const actual = normalizeBarcode(pair.corrected_text);
+		if (read.length !== actual.length) continue;
+		for (let i = 0; i < read.length; i++) {
+			if (read[i] !== actual[i]) addCount(model, read[i], actual[i], 1);
+		}
+	}
+	return model;
+}
+
+export const DEFAULT_CONFUSION_MODEL: ConfusionModel = buildConfusionModel([]);
+
+// Share of the corrections of `read` that turned it into `actual` (0..1)
+export function confusionShare(model: ConfusionModel, read: string, actual: string): number {
+	const row = model.get(read);
+	if (!row) return 0;
+	let total = 0;
+	for (const count of row.values()) total += count;
+	return total > 0 ? (row.get(actual) ?? 0) / total : 0;
+}
+
+// Best-supported replacement for a misread character, or null
+function likelyActual(model: ConfusionModel, read: string): string | null {
+	const row = model.get(read);
+	if (!row) return null;
+	let best: string | null = null;
+	let bestCount = 0;
+	let total = 0;
+	for (const [actual, count] of row) {
+		total += count;
+		if (count > bestCount) {
+			best = actual;
+			bestCount = count;
+		}
+	}
+	return bestCount >= MIN_EVIDENCE && bestCount / total >= MIN_SHARE ? best : null;
+}
+
+const isDigit = (c: string | undefined) => c !== undefined && c >= "0" && c <= "9";
+const isLetter = (c: string | undefined) => c !== undefined && c >= "A" && c <= "Z";
+
+// Fix likely misreads in OCR text. A character is replaced only where its neighbours say
+// the replacement belongs there: between two characters of the replacement's kind, before
+// or after two of them, or next to one inside a code-length token (6+). So a B inside
+// digits becomes 8 (1M2B45 -> 1M2845), while words like "BOX" are left alone.
+// Leading profile prefixes are never rewritten.
+export function correctOcrConfusions(
+	text: string,
+	model: ConfusionModel = DEFAULT_CONFUSION_MODEL,
+	prefixes: string[] = [],
+): string {
+	if (!text) return text;
+	return text.replace(/[A-Za-z0-9]+/g, token => {
+		const keep = prefixes.find(p => token.toUpperCase().startsWith(p))?.length ?? 0;
+		const chars = token.split("");
+		for (let i = keep; i < chars.length; i++) {
+			const actual = likelyActual(model, chars[i]);
+			if (!actual) continue;
+			const kind = isDigit(actual) ? isDigit : isLetter;
+			const [b2, b1, a1, a2] = [chars[i - 2], chars[i - 1], chars[i + 1], chars[i + 2]];
+			const inContext = (kind(b1) && kind(a1))
+				|| (kind(a1) && kind(a2))
+				|| (kind(b1) && kind(b2))
+				|| (chars.length >= 6 && (kind(b1) || kind(a1)));
+			if (inContext) chars[i] = actual;
+		}
+		return chars.join("");
+	});
+}
+
+// Cost of reading `a` where the label has `b`, for weighted similarity: 0 for the same
+// character, down to 0.2 for a confusion the operators fix all the time, 1 otherwise.
+export function substitutionCost(model: ConfusionModel, a: string, b: string): number {
+	if (a === b) return 0;
+	const share = Math.max(confusionShare(model, a, b), confusionShare(model, b, a));
+	return 1 - 0.8 * share;
+}
+
+async function listCorrections(profileId: string): Promise<CorrectionPair[]> {
+	let query = supabase
+		.from("mo_ocr_corrections")
+		.select("ocr_text, corrected_text")
+		.order("id", { ascending: false })
+		.limit(MODEL_ROWS);
+	query = profileId ? query.eq("profile_id", profileId) : query.is("profile_id", null);
+	const { data, error } = await query;
+	if (error) throw error;
+	return (data ?? []) as CorrectionPair[];
+}
+
+// Confusion model of one barcode profile ("" = built-in), plus a way to teach it.
+// Recorded pairs are folded into the local model right away; other devices pick them up on next load.
+export function useConfusionModel(profileId: string) {
+	const [pairs, setPairs] = useState<CorrectionPair[]>([]);
+	const model = useMemo(() => buildConfusionModel(pairs), [pairs]);
+
+	useEffect(() => {
+		let cancelled = false;
+		listCorrections(profileId)
+			.then(rows => {
+				if (!cancelled) setPairs(rows);
+			})
+			// The built-in priors still work without the table
+			.catch(() => undefined);
+		return () => {
+			cancelled = true;
+		};
+	}, [profileId]);
+
+	const recordCorrections = useCallback(async (source: CorrectionSource, fixes: CorrectionPair[]) => {
+		const changed = fixes.filter(f => normalizeBarcode(f.ocr_text) !== normalizeBarcode(f.corrected_text));
+		if (changed.length === 0) return;
+		setPairs(prev => [...changed, ...prev]);
+		await postApi<CorrectionsResult>("/api/ocr-corrections", { profile_id: profileId || null, source, pairs: changed });
+	}, [profileId]);
+
+	return { model, recordCorrections };
+}
@@ -0,0 +1,324 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { createWorker, type ImageLike, type Page, type Worker } from "tesseract.js";
+
+// Shared OCR engine for the OCR uploader and CAMERA pages. Tesseract runs in Web
+// Workers; each language gets a small pool that lives as long as the tab, so the
+// model is loaded once and pages of a PDF are recognized side by side.
+// Jobs queue in order and can be aborted with an AbortSignal: a queued job is
+// dropped, a running one terminates its worker (Tesseract has no per-job cancel)
+// and the slot starts a fresh one.
+export type OcrLang = "kor+eng" | "eng";
+
+// Box in image pixels (PDF points for text layers), top-left origin
+export type OcrBox = { x0: number; y0: number; x1: number; y1: number };
+
+// bbox is missing only for lines recovered from plain text
+export type OcrLine = { text: string; confidence: number; bbox?: OcrBox };
+
+// The packing-list parser reads columns from word boxes
+export type OcrWord = OcrLine & { bbox: OcrBox };
+
+// Raw recognizer output, flattened. Callers apply their own OCR corrections.
+// size is the image the boxes refer to, so they can be drawn over a page rendered at any scale.
+export type OcrResult = {
+	text: string;
+	lines: OcrLine[];
+	words: OcrWord[];
+	size: { width: number; height: number } | null;
+};
+
+type Slot = {
+	worker: Promise<Worker>;
+	busy: boolean;
+	onProgress: ((progress: number) => void) | null;
+};
+
+type Job = {
+	load: () => Promise<ImageLike>;
+	onStart?: () => void;
+	onProgress?: (progress: number) => void;
+	signal?: AbortSignal;
+	resolve: (result: OcrResult) => void;
+	reject: (e: unknown) => void;
+};
+
+type Pool = { lang: OcrLang; slots: Slot[]; queue: Job[] };
+
+const pools = new Map<OcrLang, Pool>();
+
+function poolSize(): number {
+	const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+	// Leave a core for the UI and pdf.js; every worker holds its own copy of the language model
+	return Math.max(1, Math.min(4, cores - 1));
+}
+
+function startWorker(lang: OcrLang, report: (progress: number) => void): Promise<Worker> {
+	return createWorker(lang, undefined, {
+		logger: (m) => {
+			if (m.status === "recognizing text") report(m.progress);
+		},
+	});
+}
+
+// Replace a slot's worker, e.g. after an abort left it busy or it failed to load
+function restartWorker(pool: Pool, slot: Slot) {
+	const old = slot.worker;
+	slot.worker = startWorker(pool.lang, progress => slot.onProgress?.(progress));
+	old.then(w => w.terminate()).catch(() => undefined);
+}
+
+function getPool(lang: OcrLang): Pool {
+	let pool = pools.get(lang);
+	if (!pool) {
+		pool = { lang, slots: [], queue: [] };
+		pools.set(lang, pool);
+	}
+	return pool;
+}
+
+function cancelledError(): DOMException {
+	return new DOMException("OCR cancelled", "AbortError");
+}
+
+export function isOcrCancelled(e: unknown): boolean {
+	return e instanceof DOMException && e.name === "AbortError";
+}
+
+// Pixel size of what was recognized; unknown for encoded files and URLs
+function imageSize(image: ImageLike): OcrResult["size"] {
+	if (typeof HTMLCanvasElement !== "undefined" && image instanceof HTMLCanvasElement) {
+		return { width: image.width, height: image.height };
+	}
+	if (typeof HTMLImageElement !== "undefined" && image instanceof HTMLImageElement) {
+		return { width: image.naturalWidth, height: image.naturalHeight };
+	}
+	return null;
+}
+
+function toResult(page: Page, size: OcrResult["size"]): OcrResult {
+	const lines: OcrLine[] = [];
+	const words: OcrWord[] = [];
+	for (const block of page.blocks ?? []) {
+		for (const paragraph of block.paragraphs) {
+			for (const line of paragraph.lines) {
+				lines.push({ text: line.text.trim(), confidence: line.confidence, bbox: line.bbox });
+				for (const word of line.words) words.push({ text: word.text, confidence: word.confidence, bbox: word.bbox });
+			}
+		}
+	}
+	// No layout output: fall back to plain text lines without confidence
+	if (lines.length === 0 && page.text) {
+		for (const text of page.text.split("\n")) {
+			if (text.trim()) lines.push({ text: text.trim(), confidence: 0 });
+		}
+	}
+	return { text: page.text ?? "", lines: lines.filter(l => l.text.length > 0), words, size };
+}
+
+async function runJob(pool: Pool, slot: Slot, job: Job) {
+	let recognizing = false;
+	let onAbort: (() => void) | null = null;
+	const aborted = new Promise<never>((_, reject) => {
+		onAbort = () => reject(cancelledError());
+		job.signal?.addEventListener("abort", onAbort, { once: true });
+	});
+	try {
+		if (job.signal?.aborted) throw cancelledError();
+		job.onStart?.();
+		const image = await Promise.race([job.load(), aborted]);
+		recognizing = true;
+		slot.onProgress = job.onProgress ?? null;
+		const worker = await Promise.race([slot.worker, aborted]);
+		const { data } = await Promise.race([worker.recognize(image, {}, { text: true, blocks: true }), aborted]);
+		job.resolve(toResult(data, imageSize(image)));
+	} catch (e) {
+		if (recognizing) restartWorker(pool, slot);
+		job.reject(e);
+	} finally {
+		if (onAbort) job.signal?.removeEventListener("abort", onAbort);
+		slot.onProgress = null;
+		slot.busy = false;
+		pump(pool);
+	}
+}
+
+function pump(pool: Pool) {
+	while (pool.queue.length > 0) {
+		let slot = pool.slots.find(s => !s.busy);
+		if (!slot && pool.slots.length < poolSize()) {
+			const created: Slot = {
+				worker: startWorker(pool.lang, progress => created.onProgress?.(progress)),
+				busy: false,
+				onProgress: null,
+			};
+			pool.slots.push(created);
+			slot = created;
+		}
+		if (!slot) return;
+		slot.busy = true;
+		void runJob(pool, slot, pool.queue.shift() as Job);
+	}
+}
+
+// Queue one image. load() runs only once a worker is free, so big PDF pages are
+// rendered just in time instead of all up front.
+export function recognize(
+	load: () => Promise<ImageLike>,
+	options: {
+		lang: OcrLang;
+		onStart?: () => void;
+		onProgress?: (progress: number) => void;
+		signal?: AbortSignal;
+	},
+): Promise<OcrResult> {
+	return new Promise((resolve, reject) => {
+		const pool = getPool(options.lang);
+		const job: Job = { load, onStart: options.onStart, onProgress: options.onProgress, signal: options.signal, resolve, reject };
+		if (options.signal?.aborted) {
+			reject(cancelledError());
+			return;
+		}
+		// Drop the job while it is still waiting for a worker
+		options.signal?.addEventListener("abort", () => {
+			const index = pool.queue.indexOf(job);
+			if (index >= 0) {
+				pool.queue.splice(index, 1);
+				reject(cancelledError());
+			}
+		}, { once: true });
+		pool.queue.push(job);
+		pump(pool);
+	});
+}
+
+// Grayscale + contrast boost; noticeably better recognition on scanned packing lists
+export function enhanceForOcr(canvas: HTMLCanvasElement): HTMLCanvasElement {
+	const ctx = canvas.getContext("2d");
+	if (!ctx) return canvas;
+	const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+	const data = imageData.data;
+	const contrast = 2.0;
+	for (let i = 0; i < data.length; i += 4) {
+		const gray = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+		const enhanced = Math.min(255, Math.max(0, (gray - 128) * contrast + 128));
+		data[i] = enhanced;
+		data[i + 1] = enhanced;
+		data[i + 2] = enhanced;
+	}
+	ctx.putImageData(imageData, 0, 0);
+	return canvas;
+}
+
+export type OcrPageStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+// How a page's lines were obtained: the document's own text, or Tesseract on the bitmap
+export type OcrPageMethod = "text" | "ocr";
+
+export type OcrPage = {
+	page: number;
+	status: OcrPageStatus;
+	method: OcrPageMethod | null;
+	progress: number; // 0..1
+	result: OcrResult | null;
+	error: string | null;
+};
+
+// extract() may return the page's lines without OCR (e.g. a PDF text layer); null falls back to load()
+export type OcrPageSource = {
+	page: number;
+	load: () => Promise<ImageLike>;
+	extract?: () => Promise<OcrResult | null>;
+};
+
+function overallProgress(pages: OcrPage[]): number {
+	const counted = pages.filter(p => p.status !== "cancelled");
+	if (counted.length === 0) return 0;
+	return counted.reduce((sum, p) => sum + (p.status === "done" || p.status === "failed" ? 1 : p.progress), 0) / counted.length;
+}
+
+// Per-page state for a multi-page run (PDF): progress, ETA, cancel and retry of single pages.
+export function useOcrPages(lang: OcrLang) {
+	const [pages, setPages] = useState<OcrPage[]>([]);
+	const [etaSeconds, setEtaSeconds] = useState<number | null>(null);
+	const pagesRef = useRef<OcrPage[]>([]);
+	const sourcesRef = useRef<Map<number, OcrPageSource>>(new Map());
+	const controllersRef = useRef<Map<number, AbortController>>(new Map());
+	const startedAtRef = useRef<number>(0);
+
+	const update = useCallback((page: number, patch: Partial<OcrPage>) => {
+		pagesRef.current = pagesRef.current.map(p => (p.page === page ? { ...p, ...patch } : p));
+		setPages(pagesRef.current);
+		const done = overallProgress(pagesRef.current);
+		const elapsed = (Date.now() - startedAtRef.current) / 1000;
+		setEtaSeconds(done > 0.02 && done < 1 ? Math.round((elapsed * (1 - done)) / done) : null);
+	}, []);
+
+	const runPage = useCallback(async (page: number) => {
+		const source = sourcesRef.current.get(page);
+		if (!source) return;
+		controllersRef.current.get(page)?.abort();
+		const controller = new AbortController();
+		controllersRef.current.set(page, controller);
+		update(page, { status: "queued", method: null, progress: 0, result: null, error: null });
+		try {
+			const extracted = source.extract ? await source.extract() : null;
+			if (controllersRef.current.get(page) !== controller) return;
+			if (controller.signal.aborted) throw cancelledError();
+			if (extracted) {
+				update(page, { status: "done", method: "text", progress: 1, result: extracted });
+				return;
+			}
+			const result = await recognize(source.load, {
+				lang,
+				signal: controller.signal,
+				onStart: () => update(page, { status: "running", method: "ocr" }),
+				onProgress: (progress) => update(page, { progress }),
+			});
+			if (controllersRef.current.get(page) !== controller) return; // superseded by a retry or a new run
+			update(page, { status: "done", progress: 1, result });
+		} catch (e) {
+			if (controllersRef.current.get(page) !== controller) return;
+			const msg = e instanceof Error ? e.message : String(e);
+			update(page, isOcrCancelled(e) ? { status: "cancelled" } : { status: "failed", error: msg });
+		} finally {
+			if (controllersRef.current.get(page) === controller) controllersRef.current.delete(page);
+		}
+	}, [lang, update]);
+
+	// Start a new run, cancelling whatever is still in flight. Resolves with the pages once every page settled.
+	const start = useCallback(async (sources: OcrPageSource[]): Promise<OcrPage[]> => {
+		for (const controller of controllersRef.current.values()) controller.abort();
+		controllersRef.current.clear();
+		sourcesRef.current = new Map(sources.map(s => [s.page, s]));
+		pagesRef.current = sources.map(s => ({ page: s.page, status: "queued", method: null, progress: 0, result: null, error: null }));
+		startedAtRef.current = Date.now();
+		setPages(pagesRef.current);
+		setEtaSeconds(null);
+		await Promise.all(sources.map(s => runPage(s.page)));
+		return pagesRef.current;
+	}, [runPage]);
+
+	const cancelPage = useCallback((page: number) => {
+		controllersRef.current.get(page)?.abort();
+	}, []);
+
+	const cancelAll = useCallback(() => {
+		for (const controller of controllersRef.current.values()) controller.abort();
+	}, []);
+
+	const retryPage = useCallback((page: number) => {
+		void runPage(page);
+	}, [runPage]);
+
+	// Leaving the page cancels its jobs; the worker pool itself stays warm
+	useEffect(() => {
+		const controllers = controllersRef.current;
+		return () => {
+			for (const controller of controllers.values()) controller.abort();
+		};
+	}, []);
+
+	const running = pages.some(p => p.status === "queued" || p.status === "running");
+
+	return { pages, progress: overallProgress(pages), etaSeconds, running, start, cancelPage, cancelAll, retryPage };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import type { OcrWord } from "./ocrEngine";
+import { foldPackingColumns, parsePackingList } from "./packingList";
+
+const word = (text: string, x0: number, x1: number, y0: number): OcrWord =>
+	({ text, confidence: 90, bbox: { x0, y0, x1, y1: y0 + 10 } });
+
+// One printed row: case, code, quantity and weight under their headers
+const row = (y: number, cells: [string, string, string, string]): OcrWord[] => [
+	word(cells[0], 0, 30, y),
+	word(cells[1], 50, 150, y),
+	word(cells[2], 200, 220, y),
+	word(cells[3], 300, 330, y),
+];
+
+const HEADER = row(0, ["CASE", "BARCODE", "QTY", "WEIGHT"]);
+
+const isCode = (text: string) => /^[12]M\d{12}$/.test(text);
+const identity = (text: string) => text;
+
+describe("parsePackingList", () => {
+	it("splits code rows into the columns found in the header", () => {
+		const { rows, layout } = parsePackingList([...HEADER, ...row(20, ["C-01", "1M123456789012", "1,200", "12.5KG"])], isCode, identity);
+		expect(layout?.map(l => l.column)).toEqual(["case_no", "quantity", "weight"]);
+		expect(rows).toEqual([{
+			text: "1M123456789012",
+			confidence: 90,
+			case_no: "C-01",
+			part_no: null,
+			quantity: 1200,
+			weight: 12.5,
+			bbox: { x0: 0, y0: 20, x1: 330, y1: 30 },
+		}]);
+	});
+
+	it("skips rows without a code and fixes misreads in the code", () => {
+		const words = [...HEADER, ...row(20, ["C-01", "TOTAL", "3", "40"]), ...row(40, ["C-02", "1M12345678901B", "2", "x"])];
+		const { rows } = parsePackingList(words, isCode, text => text.replace("B", "8"));
+		expect(rows).toHaveLength(1);
+		expect(rows[0]).toMatchObject({ text: "1M123456789018", case_no: "C-02", quantity: 2, weight: null });
+	});
+
+	it("uses the layout of an earlier page when a page has no header", () => {
+		const { layout } = parsePackingList(HEADER, isCode, identity);
+		const { rows } = parsePackingList(row(20, ["C-03", "2M123456789012", "5", "1"]), isCode, identity, layout);
+		expect(rows[0]).toMatchObject({ case_no: "C-03", quantity: 5, weight: 1 });
+	});
+
+	it("leaves columns empty without any layout", () => {
+		const { rows, layout } = parsePackingList(row(20, ["C-03", "2M123456789012", "5", "1"]), isCode, identity);
+		expect(layout).toBeNull();
+		expect(rows[0]).toMatchObject({ case_no: null, quantity: null, weight: null });
+	});
+});
+
+describe("foldPackingColumns", () => {
+	it("joins cases and adds up quantities and weights", () => {
+		const folded = foldPackingColumns(
+			{ case_no: "C1", part_no: "P1", quantity: 2, weight: 1.5 },
+			{ case_no: "C2, C1", part_no: null, quantity: null, weight: 2 },
+		);
+		expect(folded).toEqual({ case_no: "C1, C2", part_no: "P1", quantity: 2, weight: 3.5 });
+	});
+
+	it("keeps unknown values unknown", () => {
+		const empty = { case_no: null, part_no: null, quantity: null, weight: null };
+		expect(foldPackingColumns(empty, empty)).toEqual(empty);
+	});
+});
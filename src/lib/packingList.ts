@@ -0,0 +1,136 @@
+import { normalizeBarcode } from "./barcode";
+import type { OcrBox, OcrWord } from "./ocrEngine";
+
+// Table reader for CKD packing lists. The lists print one case per row with case
+// number, part number, quantity and weight columns next to the barcode. Columns are
+// located from the header row's word boxes; every row holding a code is then split
+// into cells by which header each word sits under.
+export type PackingColumn = "case_no" | "part_no" | "quantity" | "weight";
+
+export type PackingRow = {
+	text: string;
+	confidence: number;
+	case_no: string | null;
+	part_no: string | null;
+	quantity: number | null;
+	weight: number | null;
+	bbox: OcrBox | null; // whole printed row, in the page's OCR coordinates
+};
+
+// Packing-list columns of one code as stored with the manifest
+export type PackingColumns = Pick<PackingRow, PackingColumn>;
+
+// One code listed on several cases becomes one manifest row: cases are joined,
+// quantities and weights add up (unknown stays unknown only if both are)
+export function foldPackingColumns(a: PackingColumns, b: PackingColumns): PackingColumns {
+	const sum = (x: number | null, y: number | null) => (x !== null && y !== null ? x + y : x ?? y);
+	const cases = [a.case_no, b.case_no].flatMap(c => (c ? c.split(", ") : []));
+	return {
+		case_no: cases.length > 0 ? [...new Set(cases)].join(", ") : null,
+		part_no: a.part_no ?? b.part_no,
+		quantity: sum(a.quantity, b.quantity),
+		weight: sum(a.weight, b.weight),
+	};
+}
+
+// Header cells as printed on the lists we receive (English and Korean forms)
+const HEADER_WORDS: Record<PackingColumn, RegExp> = {
+	case_no: /^(CASE|C\/NO\.?|C\/T|CTN|케이스|상자)$/i,
+	part_no: /^(PART|P\/NO\.?|PARTNO\.?|품번|부품번호)$/i,
+	quantity: /^(QTY|Q'TY|Q’TY|QUANTITY|PCS|수량)$/i,
+	weight: /^(WEIGHT|WT|G\/W|N\/W|GW|NW|KG|중량)$/i,
+};
+
+// Header position of one column; cells belong to the nearest header horizontally
+export type ColumnLayout = Array<{ column: PackingColumn; x: number }>;
+
+type Row = OcrWord[];
+
+const centerX = (w: OcrWord) => (w.bbox.x0 + w.bbox.x1) / 2;
+const centerY = (w: OcrWord) => (w.bbox.y0 + w.bbox.y1) / 2;
+
+// Group words into printed rows. The tolerance follows the glyph height, so it works
+// for 3x-scaled scans and PDF points alike.
+function groupRows(words: OcrWord[]): Row[] {
+	const heights = words.map(w => w.bbox.y1 - w.bbox.y0).filter(h => h > 0).sort((a, b) => a - b);
+	const tolerance = Math.max(2, (heights[Math.floor(heights.length / 2)] ?? 10) * 0.5);
+	const rows: Row[] = [];
+	for (const word of [...words].sort((a, b) => centerY(a) - centerY(b))) {
+		const row = rows[rows.length - 1];
+		if (row && Math.abs(centerY(row[0]) - centerY(word)) <= tolerance) row.push(word);
+		else rows.push([word]);
+	}
+	for (const row of rows) row.sort((a, b) => a.bbox.x0 - b.bbox.x0);
+	return rows;
+}
+
+function headerColumns(row: Row): ColumnLayout {
+	const layout: ColumnLayout = [];
+	for (const word of row) {
+		const text = word.text.trim();
+		const column = (Object.keys(HEADER_WORDS) as PackingColumn[]).find(c => HEADER_WORDS[c].test(text));
+		if (column && !layout.some(l => l.column === column)) layout.push({ column, x: centerX(word) });
+	}
+	return layout;
+}
+
+function parseInteger(text: string): number | null {
+	const digits = text.replace(/[,\s]/g, "");
+	return /^\d+$/.test(digits) ? Number(digits) : null;
+}
+
+function parseDecimal(text: string): number | null {
+	const value = text.replace(/[,\s]/g, "").replace(/KG$/i, "");
+	return /^\d+(\.\d+)?$/.test(value) ? Number(value) : null;
+}
+
+// Parse one page. correct() fixes OCR misreads in code candidates. layout carries the
+// columns found on an earlier page, since only the first page of a multi-page list
+// usually prints the header. Rows without a code are skipped.
+export function parsePackingList(
+	words: OcrWord[],
+	isCode: (text: string) => boolean,
+	correct: (text: string) => string,
+	layout: ColumnLayout | null = null,
+): { rows: PackingRow[]; layout: ColumnLayout | null } {
+	const rows: PackingRow[] = [];
+	for (const row of groupRows(words)) {
+		const header = headerColumns(row);
+		// At least two known headers, so a stray "KG" in a data row is not taken for one
+		if (header.length >= 2) {
+			layout = header;
+			continue;
+		}
+		const codeIndex = row.findIndex(w => isCode(normalizeBarcode(correct(w.text))));
+		if (codeIndex < 0) continue;
+		const code = row[codeIndex];
+		const cells = new Map<PackingColumn, string[]>();
+		const columns = layout;
+		if (columns && columns.length > 0) {
+			row.forEach((word, i) => {
+				if (i === codeIndex) return;
+				const nearest = columns.reduce((best, l) =>
+					Math.abs(l.x - centerX(word)) < Math.abs(best.x - centerX(word)) ? l : best);
+				cells.set(nearest.column, [...(cells.get(nearest.column) ?? []), word.text]);
+			});
+		}
+		const cell = (column: PackingColumn) => cells.get(column)?.join(" ") ?? null;
+		const quantity = cell("quantity");
+		const weight = cell("weight");
+		rows.push({
+			text: correct(code.text),
+			confidence: code.confidence,
+			case_no: cell("case_no"),
+			part_no: cell("part_no"),
+			quantity: quantity !== null ? parseInteger(quantity) : null,
+			weight: weight !== null ? parseDecimal(weight) : null,
+			bbox: {
+				x0: Math.min(...row.map(w => w.bbox.x0)),
+				y0: Math.min(...row.map(w => w.bbox.y0)),
+				x1: Math.max(...row.map(w => w.bbox.x1)),
+				y1: Math.max(...row.map(w => w.bbox.y1)),
+			},
+		});
+	}
+	return { rows, layout };
+}
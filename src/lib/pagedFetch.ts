@@ -0,0 +1,43 @@
+import { supabase } from "./supabaseClient";
+
+// PostgREST caps every response (1000 rows by default), so a plain select on a big
+// manifest silently returns only the first page. fetchAllRows walks the table in
+// id order (keyset pagination: id > last seen id) until every matching row is loaded.
+// Row types carry the id it pages by, which is always selected.
+export type PagedTable = "mo_ocr_results" | "mo_scan_items";
+
+export type LoadProgress = { loaded: number; total: number | null };
+
+const PAGE_SIZE = 1000;
+
+export async function fetchAllRows<T extends { id: number }>(
+	table: PagedTable,
+	columns: string,
+	filters: Record<string, string>,
+	onProgress?: (progress: LoadProgress) => void,
+): Promise<T[]> {
+	const rows: T[] = [];
+	let total: number | null = null;
+	let lastId = 0;
+	for (;;) {
+		let query = supabase
+			.from(table)
+			// Exact count only on the first page; it drives the progress indicator
+			.select<string, T>(`id, ${columns}`, lastId === 0 ? { count: "exact" } : undefined)
+			.gt("id", lastId)
+			.order("id", { ascending: true })
+			.limit(PAGE_SIZE);
+		for (const [column, value] of Object.entries(filters)) query = query.eq(column, value);
+		const { data, count, error } = await query;
+		if (error) throw error;
+		if (lastId === 0) total = count ?? null;
+		const page = data ?? [];
+		if (page.length === 0) break;
+		rows.push(...page);
+		lastId = page[page.length - 1].id;
+		onProgress?.({ loaded: rows.length, total });
+		// Stop at the counted total; page length alone can mislead when the server cap is below PAGE_SIZE
+		if (total !== null ? rows.length >= total : page.length < PAGE_SIZE) break;
+	}
+	return rows;
+}
@@ -0,0 +1,104 @@
+import type { OcrLine, OcrResult, OcrWord } from "./ocrEngine";
+
+// pdf.js loaded on demand (it is large and only the OCR uploader needs it)
+export type PdfDocument = {
+	numPages: number;
+	// Render one page (1-based) to a fresh canvas
+	renderPage: (pageNum: number, scale: number) => Promise<HTMLCanvasElement>;
+	// Text layer of one page: rows rebuilt top to bottom, and the runs as words, with
+	// top-left boxes in PDF points (size). Both are empty for scanned pages.
+	textLayer: (pageNum: number) => Promise<{ lines: OcrLine[]; words: OcrWord[]; size: NonNullable<OcrResult["size"]> }>;
+};
+
+type TextItem = { str: string; x: number; y: number; width: number; height: number };
+
+// pdf.js hands out text runs in content-stream order, which need not be reading order.
+// Runs whose baselines are within half a glyph height share a row; within a row they are
+// ordered left to right and joined with a space only where there is a visible gap, so a
+// code split into several runs comes out in one piece.
+function buildRows(items: TextItem[], pageHeight: number): OcrLine[] {
+	const sorted = items
+		.filter(i => i.str.trim().length > 0)
+		.sort((a, b) => b.y - a.y || a.x - b.x);
+	const rows: TextItem[][] = [];
+	for (const item of sorted) {
+		const row = rows[rows.length - 1];
+		const tolerance = Math.max(2, item.height * 0.5);
+		if (row && Math.abs(row[0].y - item.y) <= tolerance) row.push(item);
+		else rows.push([item]);
+	}
+	return rows.map(row => {
+		row.sort((a, b) => a.x - b.x);
+		let text = "";
+		let end = -Infinity;
+		for (const item of row) {
+			const gap = item.x - end;
+			if (text && gap > Math.max(1, item.height * 0.2)) text += " ";
+			text += item.str;
+			end = item.x + item.width;
+		}
+		const bbox = {
+			x0: Math.min(...row.map(i => i.x)),
+			y0: Math.min(...row.map(i => pageHeight - i.y - i.height)),
+			x1: Math.max(...row.map(i => i.x + i.width)),
+			y1: Math.max(...row.map(i => pageHeight - i.y)),
+		};
+		return { text: text.replace(/\s+/g, " ").trim(), confidence: 100, bbox };
+	}).filter(l => l.text.length > 0);
+}
+
+// A run can hold several table cells ("1M0000 12 34.5"); split it on spaces and place each
+// token by its character offset, which is close enough for column assignment
+function splitRun(item: TextItem, pageHeight: number): OcrWord[] {
+	const charWidth = item.str.length > 0 ? item.width / item.str.length : 0;
+	const y0 = pageHeight - item.y - item.height;
+	const y1 = pageHeight - item.y;
+	const words: OcrWord[] = [];
+	for (const match of item.str.matchAll(/\S+/g)) {
+		const x0 = item.x + (match.index ?? 0) * charWidth;
+		words.push({ text: match[0], confidence: 100, bbox: { x0, y0, x1: x0 + match[0].length * charWidth, y1 } });
+	}
+	return words;
+}
+
+export async function openPdf(file: File): Promise<PdfDocument> {
+	// @ts-expect-error - legacy browser bundle has no types in this path
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	const pdfjs: any = await import("pdfjs-dist/legacy/build/pdf");
+	// Use local worker file (.mjs) served from /public to avoid CDN/network issues
+	pdfjs.GlobalWorkerOptions.workerSrc = "/pdf.worker.min.mjs";
+
+	const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+	return {
+		numPages: pdf.numPages,
+		renderPage: async (pageNum, scale) => {
+			const page = await pdf.getPage(pageNum);
+			const viewport = page.getViewport({ scale });
+			const canvas = document.createElement("canvas");
+			const ctx = canvas.getContext("2d");
+			if (!ctx) throw new Error(`Failed to get canvas context for page ${pageNum}`);
+			canvas.width = viewport.width;
+			canvas.height = viewport.height;
+			await page.render({ canvasContext: ctx, viewport, canvas }).promise;
+			return canvas;
+		},
+		textLayer: async (pageNum) => {
+			const page = await pdf.getPage(pageNum);
+			const { width, height: pageHeight } = page.getViewport({ scale: 1 }) as { width: number; height: number };
+			const content = await page.getTextContent();
+			// eslint-disable-next-line @typescript-eslint/no-explicit-any
+			const items: TextItem[] = content.items.filter((i: any) => typeof i.str === "string").map((i: any) => ({
+				str: i.str,
+				x: i.transform[4],
+				y: i.transform[5],
+				width: i.width,
+				height: Math.abs(i.height || i.transform[3]),
+			}));
+			return {
+				lines: buildRows(items, pageHeight),
+				words: items.flatMap(i => splitRun(i, pageHeight)),
+				size: { width, height: pageHeight },
+			};
+		},
+	};
+}
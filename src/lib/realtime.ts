@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "./supabaseClient";
+
+// Supabase Realtime (Postgres changes) for pages several PDAs work on at once.
+// Tables must be in the supabase_realtime publication (see mo_schema.sql).
+export type RealtimeTable = "mo_scan_items" | "mo_ocr_results" | "mo_lq2_inventory";
+
+// With RLS on, DELETE events only carry the primary key in `old`, so pages
+// reload on delete instead of trying to merge it. RESYNC follows a reconnect: changes
+// made while the channel was down never arrive, so pages reload then as well.
+export type TableChange<T> =
+	| { eventType: "INSERT" | "UPDATE"; row: T }
+	| { eventType: "DELETE"; id: number | null }
+	| { eventType: "RESYNC" };
+
+export type SyncState = { connected: boolean; lastSyncedAt: Date | null };
+
+// Reported while a subscription is skipped: nothing to sync is not a lost connection
+const IDLE_SYNC: SyncState = { connected: true, lastSyncedAt: null };
+
+// Subscribe to changes on one table. filter uses the Realtime syntax, e.g. "session_id=eq.<uuid>".
+// Passing filter = null on a table that needs one (no session yet) skips the subscription.
+export function useTableChanges<T>(
+	table: RealtimeTable,
+	filter: string | null | undefined,
+	onChange: (change: TableChange<T>) => void,
+): SyncState {
+	const [sync, setSync] = useState<SyncState>({ connected: false, lastSyncedAt: null });
+	// The channel outlives renders, so it calls the latest handler through a ref
+	const onChangeRef = useRef(onChange);
+	useEffect(() => {
+		onChangeRef.current = onChange;
+	}, [onChange]);
+
+	useEffect(() => {
+		if (filter === null) return;
+		let lost = false;
+		const channel = supabase
+			.channel(`${table}:${filter ?? "*"}:${Math.random().toString(36).slice(2)}`)
+			.on(
+				"postgres_changes",
+				{ event: "*", schema: "public", table, ...(filter ? { filter } : {}) },
+				(payload) => {
+					if (payload.eventType === "DELETE") {
+						const id = (payload.old as { id?: number }).id;
+						onChangeRef.current({ eventType: "DELETE", id: id ?? null });
+					} else {
+						onChangeRef.current({ eventType: payload.eventType, row: payload.new as T });
+					}
+					setSync({ connected: true, lastSyncedAt: new Date() });
+				},
+			)
+			.subscribe((status) => {
+				if (status === "SUBSCRIBED") {
+					if (lost) onChangeRef.current({ eventType: "RESYNC" });
+					lost = false;
+					setSync({ connected: true, lastSyncedAt: new Date() });
+				} else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT" || status === "CLOSED") {
+					lost = true;
+					setSync(prev => ({ ...prev, connected: false }));
+				}
+			});
+		return () => {
+			void supabase.removeChannel(channel);
+		};
+	}, [table, filter]);
+
+	return filter === null ? IDLE_SYNC : sync;
+}
+
+// One indicator for several subscriptions: connected only if all are, synced as of the latest event
+export function combineSync(...states: SyncState[]): SyncState {
+	let lastSyncedAt: Date | null = null;
+	for (const s of states) {
+		if (s.lastSyncedAt && (!lastSyncedAt || s.lastSyncedAt > lastSyncedAt)) lastSyncedAt = s.lastSyncedAt;
+	}
+	return { connected: states.every(s => s.connected), lastSyncedAt };
+}
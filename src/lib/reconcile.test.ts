@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { describeLine, reconcile } from "./reconcile";
+
+describe("reconcile", () => {
+	const expected = [{ text: "A", count: 2 }, { text: "B", count: 1 }, { text: "C", count: 1 }, { text: "Z", count: 0 }];
+	const scanned = [{ text: "A", count: 1 }, { text: "B", count: 2 }, { text: "D", count: 1 }, { text: "D", count: 1 }];
+	const result = reconcile(expected, scanned);
+
+	it("sorts every code into one reason", () => {
+		expect(result.matched).toEqual([{ text: "B", expected: 1, scanned: 2, reason: "over_scan" }]);
+		expect(result.missing).toEqual([
+			{ text: "A", expected: 2, scanned: 1, reason: "partial" },
+			{ text: "C", expected: 1, scanned: 0, reason: "not_scanned" },
+		]);
+		expect(result.unexpected).toEqual([{ text: "D", expected: 0, scanned: 2, reason: "not_listed" }]);
+		expect(result.duplicates.map(l => [l.text, l.reason])).toEqual([["B", "over_scan"], ["D", "repeat_scan"]]);
+	});
+
+	it("counts labels, without over-scans inflating progress", () => {
+		expect(result.totals).toEqual({ expected: 4, scanned: 5, done: 2 });
+	});
+
+	it("leaves similarity out unless asked", () => {
+		expect(result.probable).toEqual([]);
+		expect(result.candidates.size).toBe(0);
+	});
+
+	it("pairs an unexpected scan with a close listed code that is still short", () => {
+		const { unexpected, probable, candidates } = reconcile(
+			[{ text: "1M123456789012", count: 1 }],
+			[{ text: "1M128456789012", count: 1 }],
+			{ similarity: {} },
+		);
+		expect(unexpected[0].reason).toBe("probable_ocr_error");
+		expect(probable).toEqual([expect.objectContaining({ expected: "1M123456789012", scanned: "1M128456789012" })]);
+		expect(candidates.get("1M128456789012")?.[0]).toMatchObject({ expected: "1M123456789012", missing: true });
+	});
+
+	it("does not blame OCR when the close code is already complete", () => {
+		const { unexpected, probable } = reconcile(
+			[{ text: "1M123456789012", count: 1 }],
+			[{ text: "1M123456789012", count: 1 }, { text: "1M128456789012", count: 1 }],
+			{ similarity: {} },
+		);
+		expect(unexpected[0].reason).toBe("not_listed");
+		expect(probable).toEqual([]);
+	});
+});
+
+describe("describeLine", () => {
+	it("describes counts for lists and status lines", () => {
+		expect(describeLine({ text: "A", expected: 2, scanned: 1, reason: "partial" })).toBe("1 of 2 scanned");
+		expect(describeLine({ text: "B", expected: 1, scanned: 2, reason: "over_scan" })).toBe("2 of 1 scanned (+1)");
+		expect(describeLine({ text: "D", expected: 0, scanned: 2, reason: "not_listed" })).toBe("Not on manifest · scanned 2x");
+		expect(describeLine({ text: "D", expected: 0, scanned: 1, reason: "probable_ocr_error" })).toBe("Probable OCR error");
+	});
+});
@@ -0,0 +1,142 @@
+import { barcodeSimilarity } from "./barcode";
+
+// Reconciliation of an expected manifest against a session's scans, shared by MATCH,
+// SCAN and SEARCH so every page gives the same answer. Counts are labels: a manifest
+// may list one code on several cases (mo_ocr_results.expected_count), and a code may
+// be scanned more than once (mo_scan_items.scan_count). Texts must already be normalized.
+export type CodeCount = { text: string; count: number };
+
+export type ReconcileReason =
+	| "exact"               // scanned as often as listed
+	| "partial"             // scanned, fewer times than listed
+	| "not_scanned"         // listed, never scanned
+	| "over_scan"           // listed, scanned more often than listed
+	| "not_listed"          // scanned, not on the manifest
+	| "probable_ocr_error"  // not on the manifest, but close to a listed code that is still short
+	| "repeat_scan";        // not on the manifest and scanned more than once
+
+export type ReconcileLine = {
+	text: string;
+	expected: number; // labels listed; 0 = not on the manifest
+	scanned: number;
+	reason: ReconcileReason;
+};
+
+// A listed code close to an unexpected scan; missing = still short of its count
+export type Candidate = { expected: string; score: number; details: string; missing: boolean };
+
+export type ProbablePair = { expected: string; scanned: string; score: number; details: string };
+
+export type Reconciliation = {
+	matched: ReconcileLine[];    // exact | over_scan
+	missing: ReconcileLine[];    // not_scanned | partial
+	unexpected: ReconcileLine[]; // not_listed | probable_ocr_error
+	duplicates: ReconcileLine[]; // over_scan | repeat_scan
+	probable: ProbablePair[];    // best short listed code per unexpected scan, highest score first
+	candidates: Map<string, Candidate[]>; // per unexpected code, best first
+	// Labels: done counts scans up to each code's listed count, so over-scans do not inflate progress
+	totals: { expected: number; scanned: number; done: number };
+};
+
+export type SimilarityOptions = {
+	cost?: (a: string, b: string) => number; // see barcodeSimilarity
+	threshold?: number;
+	limit?: number; // candidates kept per unexpected code
+};
+
+export const REASON_LABEL: Record<ReconcileReason, string> = {
+	exact: "Complete",
+	partial: "Partly scanned",
+	not_scanned: "Not scanned",
+	over_scan: "Over-scanned",
+	not_listed: "Not on manifest",
+	probable_ocr_error: "Probable OCR error",
+	repeat_scan: "Scanned again",
+};
+
+// Sum counts of repeated texts; zero and negative counts are dropped
+function countMap(items: CodeCount[]): Map<string, number> {
+	const map = new Map<string, number>();
+	for (const item of items) {
+		if (item.count > 0) map.set(item.text, (map.get(item.text) ?? 0) + item.count);
+	}
+	return map;
+}
+
+const byText = (a: ReconcileLine, b: ReconcileLine) => a.text.localeCompare(b.text);
+
+// Similarity against listed codes is the expensive part (unexpected x expected); pages that
+// only need counts leave options.similarity out.
+export function reconcile(
+	expectedItems: CodeCount[],
+	scannedItems: CodeCount[],
+	options: { similarity?: SimilarityOptions } = {},
+): Reconciliation {
+	const expected = countMap(expectedItems);
+	const scanned = countMap(scannedItems);
+	const result: Reconciliation = {
+		matched: [],
+		missing: [],
+		unexpected: [],
+		duplicates: [],
+		probable: [],
+		candidates: new Map(),
+		totals: { expected: 0, scanned: 0, done: 0 },
+	};
+
+	for (const [text, listed] of expected) {
+		const count = scanned.get(text) ?? 0;
+		result.totals.expected += listed;
+		result.totals.done += Math.min(count, listed);
+		if (count === 0) {
+			result.missing.push({ text, expected: listed, scanned: 0, reason: "not_scanned" });
+		} else if (count < listed) {
+			result.missing.push({ text, expected: listed, scanned: count, reason: "partial" });
+		} else {
+			const line: ReconcileLine = { text, expected: listed, scanned: count, reason: count > listed ? "over_scan" : "exact" };
+			result.matched.push(line);
+			if (line.reason === "over_scan") result.duplicates.push(line);
+		}
+	}
+
+	const short = new Set(result.missing.map(l => l.text));
+	const similarity = options.similarity;
+	for (const [text, count] of scanned) {
+		result.totals.scanned += count;
+		if (expected.has(text)) continue;
+
+		let reason: ReconcileReason = "not_listed";
+		if (similarity) {
+			const candidates: Candidate[] = [];
+			for (const listed of expected.keys()) {
+				const match = barcodeSimilarity(listed, text, similarity.cost);
+				if (match && match.score >= (similarity.threshold ?? 0.7)) {
+					candidates.push({ expected: listed, score: match.score, details: match.details, missing: short.has(listed) });
+				}
+			}
+			candidates.sort((a, b) => b.score - a.score);
+			if (candidates.length > 0) result.candidates.set(text, candidates.slice(0, similarity.limit ?? 5));
+			const best = candidates.find(c => c.missing);
+			if (best) {
+				reason = "probable_ocr_error";
+				result.probable.push({ expected: best.expected, scanned: text, score: best.score, details: best.details });
+			}
+		}
+		result.unexpected.push({ text, expected: 0, scanned: count, reason });
+		if (count > 1) result.duplicates.push({ text, expected: 0, scanned: count, reason: "repeat_scan" });
+	}
+
+	result.matched.sort(byText);
+	result.missing.sort(byText);
+	result.unexpected.sort(byText);
+	result.duplicates.sort(byText);
+	result.probable.sort((a, b) => b.score - a.score);
+	return result;
+}
+
+// "3 of 5 scanned", "scanned 2x", ... for lists and status lines
+export function describeLine(line: ReconcileLine): string {
+	if (line.expected === 0) return line.scanned > 1 ? `${REASON_LABEL[line.reason]} · scanned ${line.scanned}x` : REASON_LABEL[line.reason];
+	if (line.reason === "over_scan") return `${line.scanned} of ${line.expected} scanned (+${line.scanned - line.expected})`;
+	return `${line.scanned} of ${line.expected} scanned`;
+}
@@ -0,0 +1,109 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { barcodeIssue, normalizeBarcode, type BarcodeSpec } from "./barcode";
+import type { Role } from "./auth";
+
+// Shared plumbing for the /api route handlers. Each request gets its own Supabase
+// client carrying the caller's access token, so RLS, the operator stamps and the
+// audit trigger see the signed-in operator exactly as with direct client writes.
+
+// Thrown by handlers for anything the caller got wrong; becomes { error } with this status
+export class RequestError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "RequestError";
+		this.status = status;
+	}
+}
+
+export function supabaseForRequest(req: Request): SupabaseClient {
+	const authorization = req.headers.get("authorization");
+	if (!authorization?.startsWith("Bearer ")) throw new RequestError(401, "Sign in required");
+	return createClient(
+		process.env.NEXT_PUBLIC_SUPABASE_URL as string,
+		process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY as string,
+		{
+			auth: { persistSession: false, autoRefreshToken: false },
+			global: { headers: { Authorization: authorization, "x-mo-device": req.headers.get("x-mo-device") ?? "api" } },
+		},
+	);
+}
+
+export async function readJsonBody(req: Request): Promise<Record<string, unknown>> {
+	try {
+		const body = await req.json();
+		if (body && typeof body === "object" && !Array.isArray(body)) return body as Record<string, unknown>;
+	} catch {
+		// fall through
+	}
+	throw new RequestError(400, "Request body must be a JSON object");
+}
+
+export function requireString(body: Record<string, unknown>, field: string): string {
+	const value = body[field];
+	if (typeof value !== "string" || value.trim().length === 0) throw new RequestError(400, `${field} is required`);
+	return value;
+}
+
+export function optionalString(body: Record<string, unknown>, field: string): string | null {
+	const value = body[field];
+	if (value == null || value === "") return null;
+	if (typeof value !== "string") throw new RequestError(400, `${field} must be a string`);
+	return value;
+}
+
+// Label fields sent with a scan (see labelData.ts): a flat object of short strings, or null
+export function optionalLabelData(body: Record<string, unknown>, field: string): Record<string, string> | null {
+	const value = body[field];
+	if (value == null) return null;
+	if (typeof value !== "object" || Array.isArray(value)) throw new RequestError(400, `${field} must be an object`);
+	const entries = Object.entries(value as Record<string, unknown>);
+	if (entries.length > 50) throw new RequestError(400, `${field} has too many fields`);
+	for (const [id, v] of entries) {
+		if (typeof v !== "string" || id.length > 8 || v.length > 200) throw new RequestError(400, `${field}.${id} must be a short string`);
+	}
+	return entries.length > 0 ? (value as Record<string, string>) : null;
+}
+
+// Normalized code from body[field]; rejects anything breaking the profile's format rules
+export function requireBarcode(body: Record<string, unknown>, field: string, spec: BarcodeSpec): string {
+	const code = normalizeBarcode(requireString(body, field));
+	const issue = barcodeIssue(code, spec);
+	if (issue) throw new RequestError(422, `${code || field}: breaks the ${issue} rule of the barcode profile`);
+	return code;
+}
+
+export async function requireRole(client: SupabaseClient, minRole: Role) {
+	const { data, error } = await client.rpc("mo_has_role", { min_role: minRole });
+	if (error) throw error;
+	if (!data) throw new RequestError(403, `${minRole} role required`);
+}
+
+// Postgres error codes worth passing through as client errors
+const PG_STATUS: Record<string, number> = {
+	"42501": 403, // RLS / privilege violation
+	"23505": 409, // unique violation
+	"23503": 409, // foreign key violation
+	"22P02": 400, // invalid input syntax (e.g. malformed uuid)
+};
+
+// Wrap a handler so it always answers JSON: the handler's result, or { error } with a fitting status
+export function jsonRoute<T, C = unknown>(handler: (req: Request, context: C) => Promise<T>) {
+	return async (req: Request, context: C) => {
+		try {
+			return NextResponse.json(await handler(req, context));
+		} catch (e) {
+			if (e instanceof RequestError) {
+				return NextResponse.json({ error: e.message }, { status: e.status });
+			}
+			// Supabase errors are plain objects, not Error instances
+			const err = (e ?? {}) as { code?: string; message?: string };
+			const status = (err.code && PG_STATUS[err.code]) || 502;
+			const message = err.message ?? String(e);
+			if (status === 502) console.error("API route failed:", e);
+			return NextResponse.json({ error: message }, { status });
+		}
+	};
+}
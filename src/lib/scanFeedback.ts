@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+
+// Sound, vibration and a screen flash per scan outcome, so operators looking at a pallet
+// instead of the screen still notice a bad scan. The profile and volume are chosen per
+// device (a quiet office PDA, a loud dock), like the scanner settings.
+export type ScanOutcome = "matched" | "unmatched" | "duplicate" | "skipped";
+
+type Tone = { hz: number; ms: number }; // hz 0 = pause
+
+export type FeedbackProfile = {
+	label: string;
+	wave: OscillatorType;
+	tones: Record<ScanOutcome, Tone[]>;
+	vibrate: Record<ScanOutcome, number[]>; // navigator.vibrate patterns
+};
+
+const STANDARD_TONES: Record<ScanOutcome, Tone[]> = {
+	matched: [{ hz: 1760, ms: 80 }],
+	unmatched: [{ hz: 220, ms: 400 }],
+	duplicate: [{ hz: 880, ms: 90 }, { hz: 0, ms: 60 }, { hz: 880, ms: 90 }],
+	skipped: [{ hz: 440, ms: 150 }],
+};
+
+const STANDARD_VIBRATE: Record<ScanOutcome, number[]> = {
+	matched: [40],
+	unmatched: [300, 100, 300],
+	duplicate: [80, 60, 80],
+	skipped: [150],
+};
+
+const NONE: Record<ScanOutcome, never[]> = { matched: [], unmatched: [], duplicate: [], skipped: [] };
+
+export const FEEDBACK_PROFILES = {
+	standard: { label: "기본", wave: "sine", tones: STANDARD_TONES, vibrate: STANDARD_VIBRATE },
+	loud: {
+		label: "시끄러운 현장",
+		wave: "square",
+		tones: {
+			matched: [{ hz: 1760, ms: 120 }],
+			unmatched: [{ hz: 220, ms: 300 }, { hz: 0, ms: 80 }, { hz: 220, ms: 300 }],
+			duplicate: [{ hz: 880, ms: 120 }, { hz: 0, ms: 60 }, { hz: 880, ms: 120 }, { hz: 0, ms: 60 }, { hz: 880, ms: 120 }],
+			skipped: [{ hz: 440, ms: 250 }],
+		},
+		vibrate: {
+			matched: [80],
+			unmatched: [500, 150, 500],
+			duplicate: [150, 80, 150, 80, 150],
+			skipped: [250],
+		},
+	},
+	vibrate: { label: "진동만", wave: "sine", tones: NONE, vibrate: STANDARD_VIBRATE },
+	silent: { label: "끔", wave: "sine", tones: NONE, vibrate: NONE },
+} satisfies Record<string, FeedbackProfile>;
+
+export type FeedbackProfileId = keyof typeof FEEDBACK_PROFILES;
+
+export type FeedbackConfig = {
+	profile: FeedbackProfileId;
+	volume: number; // 0..1
+	flash: boolean; // full-screen flash on unmatched and duplicate scans
+};
+
+export const DEFAULT_FEEDBACK_CONFIG: FeedbackConfig = { profile: "standard", volume: 0.5, flash: true };
+
+// Outcomes that get the full-screen flash
+export const FLASH_OUTCOMES: ScanOutcome[] = ["unmatched", "duplicate"];
+
+const FEEDBACK_KEY = "mo_feedback_config";
+const FEEDBACK_EVENT = "mo:feedback-config";
+const FLASH_EVENT = "mo:scan-flash";
+
+export function getFeedbackConfig(): FeedbackConfig {
+	if (typeof window === "undefined") return DEFAULT_FEEDBACK_CONFIG;
+	try {
+		const stored = JSON.parse(window.localStorage.getItem(FEEDBACK_KEY) ?? "null") as Partial<FeedbackConfig> | null;
+		const config = { ...DEFAULT_FEEDBACK_CONFIG, ...stored };
+		return config.profile in FEEDBACK_PROFILES ? config : { ...config, profile: DEFAULT_FEEDBACK_CONFIG.profile };
+	} catch {
+		return DEFAULT_FEEDBACK_CONFIG;
+	}
+}
+
+export function setFeedbackConfig(config: FeedbackConfig) {
+	if (typeof window === "undefined") return;
+	window.localStorage.setItem(FEEDBACK_KEY, JSON.stringify(config));
+	window.dispatchEvent(new Event(FEEDBACK_EVENT));
+}
+
+export function useFeedbackConfig() {
+	const [config, setConfig] = useState<FeedbackConfig>(DEFAULT_FEEDBACK_CONFIG);
+
+	useEffect(() => {
+		const sync = () => setConfig(getFeedbackConfig());
+		sync();
+		window.addEventListener(FEEDBACK_EVENT, sync);
+		window.addEventListener("storage", sync);
+		return () => {
+			window.removeEventListener(FEEDBACK_EVENT, sync);
+			window.removeEventListener("storage", sync);
+		};
+	}, []);
+
+	return { config, save: setFeedbackConfig };
+}
+
+// One context for the page; browsers only start it after a user gesture (a scan keystroke counts)
+let audioContext: AudioContext | null = null;
+
+function playTones(tones: Tone[], wave: OscillatorType, volume: number) {
+	if (tones.length === 0 || volume <= 0) return;
+	const Context = window.AudioContext ?? (window as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+	if (!Context) return;
+	audioContext ??= new Context();
+	const ctx = audioContext;
+	if (ctx.state === "suspended") void ctx.resume();
+	let at = ctx.currentTime;
+	for (const tone of tones) {
+		const end = at + tone.ms / 1000;
+		if (tone.hz > 0) {
+			const oscillator = ctx.createOscillator();
+			const gain = ctx.createGain();
+			oscillator.type = wave;
+			oscillator.frequency.value = tone.hz;
+			// Fade out instead of cutting off, which clicks
+			gain.gain.setValueAtTime(volume, at);
+			gain.gain.exponentialRampToValueAtTime(0.0001, end);
+			oscillator.connect(gain).connect(ctx.destination);
+			oscillator.start(at);
+			oscillator.stop(end);
+		}
+		at = end;
+	}
+}
+
+// Signal one scan outcome with this device's profile
+export function scanFeedback(outcome: ScanOutcome) {
+	if (typeof window === "undefined") return;
+	const config = getFeedbackConfig();
+	const profile: FeedbackProfile = FEEDBACK_PROFILES[config.profile];
+	try {
+		playTones(profile.tones[outcome], profile.wave, config.volume);
+	} catch (e) {
+		console.warn("Scan tone failed", e);
+	}
+	const pattern = profile.vibrate[outcome];
+	if (pattern.length > 0 && typeof navigator.vibrate === "function") navigator.vibrate(pattern);
+	if (config.flash && FLASH_OUTCOMES.includes(outcome)) {
+		window.dispatchEvent(new CustomEvent<ScanOutcome>(FLASH_EVENT, { detail: outcome }));
+	}
+}
+
+// Outcome currently flashing, cleared after ms
+export function useScanFlash(ms = 400): ScanOutcome | null {
+	const [flash, setFlash] = useState<{ outcome: ScanOutcome; at: number } | null>(null);
+
+	useEffect(() => {
+		const onFlash = (e: Event) => setFlash({ outcome: (e as CustomEvent<ScanOutcome>).detail, at: Date.now() });
+		window.addEventListener(FLASH_EVENT, onFlash);
+		return () => window.removeEventListener(FLASH_EVENT, onFlash);
+	}, []);
+
+	useEffect(() => {
+		if (!flash) return;
+		const timer = setTimeout(() => setFlash(null), ms);
+		return () => clearTimeout(timer);
+	}, [flash, ms]);
+
+	return flash?.outcome ?? null;
+}
@@ -0,0 +1,228 @@
+import { useCallback, useEffect, useState } from "react";
+import { ApiError, postApi } from "./api";
+import { supabase } from "./supabaseClient";
+
+// Offline-first write queue for the PDA pages. Every scan is stored in an
+// IndexedDB outbox before it goes to the API, then replayed in order. Scans carry
+// a scan_id and receipts are once per barcode, so the routes report a replay as a
+// duplicate and a Wi-Fi drop between racks never loses or doubles a scan.
+export type OutboxRoute = "/api/scans" | "/api/inventory/receive";
+
+export type OutboxEntry = {
+	id?: number; // IndexedDB auto-increment key, also the replay order
+	route: OutboxRoute;
+	body: Record<string, unknown>;
+	created_at: string;
+	attempts: number;
+	status: "pending" | "failed";
+	error: string | null;
+};
+
+const DB_NAME = "mo_offline";
+const STORE = "outbox";
+const OUTBOX_EVENT = "mo:outbox";
+const RETRY_INTERVAL_MS = 15000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+	if (!dbPromise) {
+		dbPromise = new Promise((resolve, reject) => {
+			const req = indexedDB.open(DB_NAME, 1);
+			req.onupgradeneeded = () => {
+				req.result.createObjectStore(STORE, { keyPath: "id", autoIncrement: true });
+			};
+			req.onsuccess = () => resolve(req.result);
+			req.onerror = () => {
+				dbPromise = null;
+				reject(req.error);
+			};
+		});
+	}
+	return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+	const db = await openDb();
+	return new Promise((resolve, reject) => {
+		const req = fn(db.transaction(STORE, mode).objectStore(STORE));
+		req.onsuccess = () => resolve(req.result);
+		req.onerror = () => reject(req.error);
+	});
+}
+
+function notify() {
+	window.dispatchEvent(new Event(OUTBOX_EVENT));
+}
+
+// All queued writes, oldest first
+export async function listOutbox(): Promise<OutboxEntry[]> {
+	return withStore<OutboxEntry[]>("readonly", store => store.getAll() as IDBRequest<OutboxEntry[]>);
+}
+
+export async function enqueueWrite(route: OutboxRoute, body: Record<string, unknown>): Promise<void> {
+	const entry: OutboxEntry = {
+		route,
+		body,
+		created_at: new Date().toISOString(),
+		attempts: 0,
+		status: "pending",
+		error: null,
+	};
+	await withStore("readwrite", store => store.add(entry));
+	notify();
+	void flushOutbox();
+}
+
+// Not everything thrown here is an Error instance
+function errorMessage(e: unknown): string {
+	if (e instanceof Error) return e.message;
+	if (typeof e === "object" && e && "message" in e) return String(e.message);
+	return String(e);
+}
+
+// Fetch failures (no network, or the API could not reach Supabase) leave the entry pending;
+// anything the API rejects is marked failed
+function isNetworkError(e: unknown): boolean {
+	if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+	if (e instanceof ApiError) return e.status >= 502;
+	return /fetch|network|load failed/i.test(errorMessage(e));
+}
+
+// The access token expired while the entry waited (a PDA left asleep between racks).
+// The session is refreshed and the entry sent once more; a 401 after that, or a session that
+// cannot be refreshed, leaves it pending until the operator signs in again.
+function isUnauthorized(e: unknown): boolean {
+	return e instanceof ApiError && e.status === 401;
+}
+
+async function post(entry: OutboxEntry): Promise<void> {
+	try {
+		await postApi(entry.route, entry.body);
+	} catch (e) {
+		if (!isUnauthorized(e)) throw e;
+		const { error } = await supabase.auth.refreshSession();
+		if (error) throw e;
+		await postApi(entry.route, entry.body);
+	}
+}
+
+let flushing: Promise<void> | null = null;
+let flushAgain = false; // entries were queued while a flush was running
+let sendingId: number | null = null; // entry being posted right now
+const droppedIds = new Set<number>(); // dropped by an undo; a flush that listed them skips them
+
+// One pass over the entries listed now. False when it stopped at a network failure or an
+// expired session.
+async function flushPass(): Promise<boolean> {
+	const entries = await listOutbox();
+	for (const entry of entries) {
+		if (entry.status !== "pending" || droppedIds.has(entry.id as number)) continue;
+		sendingId = entry.id as number;
+		try {
+			await post(entry);
+			await withStore("readwrite", store => store.delete(entry.id as number));
+		} catch (e) {
+			if (isNetworkError(e) || isUnauthorized(e)) return false;
+			await withStore("readwrite", store => store.put({ ...entry, attempts: entry.attempts + 1, status: "failed", error: errorMessage(e) }));
+		} finally {
+			sendingId = null;
+		}
+		notify();
+	}
+	return true;
+}
+
+// Replay pending entries in order. Stops at the first network failure (or expired session) so later scans never overtake earlier ones.
+// A call during a running flush makes it take another pass, so a scan queued meanwhile goes out
+// right after instead of waiting for the retry timer.
+export function flushOutbox(): Promise<void> {
+	if (flushing) {
+		flushAgain = true;
+		return flushing;
+	}
+	flushing = (async () => {
+		try {
+			let sent: boolean;
+			do {
+				flushAgain = false;
+				sent = await flushPass();
+			} while (sent && flushAgain);
+		} finally {
+			flushAgain = false;
+			flushing = null;
+		}
+	})();
+	return flushing;
+}
+
+// Put failed entries back in the queue and replay
+export async function retryFailed(): Promise<void> {
+	const entries = await listOutbox();
+	for (const entry of entries) {
+		if (entry.status === "failed") {
+			await withStore("readwrite", store => store.put({ ...entry, status: "pending" }));
+		}
+	}
+	notify();
+	await flushOutbox();
+}
+
+export async function discardFailed(): Promise<void> {
+	const entries = await listOutbox();
+	for (const entry of entries) {
+		if (entry.status === "failed") {
+			await withStore("readwrite", store => store.delete(entry.id as number));
+		}
+	}
+	notify();
+}
+
+// Drop one entry before it is sent (undo of a queued scan). False when it has already gone out
+// or is being posted right now.
+export async function dropOutboxEntry(id: number): Promise<boolean> {
+	if (sendingId === id) return false;
+	droppedIds.add(id);
+	const entry = await withStore<OutboxEntry | undefined>("readonly", store => store.get(id) as IDBRequest<OutboxEntry | undefined>);
+	if (!entry) return false;
+	await withStore("readwrite", store => store.delete(id));
+	notify();
+	return true;
+}
+
+// Live view of the outbox. Also drives background sync: replays on reconnect, on sign-in
+// and on a timer while anything is still pending.
+export function useOutbox() {
+	const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+	const reload = useCallback(() => {
+		listOutbox().then(setEntries).catch(e => console.error("Load outbox failed:", e));
+	}, []);
+
+	useEffect(() => {
+		reload();
+		void flushOutbox();
+		const onOnline = () => { void flushOutbox(); };
+		window.addEventListener(OUTBOX_EVENT, reload);
+		window.addEventListener("online", onOnline);
+		const { data: auth } = supabase.auth.onAuthStateChange(event => {
+			if (event === "SIGNED_IN") void flushOutbox();
+		});
+		return () => {
+			window.removeEventListener(OUTBOX_EVENT, reload);
+			window.removeEventListener("online", onOnline);
+			auth.subscription.unsubscribe();
+		};
+	}, [reload]);
+
+	const pending = entries.filter(e => e.status === "pending").length;
+	const failed = entries.filter(e => e.status === "failed").length;
+
+	useEffect(() => {
+		if (pending === 0) return;
+		const timer = setInterval(() => { void flushOutbox(); }, RETRY_INTERVAL_MS);
+		return () => clearInterval(timer);
+	}, [pending]);
+
+	return { entries, pending, failed };
+}
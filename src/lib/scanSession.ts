@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "./supabaseClient";
+
+// Scan sessions group mo_scan_items so that two shipments checked on the same
+// day do not overwrite each other. The active session is remembered per device.
+export type ScanSession = {
+	id: string;
+	created_at: string;
+	name: string | null;
+	closed_at: string | null;
+	// The expected list (mo_manifests) this session is checked against
+	manifest_id: string | null;
+};
+
+const ACTIVE_SESSION_KEY = "mo_active_session_id";
+const ACTIVE_SESSION_EVENT = "mo:active-session";
+// Last loaded row of the active session, for when the list cannot be fetched (offline reload)
+const ACTIVE_SESSION_ROW_KEY = "mo_active_session";
+
+function readSessionRow(id: string): ScanSession {
+	try {
+		const row = JSON.parse(window.localStorage.getItem(ACTIVE_SESSION_ROW_KEY) ?? "null");
+		if (row?.id === id) return row as ScanSession;
+	} catch {
+		// Fall through to a bare row; the manifest is known again after the next refresh
+	}
+	return { id, created_at: "", name: null, closed_at: null, manifest_id: null };
+}
+
+export function getActiveSessionId(): string | null {
+	if (typeof window === "undefined") return null;
+	return window.localStorage.getItem(ACTIVE_SESSION_KEY);
+}
+
+export function setActiveSessionId(id: string | null) {
+	if (typeof window === "undefined") return;
+	if (id) {
+		window.localStorage.setItem(ACTIVE_SESSION_KEY, id);
+	} else {
+		window.localStorage.removeItem(ACTIVE_SESSION_KEY);
+	}
+	// Let other components on the same page pick up the change
+	window.dispatchEvent(new Event(ACTIVE_SESSION_EVENT));
+}
+
+export function defaultSessionName(): string {
+	return new Date().toLocaleString("ko-KR", {
+		year: "numeric",
+		month: "2-digit",
+		day: "2-digit",
+		hour: "2-digit",
+		minute: "2-digit",
+	});
+}
+
+export async function listSessions(): Promise<ScanSession[]> {
+	const { data, error } = await supabase
+		.from("mo_scan_sessions")
+		.select("id, created_at, name, closed_at, manifest_id")
+		.order("created_at", { ascending: false });
+	if (error) throw error;
+	return (data ?? []) as ScanSession[];
+}
+
+export async function createSession(name: string, manifestId: string | null): Promise<ScanSession> {
+	const { data, error } = await supabase
+		.from("mo_scan_sessions")
+		.insert({ name: name.trim() || defaultSessionName(), manifest_id: manifestId })
+		.select("id, created_at, name, closed_at, manifest_id")
+		.single();
+	if (error) throw error;
+	return data as ScanSession;
+}
+
+export async function renameSession(id: string, name: string): Promise<void> {
+	const { error } = await supabase
+		.from("mo_scan_sessions")
+		.update({ name: name.trim() })
+		.eq("id", id);
+	if (error) throw error;
+}
+
+export async function closeSession(id: string): Promise<void> {
+	const { error } = await supabase
+		.from("mo_scan_sessions")
+		.update({ closed_at: new Date().toISOString() })
+		.eq("id", id);
+	if (error) throw error;
+}
+
+// Tracks the device's active session and the list of sessions it can switch to.
+// A closed session is never treated as active. When the list cannot be loaded (a PDA reloaded
+// without network) the stored session stays active, so scans keep going to the outbox; it is
+// checked again once the device is back online.
+export function useActiveSession() {
+	const [sessions, setSessions] = useState<ScanSession[]>([]);
+	const [activeId, setActiveId] = useState<string | null>(null);
+	const [loading, setLoading] = useState<boolean>(true);
+	const [error, setError] = useState<string>("");
+
+	const refresh = useCallback(async () => {
+		setLoading(true);
+		setError("");
+		try {
+			const list = await listSessions();
+			setSessions(list);
+			const stored = getActiveSessionId();
+			const active = list.find(s => s.id === stored && !s.closed_at);
+			if (stored && !active) {
+				setActiveSessionId(null);
+			}
+			if (active) window.localStorage.setItem(ACTIVE_SESSION_ROW_KEY, JSON.stringify(active));
+			setActiveId(active ? stored : null);
+		} catch (e) {
+			const msg = e instanceof Error ? e.message : String(e);
+			setError(`Load sessions failed: ${msg}`);
+			const stored = getActiveSessionId();
+			if (stored) {
+				setSessions(prev => prev.some(s => s.id === stored) ? prev : [readSessionRow(stored), ...prev]);
+			}
+			setActiveId(stored);
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	useEffect(() => { void refresh(); }, [refresh]);
+
+	useEffect(() => {
+		// The new session may have been created by another component or tab,
+		// so reload the list rather than only swapping the id
+		const sync = () => { void refresh(); };
+		window.addEventListener(ACTIVE_SESSION_EVENT, sync);
+		window.addEventListener("storage", sync);
+		window.addEventListener("online", sync);
+		return () => {
+			window.removeEventListener(ACTIVE_SESSION_EVENT, sync);
+			window.removeEventListener("storage", sync);
+			window.removeEventListener("online", sync);
+		};
+	}, [refresh]);
+
+	const start = useCallback(async (name: string, manifestId: string | null) => {
+		const created = await createSession(name, manifestId);
+		setActiveSessionId(created.id);
+		return created;
+	}, []);
+
+	const rename = useCallback(async (id: string, name: string) => {
+		await renameSession(id, name);
+		setSessions(prev => prev.map(s => (s.id === id ? { ...s, name: name.trim() } : s)));
+	}, []);
+
+	const close = useCallback(async (id: string) => {
+		await closeSession(id);
+		if (getActiveSessionId() === id) {
+			setActiveSessionId(null);
+		} else {
+			await refresh();
+		}
+	}, [refresh]);
+
+	const select = useCallback((id: string | null) => {
+		setActiveSessionId(id);
+	}, []);
+
+	const session = sessions.find(s => s.id === activeId && !s.closed_at) ?? null;
+
+	return { session, sessions, loading, error, refresh, start, rename, close, select };
+}
@@ -0,0 +1,36 @@
+// How a scan item was recorded (mo_scan_items.source). The wedge scanner and the camera
+// decoder read the barcode itself; camera OCR reads the printed text; manual adds and
+// similarity matches are marks made from a list without reading the label.
+export type ScanSource = "scanner" | "camera_decode" | "camera_ocr" | "manual" | "similarity";
+
+// Source of one listed item, with the reason when it was added by hand
+export type ScanOrigin = { source: ScanSource; reason: string | null };
+
+export const SCAN_SOURCES: ScanSource[] = ["scanner", "camera_decode", "camera_ocr", "manual", "similarity"];
+
+export const SOURCE_LABEL: Record<ScanSource, string> = {
+	scanner: "스캐너",
+	camera_decode: "카메라",
+	camera_ocr: "OCR",
+	manual: "수동",
+	similarity: "유사 매칭",
+};
+
+export function isScanSource(value: unknown): value is ScanSource {
+	return typeof value === "string" && (SCAN_SOURCES as string[]).includes(value);
+}
+
+// The part was in front of a reader, not just ticked off a list
+export function isPhysicalSource(source: ScanSource): boolean {
+	return source === "scanner" || source === "camera_decode" || source === "camera_ocr";
+}
+
+// Source of an item after another scan of it: a physical read takes over from a list mark,
+// otherwise the item keeps how it was first recorded
+export function mergeSource(current: ScanSource | undefined, next: ScanSource): ScanSource {
+	if (!current) return next;
+	return isPhysicalSource(next) && !isPhysicalSource(current) ? next : current;
+}
+
+// Longest reason kept for a manual add
+export const MANUAL_REASON_MAX = 200;
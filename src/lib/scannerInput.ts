@@ -0,0 +1,261 @@
+import { useCallback, useEffect, useRef, useState, type ChangeEvent, type KeyboardEvent as ReactKeyboardEvent } from "react";
+import { wedgeControlChar } from "./labelData";
+
+// Keyboard-wedge scanners type a whole code within a few milliseconds per key; people take
+// 100 ms or more. The scanner input times every keystroke: a fast burst is a scan and is
+// submitted on its own (with or without a terminator), while typing waits for Enter and is
+// never cut into pieces by a timer. Prefix/suffix bytes and AIM symbology identifiers
+// (]C1, ]d2, ...) that scanners can be set to send are stripped from the code.
+export type ScannerConfig = {
+	prefix: string; // sent before every read; escapes like \x02 and \t allowed
+	suffix: string; // sent after every read; Enter and Tab always end a read
+	stripAim: boolean; // a leading ]Xn symbology identifier is split off the code
+	maxGapMs: number; // keys this close together belong to one burst
+	minLength: number; // shorter bursts count as typing
+	idleMs: number; // a burst without terminator ends after this much silence
+};
+
+export const DEFAULT_SCANNER_CONFIG: ScannerConfig = {
+	prefix: "",
+	suffix: "",
+	stripAim: true,
+	maxGapMs: 50,
+	minLength: 4,
+	idleMs: 120,
+};
+
+// wedge: a timed scanner burst; typed: entered by hand and submitted with Enter
+export type ScanEvent = {
+	text: string;
+	symbology: string | null; // AIM identifier, e.g. "]C1" for GS1-128
+	source: "wedge" | "typed";
+	durationMs: number;
+};
+
+export type ScannerInputOptions = {
+	// Submit typed text on Enter (default). Pages where typing is a filter turn this off.
+	submitTyped?: boolean;
+	// Pull focus back to the input after clicks elsewhere, except into other fields (default)
+	keepFocus?: boolean;
+};
+
+const SCANNER_KEY = "mo_scanner_config";
+const SCANNER_EVENT = "mo:scanner-config";
+
+// Scanner settings belong to the device (its scanner), like the active session
+export function getScannerConfig(): ScannerConfig {
+	if (typeof window === "undefined") return DEFAULT_SCANNER_CONFIG;
+	try {
+		const stored = JSON.parse(window.localStorage.getItem(SCANNER_KEY) ?? "null") as Partial<ScannerConfig> | null;
+		return { ...DEFAULT_SCANNER_CONFIG, ...stored };
+	} catch {
+		return DEFAULT_SCANNER_CONFIG;
+	}
+}
+
+export function setScannerConfig(config: ScannerConfig) {
+	if (typeof window === "undefined") return;
+	window.localStorage.setItem(SCANNER_KEY, JSON.stringify(config));
+	window.dispatchEvent(new Event(SCANNER_EVENT));
+}
+
+export function useScannerConfig() {
+	const [config, setConfig] = useState<ScannerConfig>(DEFAULT_SCANNER_CONFIG);
+
+	useEffect(() => {
+		const sync = () => setConfig(getScannerConfig());
+		sync();
+		window.addEventListener(SCANNER_EVENT, sync);
+		window.addEventListener("storage", sync);
+		return () => {
+			window.removeEventListener(SCANNER_EVENT, sync);
+			window.removeEventListener("storage", sync);
+		};
+	}, []);
+
+	return { config, save: setScannerConfig };
+}
+
+// "\x02" -> STX, "\t" -> Tab, so control bytes can be typed into the settings
+export function unescapeControl(text: string): string {
+	return text
+		.replace(/\\x([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+		.replace(/\\t/g, "\t")
+		.replace(/\\r/g, "\r")
+		.replace(/\\n/g, "\n");
+}
+
+const AIM_ID = /^\][A-Za-z][0-9A-Za-z]/;
+
+// Code and symbology of one read, without the configured framing bytes
+export function cleanScan(raw: string, config: ScannerConfig): { text: string; symbology: string | null } {
+	let text = raw;
+	const prefix = unescapeControl(config.prefix);
+	const suffix = unescapeControl(config.suffix);
+	if (prefix && text.startsWith(prefix)) text = text.slice(prefix.length);
+	if (suffix && text.endsWith(suffix)) text = text.slice(0, -suffix.length);
+	const aim = config.stripAim ? AIM_ID.exec(text) : null;
+	return aim ? { text: text.slice(aim[0].length), symbology: aim[0] } : { text, symbology: null };
+}
+
+// Keys at the end of the buffer that arrived as one burst
+export function burstLength(times: number[], maxGapMs: number): number {
+	if (times.length === 0) return 0;
+	let n = 1;
+	for (let i = times.length - 1; i > 0; i--) {
+		if (times[i] - times[i - 1] > maxGapMs) break;
+		n++;
+	}
+	return n;
+}
+
+function isEditable(el: Element | null): boolean {
+	if (!el) return false;
+	if (el instanceof HTMLElement && el.isContentEditable) return true;
+	return el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement;
+}
+
+// Scanner input for one page. Spread inputProps on the barcode <input>; onScan gets every
+// finished read. Keys typed while focus is on a button or the page (not another field)
+// still land here, so a tap on a button between two scans does not lose the second one.
+export function useScannerInput(onScan: (event: ScanEvent) => void, options: ScannerInputOptions = {}) {
+	const { submitTyped = true, keepFocus = true } = options;
+	const { config } = useScannerConfig();
+	const inputRef = useRef<HTMLInputElement | null>(null);
+	const [value, setValueState] = useState("");
+	const valueRef = useRef("");
+	const timesRef = useRef<number[]>([]); // one timestamp per character of value
+	const editedRef = useRef(false); // value changed other than by appended keys: typed
+	const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+	const onScanRef = useRef(onScan);
+	const configRef = useRef(config);
+
+	useEffect(() => {
+		onScanRef.current = onScan;
+		configRef.current = config;
+	}, [onScan, config]);
+
+	const reset = useCallback((next = "") => {
+		valueRef.current = next;
+		timesRef.current = [];
+		editedRef.current = next.length > 0;
+		setValueState(next);
+		if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+	}, []);
+
+	// End of a read: by terminator (Enter, Tab, suffix) or by silence
+	const finish = useCallback((terminated: boolean) => {
+		const raw = valueRef.current;
+		if (!raw) return;
+		const cfg = configRef.current;
+		const times = timesRef.current;
+		const burst = editedRef.current ? 0 : burstLength(times, cfg.maxGapMs);
+		if (burst >= cfg.minLength) {
+			const cleaned = cleanScan(raw.slice(raw.length - burst), cfg);
+			const durationMs = times[times.length - 1] - times[times.length - burst];
+			reset();
+			if (cleaned.text) onScanRef.current({ ...cleaned, source: "wedge", durationMs });
+			return;
+		}
+		// Typing only ends with Enter; a pause is just a pause
+		if (!terminated || !submitTyped) return;
+		const cleaned = cleanScan(raw, cfg);
+		reset();
+		if (cleaned.text) onScanRef.current({ ...cleaned, source: "typed", durationMs: 0 });
+	}, [reset, submitTyped]);
+
+	const scheduleIdle = useCallback(() => {
+		if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+		// Never shorter than a gap inside a burst, or a slow scanner's read gets split
+		const { idleMs, maxGapMs } = configRef.current;
+		idleTimerRef.current = setTimeout(() => finish(false), Math.max(idleMs, maxGapMs * 2));
+	}, [finish]);
+
+	const afterAppend = useCallback(() => {
+		const suffix = unescapeControl(configRef.current.suffix);
+		if (suffix && valueRef.current.endsWith(suffix)) finish(true);
+		else scheduleIdle();
+	}, [finish, scheduleIdle]);
+
+	const append = useCallback((chars: string, at: number) => {
+		valueRef.current += chars;
+		for (let i = 0; i < chars.length; i++) timesRef.current.push(at);
+		setValueState(valueRef.current);
+		afterAppend();
+	}, [afterAppend]);
+
+	// Shared by the input's onKeyDown and the page-level listener. inInput: the browser
+	// inserts printable characters itself (onChange), elsewhere they are appended here.
+	const handleKey = useCallback((e: KeyboardEvent | ReactKeyboardEvent, inInput: boolean) => {
+		const now = performance.now();
+		const control = wedgeControlChar(e);
+		if (control) {
+			e.preventDefault();
+			append(control, now);
+			return;
+		}
+		if (e.key === "Enter" || (e.key === "Tab" && valueRef.current.length > 0)) {
+			e.preventDefault();
+			finish(true);
+			return;
+		}
+		if (e.key.length !== 1 || e.ctrlKey || e.metaKey || e.altKey) return;
+		if (inInput) {
+			timesRef.current.push(now);
+			return;
+		}
+		e.preventDefault();
+		append(e.key, now);
+		if (keepFocus) inputRef.current?.focus();
+	}, [append, finish, keepFocus]);
+
+	const onKeyDown = useCallback((e: ReactKeyboardEvent<HTMLInputElement>) => handleKey(e, true), [handleKey]);
+
+	const onChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+		const next = e.target.value;
+		const prev = valueRef.current;
+		// Anything but one appended key (paste, delete, soft keyboard) makes this typed text
+		if (next.length !== prev.length + 1 || !next.startsWith(prev) || timesRef.current.length !== next.length) {
+			editedRef.current = true;
+		}
+		valueRef.current = next;
+		setValueState(next);
+		if (next) afterAppend();
+	}, [afterAppend]);
+
+	// Keys typed while focus is on a button or the page body
+	useEffect(() => {
+		const onDocumentKey = (e: KeyboardEvent) => {
+			if (e.target === inputRef.current || isEditable(document.activeElement)) return;
+			handleKey(e, false);
+		};
+		document.addEventListener("keydown", onDocumentKey);
+		return () => document.removeEventListener("keydown", onDocumentKey);
+	}, [handleKey]);
+
+	// Keep the scanner input focused, without stealing focus from other fields
+	useEffect(() => {
+		if (!keepFocus) return;
+		const focusInput = () => {
+			if (!isEditable(document.activeElement)) inputRef.current?.focus();
+		};
+		const timer = setTimeout(focusInput, 100);
+		window.addEventListener("click", focusInput);
+		window.addEventListener("focus", focusInput);
+		return () => {
+			clearTimeout(timer);
+			window.removeEventListener("click", focusInput);
+			window.removeEventListener("focus", focusInput);
+		};
+	}, [keepFocus]);
+
+	useEffect(() => () => {
+		if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+	}, []);
+
+	return {
+		value,
+		setValue: reset,
+		inputProps: { ref: inputRef, value, onChange, onKeyDown },
+	};
+}
@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "./supabaseClient";
+import { postApi, type ScanUndoResult } from "./api";
+import { dropOutboxEntry, flushOutbox, listOutbox } from "./scanOutbox";
+
+// Undo history of the PDA writes on SCAN and SEARCH, kept per device (like the active
+// session). Each entry knows how to put back what one operation changed:
+// - "rows": mo_ocr_results / mo_scan_items rows as they were before the write, kept on the
+//   server (mo_undo_snapshots). Undo puts them back through mo_restore_rows, which only takes
+//   this operator's snapshots from this device.
+// - "scan": one counted scan by its scan_id. Undo drops it from the outbox if it has not been
+//   sent yet, otherwise /api/scans/undo takes it back on the server.
+// Only the newest entry can be undone, so an undo never skips over a later change.
+export type UndoTable = "mo_ocr_results" | "mo_scan_items";
+
+// Rows are addressed as in their unique index: the manifest or session, and the codes
+export type RowSet = { table: UndoTable; scopeId: string; texts: string[] };
+
+export type UndoAction =
+	| { kind: "rows"; snapshots: string[] } // mo_undo_snapshots ids
+	| { kind: "scan"; session_id: string; text: string; scan_id: string };
+
+export type UndoEntry = { id: string; label: string; created_at: string; action: UndoAction };
+
+const UNDO_KEY = "mo_undo_history";
+const UNDO_EVENT = "mo:undo";
+export const UNDO_LIMIT = 20;
+
+function readHistory(): UndoEntry[] {
+	if (typeof window === "undefined") return [];
+	try {
+		const entries = JSON.parse(window.localStorage.getItem(UNDO_KEY) ?? "[]");
+		if (!Array.isArray(entries)) return [];
+		// Row entries from before snapshots moved to the server held the rows themselves
+		return (entries as UndoEntry[]).filter(e => e.action.kind !== "rows" || e.action.snapshots.every(id => typeof id === "string"));
+	} catch {
+		return [];
+	}
+}
+
+function writeHistory(entries: UndoEntry[]) {
+	window.localStorage.setItem(UNDO_KEY, JSON.stringify(entries.slice(0, UNDO_LIMIT)));
+	window.dispatchEvent(new Event(UNDO_EVENT));
+}
+
+// Keep the rows a write is about to change, on the server. Take it before the write and pass
+// the ids to pushUndo after.
+export async function snapshotRows(sets: RowSet[]): Promise<string[]> {
+	const ids: string[] = [];
+	for (const set of sets) {
+		const texts = [...new Set(set.texts)];
+		if (texts.length === 0) continue;
+		const { data, error } = await supabase.rpc("mo_snapshot_rows", { p_table: set.table, p_scope_id: set.scopeId, p_texts: texts });
+		if (error) throw error;
+		ids.push(data as string);
+	}
+	return ids;
+}
+
+// Newest first; the oldest entries fall off past UNDO_LIMIT
+export function pushUndo(label: string, action: UndoAction): UndoEntry {
+	const entry: UndoEntry = { id: crypto.randomUUID(), label, created_at: new Date().toISOString(), action };
+	writeHistory([entry, ...readHistory()]);
+	return entry;
+}
+
+async function restoreRows(snapshotIds: string[]) {
+	for (const id of snapshotIds) {
+		const { error } = await supabase.rpc("mo_restore_rows", { p_snapshot_id: id });
+		if (error) throw error;
+	}
+}
+
+async function undoScan(action: Extract<UndoAction, { kind: "scan" }>) {
+	const queued = (await listOutbox()).find(e => e.route === "/api/scans" && e.body.scan_id === action.scan_id);
+	// Dropped before it went out: there is nothing on the server to take back
+	if (queued && await dropOutboxEntry(queued.id as number)) return;
+	// It may be on its way right now; let it land first, or the server undo finds nothing
+	await flushOutbox();
+	await postApi<ScanUndoResult>("/api/scans/undo", { session_id: action.session_id, text: action.text, scan_id: action.scan_id });
+}
+
+// Undo the newest entry. It stays in the history when the undo fails, so it can be retried.
+export async function undoLatest(): Promise<UndoEntry | null> {
+	const [entry] = readHistory();
+	if (!entry) return null;
+	if (entry.action.kind === "rows") await restoreRows(entry.action.snapshots);
+	else await undoScan(entry.action);
+	writeHistory(readHistory().filter(e => e.id !== entry.id));
+	return entry;
+}
+
+// Live view of this device's undo history, shared by every page and tab
+export function useUndoStack() {
+	const [entries, setEntries] = useState<UndoEntry[]>([]);
+
+	useEffect(() => {
+		const reload = () => setEntries(readHistory());
+		reload();
+		window.addEventListener(UNDO_EVENT, reload);
+		window.addEventListener("storage", reload);
+		return () => {
+			window.removeEventListener(UNDO_EVENT, reload);
+			window.removeEventListener("storage", reload);
+		};
+	}, []);
+
+	const record = useCallback((label: string, action: UndoAction) => pushUndo(label, action), []);
+	const undo = useCallback(() => undoLatest(), []);
+
+	return { entries, latest: entries[0] ?? null, record, undo };
+}
@@ -1,5 +1,180 @@
 -- Supabase schema for OCR results with mo_ prefix
 
+-- Requires pgcrypto for gen_random_uuid()
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Table: public.mo_operators
+-- Operators sign in with Supabase auth. Roles: operator < supervisor < admin.
+-- Destructive operations (clearing data, deleting expected rows, disposal) need supervisor or admin.
+CREATE TABLE IF NOT EXISTS public.mo_operators (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  name text NOT NULL,
+  role text NOT NULL DEFAULT 'operator' CHECK (role IN ('operator', 'supervisor', 'admin'))
+);
+
+-- Role of the signed-in user, NULL when not registered as an operator
+CREATE OR REPLACE FUNCTION public.mo_role()
+RETURNS text
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT role FROM public.mo_operators WHERE user_id = auth.uid();
+$$;
+
+-- True when the signed-in user has at least min_role
+CREATE OR REPLACE FUNCTION public.mo_has_role(min_role text)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE(
+    array_position(ARRAY['operator', 'supervisor', 'admin'], public.mo_role())
+      >= array_position(ARRAY['operator', 'supervisor', 'admin'], min_role),
+    false
+  );
+$$;
+
+-- Records the signed-in operator on new rows, and on scan rows again whenever they change
+-- (clients cannot set operator_id themselves).
+-- Rows put back by an undo (mo_restore_rows) keep the operator who first wrote them.
+CREATE OR REPLACE FUNCTION public.mo_stamp_operator()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('mo.restoring', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+  NEW.operator_id := auth.uid();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE public.mo_operators ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.mo_operators FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.mo_operators TO authenticated;
+
+-- Everyone can read their own row (to learn their role); supervisors see the whole roster; only admins manage it
+DROP POLICY IF EXISTS "self or supervisor select" ON public.mo_operators;
+CREATE POLICY "self or supervisor select" ON public.mo_operators FOR SELECT TO authenticated USING (user_id = auth.uid() OR public.mo_has_role('supervisor'));
+DROP POLICY IF EXISTS "admin all" ON public.mo_operators;
+CREATE POLICY "admin all" ON public.mo_operators FOR ALL TO authenticated USING (public.mo_has_role('admin')) WITH CHECK (public.mo_has_role('admin'));
+
+-- Table: public.mo_manifests
+-- One row per uploaded expected list (OCR run of a packing list). Uploads no longer wipe earlier lists.
+CREATE TABLE IF NOT EXISTS public.mo_manifests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at timestamptz DEFAULT now(),
+  name text NOT NULL,
+  source_file text,
+  page_count integer
+);
+
+ALTER TABLE public.mo_manifests ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.mo_manifests FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.mo_manifests TO authenticated;
+
+DROP POLICY IF EXISTS "allow anon all" ON public.mo_manifests;
+DROP POLICY IF EXISTS "allow anon insert" ON public.mo_manifests;
+DROP POLICY IF EXISTS "allow anon select" ON public.mo_manifests;
+DROP POLICY IF EXISTS "allow anon delete" ON public.mo_manifests;
+DROP POLICY IF EXISTS "operator select" ON public.mo_manifests;
+CREATE POLICY "operator select" ON public.mo_manifests FOR SELECT TO authenticated USING (public.mo_has_role('operator'));
+DROP POLICY IF EXISTS "operator insert" ON public.mo_manifests;
+CREATE POLICY "operator insert" ON public.mo_manifests FOR INSERT TO authenticated WITH CHECK (public.mo_has_role('operator'));
+DROP POLICY IF EXISTS "supervisor update" ON public.mo_manifests;
+CREATE POLICY "supervisor update" ON public.mo_manifests FOR UPDATE TO authenticated USING (public.mo_has_role('supervisor'));
+DROP POLICY IF EXISTS "admin delete" ON public.mo_manifests;
+CREATE POLICY "admin delete" ON public.mo_manifests FOR DELETE TO authenticated USING (public.mo_has_role('admin'));
+
+-- Items are uploaded in batches; a manifest is offered to sessions and MATCH only once its last
+-- batch is stored (completed_at). Manifests from before this column count as complete.
+ALTER TABLE public.mo_manifests ADD COLUMN IF NOT EXISTS completed_at timestamptz DEFAULT now();
+ALTER TABLE public.mo_manifests ALTER COLUMN completed_at DROP DEFAULT;
+
+-- Called with the last batch (/api/manifests/:id/items). Updating a manifest needs supervisor,
+-- so this runs as owner and only sets completed_at. Returns false when it was already complete.
+CREATE OR REPLACE FUNCTION public.mo_complete_manifest(p_manifest_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.mo_has_role('operator') THEN
+    RAISE EXCEPTION 'operator role required' USING ERRCODE = '42501';
+  END IF;
+  UPDATE public.mo_manifests SET completed_at = now() WHERE id = p_manifest_id AND completed_at IS NULL;
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.mo_complete_manifest(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mo_complete_manifest(uuid) TO authenticated;
+
+-- Table: public.mo_barcode_profiles
+-- Barcode format per customer / part family. The CKD and LQ2 sections each pick one in the top nav.
+-- min_length = max_length for an exact length; pattern is an unanchored regex the whole code must match.
+-- check_digit: none | mod10 | mod11 | mod43 | custom:<weights>:<modulus> (e.g. custom:7,3,1:10), see CheckRule in barcode.ts.
+-- label_field: for GS1 / MH10 labels, the AI or data identifier whose value is the code (e.g. 21, S); the other fields are stored as label_data.
+-- manual_reason_required: manual adds from a list (mo_scan_items.source = 'manual') must give a reason.
+CREATE TABLE IF NOT EXISTS public.mo_barcode_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at timestamptz DEFAULT now(),
+  name text NOT NULL UNIQUE,
+  prefixes text,
+  min_length integer,
+  max_length integer,
+  pattern text,
+  check_digit text
+);
+
+INSERT INTO public.mo_barcode_profiles (name, prefixes, min_length, max_length, pattern)
+VALUES ('1M/2M 14자리', '1M,2M', 14, 14, '[12]M\d{12}')
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE public.mo_barcode_profiles ADD COLUMN IF NOT EXISTS label_field text;
+ALTER TABLE public.mo_barcode_profiles ADD COLUMN IF NOT EXISTS manual_reason_required boolean NOT NULL DEFAULT false;
+
+-- True when text compiles as a regex. Profile patterns are compiled on every page and in /api/scans,
+-- so one that does not compile is refused when it is saved. Rows saved before are not checked;
+-- the app drops a pattern it cannot compile (barcodeProfile.ts).
+CREATE OR REPLACE FUNCTION public.mo_is_regex(text)
+RETURNS boolean
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+BEGIN
+  PERFORM '' ~ $1;
+  RETURN true;
+EXCEPTION WHEN invalid_regular_expression THEN
+  RETURN false;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'mo_barcode_profiles_pattern') THEN
+    ALTER TABLE public.mo_barcode_profiles ADD CONSTRAINT mo_barcode_profiles_pattern
+      CHECK (pattern IS NULL OR public.mo_is_regex(pattern)) NOT VALID;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'mo_barcode_profiles_check_digit') THEN
+    ALTER TABLE public.mo_barcode_profiles ADD CONSTRAINT mo_barcode_profiles_check_digit
+      CHECK (check_digit IS NULL OR check_digit ~ '^(none|mod10|mod11|mod43|custom:[0-9]+(,[0-9]+)*:[0-9]+)$');
+  END IF;
+END $$;
+
+ALTER TABLE public.mo_barcode_profiles ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.mo_barcode_profiles FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.mo_barcode_profiles TO authenticated;
+
+DROP POLICY IF EXISTS "allow anon all" ON public.mo_barcode_profiles;
+DROP POLICY IF EXISTS "allow anon insert" ON public.mo_barcode_profiles;
+DROP POLICY IF EXISTS "allow anon select" ON public.mo_barcode_profiles;
+DROP POLICY IF EXISTS "allow anon delete" ON public.mo_barcode_profiles;
+DROP POLICY IF EXISTS "operator select" ON public.mo_barcode_profiles;
+CREATE POLICY "operator select" ON public.mo_barcode_profiles FOR SELECT TO authenticated USING (public.mo_has_role('operator'));
+DROP POLICY IF EXISTS "admin insert" ON public.mo_barcode_profiles;
+CREATE POLICY "admin insert" ON public.mo_barcode_profiles FOR INSERT TO authenticated WITH CHECK (public.mo_has_role('admin'));
+DROP POLICY IF EXISTS "admin update" ON public.mo_barcode_profiles;
+CREATE POLICY "admin update" ON public.mo_barcode_profiles FOR UPDATE TO authenticated USING (public.mo_has_role('admin'));
+DROP POLICY IF EXISTS "admin delete" ON public.mo_barcode_profiles;
+CREATE POLICY "admin delete" ON public.mo_barcode_profiles FOR DELETE TO authenticated USING (public.mo_has_role('admin'));
+
 -- Table: public.mo_ocr_results
 CREATE TABLE IF NOT EXISTS public.mo_ocr_results (
   id BIGSERIAL PRIMARY KEY,
@@ -7,53 +182,67 @@ CREATE TABLE IF NOT EXISTS public.mo_ocr_results (
   name TEXT,
   prefixes TEXT,
   text TEXT NOT NULL,
-  confidence REAL NOT NULL DEFAULT 0
+  confidence REAL NOT NULL DEFAULT 0,
+  manifest_id uuid REFERENCES public.mo_manifests(id) ON DELETE CASCADE
 );
 
--- Prevent duplicate rows for the same text within the same dataset context.
--- If you want global uniqueness by text only, keep the first index and remove the second.
+ALTER TABLE public.mo_ocr_results ADD COLUMN IF NOT EXISTS manifest_id uuid REFERENCES public.mo_manifests(id) ON DELETE CASCADE;
+
+-- Rows uploaded before manifests existed are kept under a single "Legacy import" manifest
 DO $$
+DECLARE
+  legacy_id uuid;
 BEGIN
-  IF NOT EXISTS (
-    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND indexname = 'mo_ocr_results_text_key'
-  ) THEN
-    CREATE UNIQUE INDEX mo_ocr_results_text_key ON public.mo_ocr_results (text);
+  IF EXISTS (SELECT 1 FROM public.mo_ocr_results WHERE manifest_id IS NULL) THEN
+    INSERT INTO public.mo_manifests (name) VALUES ('Legacy import') RETURNING id INTO legacy_id;
+    UPDATE public.mo_ocr_results SET manifest_id = legacy_id WHERE manifest_id IS NULL;
   END IF;
 END $$;
 
--- Enable RLS
-ALTER TABLE public.mo_ocr_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mo_ocr_results ALTER COLUMN manifest_id SET NOT NULL;
+
+-- Packing-list columns read next to the code (null when the list had no recognizable table)
+ALTER TABLE public.mo_ocr_results ADD COLUMN IF NOT EXISTS case_no TEXT;
+ALTER TABLE public.mo_ocr_results ADD COLUMN IF NOT EXISTS part_no TEXT;
+ALTER TABLE public.mo_ocr_results ADD COLUMN IF NOT EXISTS quantity INTEGER CHECK (quantity >= 0);
+ALTER TABLE public.mo_ocr_results ADD COLUMN IF NOT EXISTS weight NUMERIC(10, 3) CHECK (weight >= 0);
+
+-- Labels of this code on the manifest: a list can carry the same part code on several cases.
+-- The upload folds repeats into one row per code, so (manifest_id, text) stays unique.
+ALTER TABLE public.mo_ocr_results ADD COLUMN IF NOT EXISTS expected_count INTEGER NOT NULL DEFAULT 1 CHECK (expected_count >= 1);
+
+-- Prevent duplicate rows for the same text within the same manifest.
+-- The old global unique index on text is dropped so the same code can appear in several manifests.
+DROP INDEX IF EXISTS public.mo_ocr_results_text_key;
 
--- Policies
 DO $$
 BEGIN
   IF NOT EXISTS (
-    SELECT 1 FROM pg_policies
-    WHERE schemaname = 'public'
-      AND tablename = 'mo_ocr_results'
-      AND policyname = 'allow anon insert'
+    SELECT 1 FROM pg_indexes WHERE schemaname = 'public' AND indexname = 'mo_ocr_results_manifest_text_key'
   ) THEN
-    CREATE POLICY "allow anon insert"
-    ON public.mo_ocr_results
-    FOR INSERT
-    TO anon
-    WITH CHECK (true);
-  END IF;
-
-  IF NOT EXISTS (
-    SELECT 1 FROM pg_policies
-    WHERE schemaname = 'public'
-      AND tablename = 'mo_ocr_results'
-      AND policyname = 'allow anon select'
-  ) THEN
-    CREATE POLICY "allow anon select"
-    ON public.mo_ocr_results
-    FOR SELECT
-    TO anon
-    USING (true);
+    CREATE UNIQUE INDEX mo_ocr_results_manifest_text_key ON public.mo_ocr_results (manifest_id, text);
   END IF;
 END $$;
 
+-- Operators upload expected lists (new rows only); removing or correcting expected rows needs supervisor
+ALTER TABLE public.mo_ocr_results ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.mo_ocr_results FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.mo_ocr_results TO authenticated;
+
+DROP POLICY IF EXISTS "allow anon all" ON public.mo_ocr_results;
+DROP POLICY IF EXISTS "allow anon insert" ON public.mo_ocr_results;
+DROP POLICY IF EXISTS "allow anon select" ON public.mo_ocr_results;
+DROP POLICY IF EXISTS "allow anon delete" ON public.mo_ocr_results;
+DROP POLICY IF EXISTS "operator select" ON public.mo_ocr_results;
+CREATE POLICY "operator select" ON public.mo_ocr_results FOR SELECT TO authenticated USING (public.mo_has_role('operator'));
+DROP POLICY IF EXISTS "operator insert" ON public.mo_ocr_results;
+CREATE POLICY "operator insert" ON public.mo_ocr_results FOR INSERT TO authenticated WITH CHECK (public.mo_has_role('operator'));
+DROP POLICY IF EXISTS "operator update" ON public.mo_ocr_results;
+DROP POLICY IF EXISTS "supervisor update" ON public.mo_ocr_results;
+CREATE POLICY "supervisor update" ON public.mo_ocr_results FOR UPDATE TO authenticated USING (public.mo_has_role('supervisor')) WITH CHECK (public.mo_has_role('supervisor'));
+DROP POLICY IF EXISTS "supervisor delete" ON public.mo_ocr_results;
+CREATE POLICY "supervisor delete" ON public.mo_ocr_results FOR DELETE TO authenticated USING (public.mo_has_role('supervisor'));
+
 
 -- Optional: scans table (barcodes)
 CREATE TABLE IF NOT EXISTS public.mo_scans (
@@ -74,8 +263,6 @@ END $$;
 
 
 -- Scan sessions and items (to persist matched/unmatched results per run)
--- Requires pgcrypto for gen_random_uuid()
-CREATE EXTENSION IF NOT EXISTS pgcrypto;
 
 CREATE TABLE IF NOT EXISTS public.mo_scan_sessions (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -83,6 +270,12 @@ CREATE TABLE IF NOT EXISTS public.mo_scan_sessions (
   name text
 );
 
+-- A session is closed once its shipment has been checked; closed sessions stay readable for Match
+ALTER TABLE public.mo_scan_sessions ADD COLUMN IF NOT EXISTS closed_at timestamptz;
+
+-- The manifest (expected list) a session is checked against
+ALTER TABLE public.mo_scan_sessions ADD COLUMN IF NOT EXISTS manifest_id uuid REFERENCES public.mo_manifests(id) ON DELETE SET NULL;
+
 CREATE TABLE IF NOT EXISTS public.mo_scan_items (
   id bigserial PRIMARY KEY,
   created_at timestamptz DEFAULT now(),
@@ -92,6 +285,38 @@ CREATE TABLE IF NOT EXISTS public.mo_scan_items (
   matched boolean NOT NULL DEFAULT false
 );
 
+-- Other fields of a structured label (GS1 / MH10), by identifier
+ALTER TABLE public.mo_scan_items ADD COLUMN IF NOT EXISTS label_data jsonb;
+
+-- Times the code was scanned in the session; scan_ids are the client ids of those scans,
+-- so an outbox replay of the same scan is not counted twice
+ALTER TABLE public.mo_scan_items ADD COLUMN IF NOT EXISTS scan_count INTEGER NOT NULL DEFAULT 1 CHECK (scan_count >= 1);
+ALTER TABLE public.mo_scan_items ADD COLUMN IF NOT EXISTS scan_ids text[] NOT NULL DEFAULT '{}';
+-- Per counted scan_id after the first: the row's source, location, last_scanned_at and matched
+-- before and after that scan ({"<scan_id>": {"before": {...}, "after": {...}}}), so undoing the
+-- scan can put them back. Kept by mo_keep_scan_states, never by clients.
+ALTER TABLE public.mo_scan_items ADD COLUMN IF NOT EXISTS scan_states jsonb DEFAULT '{}';
+
+-- How the item was recorded (see ScanSource in scanSource.ts): a physical read by the wedge
+-- scanner or camera decoder, a camera OCR read, or a mark from a list (manual add, similarity
+-- match). manual_reason is the operator's reason for a manual add.
+ALTER TABLE public.mo_scan_items ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'scanner';
+ALTER TABLE public.mo_scan_items ADD COLUMN IF NOT EXISTS manual_reason text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'mo_scan_items_source') THEN
+    ALTER TABLE public.mo_scan_items ADD CONSTRAINT mo_scan_items_source
+      CHECK (source IN ('scanner', 'camera_decode', 'camera_ocr', 'manual', 'similarity'));
+  END IF;
+END $$;
+
+-- Rack/bin the code was last scanned at (a scanned location label such as LOC-2F-A03,
+-- see location.ts) and when. A scan replayed from the outbox after a newer one does not
+-- move the code back.
+ALTER TABLE public.mo_scan_items ADD COLUMN IF NOT EXISTS location text;
+ALTER TABLE public.mo_scan_items ADD COLUMN IF NOT EXISTS last_scanned_at timestamptz DEFAULT now();
+
 -- Uniqueness: one code per session
 DO $$
 BEGIN
@@ -102,50 +327,232 @@ BEGIN
   END IF;
 END $$;
 
+-- Location lookup: where a code was seen, across sessions
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname='public' AND indexname='mo_scan_items_text_idx'
+  ) THEN
+    CREATE INDEX mo_scan_items_text_idx ON public.mo_scan_items (text, last_scanned_at DESC);
+  END IF;
+END $$;
+
 ALTER TABLE public.mo_scan_sessions ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.mo_scan_sessions FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.mo_scan_sessions TO authenticated;
+
+DROP POLICY IF EXISTS "allow anon all" ON public.mo_scan_sessions;
+DROP POLICY IF EXISTS "allow anon insert" ON public.mo_scan_sessions;
+DROP POLICY IF EXISTS "allow anon select" ON public.mo_scan_sessions;
+DROP POLICY IF EXISTS "allow anon delete" ON public.mo_scan_sessions;
+DROP POLICY IF EXISTS "operator select" ON public.mo_scan_sessions;
+CREATE POLICY "operator select" ON public.mo_scan_sessions FOR SELECT TO authenticated USING (public.mo_has_role('operator'));
+DROP POLICY IF EXISTS "operator insert" ON public.mo_scan_sessions;
+CREATE POLICY "operator insert" ON public.mo_scan_sessions FOR INSERT TO authenticated WITH CHECK (public.mo_has_role('operator'));
+DROP POLICY IF EXISTS "operator update" ON public.mo_scan_sessions;
+CREATE POLICY "operator update" ON public.mo_scan_sessions FOR UPDATE TO authenticated USING (public.mo_has_role('operator')) WITH CHECK (public.mo_has_role('operator'));
+DROP POLICY IF EXISTS "admin delete" ON public.mo_scan_sessions;
+CREATE POLICY "admin delete" ON public.mo_scan_sessions FOR DELETE TO authenticated USING (public.mo_has_role('admin'));
+
+-- Clearing or editing recorded scans needs supervisor; operators only count, undo and match them
 ALTER TABLE public.mo_scan_items ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.mo_scan_items FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.mo_scan_items TO authenticated;
 
-GRANT USAGE ON SCHEMA public TO anon;
-GRANT SELECT, INSERT, UPDATE, DELETE ON public.mo_scan_sessions TO anon;
-GRANT SELECT, INSERT, UPDATE, DELETE ON public.mo_scan_items TO anon;
+DROP POLICY IF EXISTS "allow anon all" ON public.mo_scan_items;
+DROP POLICY IF EXISTS "allow anon insert" ON public.mo_scan_items;
+DROP POLICY IF EXISTS "allow anon select" ON public.mo_scan_items;
+DROP POLICY IF EXISTS "allow anon delete" ON public.mo_scan_items;
+DROP POLICY IF EXISTS "operator select" ON public.mo_scan_items;
+CREATE POLICY "operator select" ON public.mo_scan_items FOR SELECT TO authenticated USING (public.mo_has_role('operator'));
+DROP POLICY IF EXISTS "operator insert" ON public.mo_scan_items;
+CREATE POLICY "operator insert" ON public.mo_scan_items FOR INSERT TO authenticated WITH CHECK (public.mo_has_role('operator'));
+DROP POLICY IF EXISTS "operator update" ON public.mo_scan_items;
+CREATE POLICY "operator update" ON public.mo_scan_items FOR UPDATE TO authenticated USING (public.mo_has_role('operator')) WITH CHECK (public.mo_has_role('operator'));
+DROP POLICY IF EXISTS "supervisor delete" ON public.mo_scan_items;
+CREATE POLICY "supervisor delete" ON public.mo_scan_items FOR DELETE TO authenticated USING (public.mo_has_role('supervisor'));
 
-DO $$
+-- What an operator may change on a session: its name, and closing it once.
+-- Supervisors may change anything.
+CREATE OR REPLACE FUNCTION public.mo_guard_session_update()
+RETURNS TRIGGER AS $$
 BEGIN
-  IF NOT EXISTS (
-    SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='mo_scan_sessions' AND policyname='allow anon all'
-  ) THEN
-    CREATE POLICY "allow anon all" ON public.mo_scan_sessions FOR ALL TO anon USING (true) WITH CHECK (true);
+  IF public.mo_has_role('supervisor') THEN
+    RETURN NEW;
   END IF;
-  IF NOT EXISTS (
-    SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='mo_scan_items' AND policyname='allow anon all'
+  IF NEW.id IS DISTINCT FROM OLD.id OR NEW.created_at IS DISTINCT FROM OLD.created_at
+     OR NEW.manifest_id IS DISTINCT FROM OLD.manifest_id
+     OR (OLD.closed_at IS NOT NULL AND NEW.closed_at IS DISTINCT FROM OLD.closed_at) THEN
+    RAISE EXCEPTION 'supervisor role required' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- What an operator's write may change on a scan row (/api/scans, SEARCH add, mo_undo_scan):
+-- one scan more with its scan_id appended, and with it the source, location and time of that
+-- scan; one scan less with its scan_id removed; matched only to whether the code is on the
+-- session's manifest. The code, session, label and reason stay as recorded. Supervisors and
+-- the undo functions (mo_restore_rows, mo_undo_scan) are not limited.
+CREATE OR REPLACE FUNCTION public.mo_guard_scan_item_update()
+RETURNS TRIGGER AS $$
+DECLARE
+  counted boolean := NEW.scan_count = OLD.scan_count + 1
+    AND cardinality(NEW.scan_ids) = cardinality(OLD.scan_ids) + 1 AND NEW.scan_ids @> OLD.scan_ids;
+  uncounted boolean := NEW.scan_count = OLD.scan_count - 1
+    AND cardinality(NEW.scan_ids) = cardinality(OLD.scan_ids) - 1 AND OLD.scan_ids @> NEW.scan_ids;
+BEGIN
+  IF public.mo_has_role('supervisor') OR current_setting('mo.restoring', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.id IS DISTINCT FROM OLD.id OR NEW.created_at IS DISTINCT FROM OLD.created_at
+     OR NEW.session_id IS DISTINCT FROM OLD.session_id OR NEW.text IS DISTINCT FROM OLD.text
+     OR NEW.label_data IS DISTINCT FROM OLD.label_data OR NEW.manual_reason IS DISTINCT FROM OLD.manual_reason THEN
+    RAISE EXCEPTION 'supervisor role required to edit a scan' USING ERRCODE = '42501';
+  END IF;
+  IF NOT (counted OR uncounted OR (NEW.scan_count = OLD.scan_count AND NEW.scan_ids = OLD.scan_ids)) THEN
+    RAISE EXCEPTION 'scan_count only changes by one scan at a time' USING ERRCODE = '42501';
+  END IF;
+  IF NOT counted AND (NEW.source IS DISTINCT FROM OLD.source OR NEW.location IS DISTINCT FROM OLD.location
+     OR NEW.last_scanned_at IS DISTINCT FROM OLD.last_scanned_at) THEN
+    RAISE EXCEPTION 'source and location only change with a new scan' USING ERRCODE = '42501';
+  END IF;
+  IF NEW.matched IS DISTINCT FROM OLD.matched AND NEW.matched IS DISTINCT FROM EXISTS (
+    SELECT 1 FROM public.mo_scan_sessions s JOIN public.mo_ocr_results r ON r.manifest_id = s.manifest_id
+     WHERE s.id = NEW.session_id AND r.text = NEW.text
   ) THEN
-    CREATE POLICY "allow anon all" ON public.mo_scan_items FOR ALL TO anon USING (true) WITH CHECK (true);
+    RAISE EXCEPTION 'matched must follow the session manifest' USING ERRCODE = '42501';
   END IF;
-END $$;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
 
-ALTER TABLE public.mo_scans ENABLE ROW LEVEL SECURITY;
-GRANT USAGE ON SCHEMA public TO anon;
-GRANT SELECT, INSERT, UPDATE, DELETE ON public.mo_scans TO anon;
+-- Keeps scan_states: what clients send is ignored, a newly counted scan_id gets the row's
+-- fields before and after it, and undone scan_ids are dropped. Rows put back by an undo
+-- (mo_restore_rows) keep theirs.
+CREATE OR REPLACE FUNCTION public.mo_keep_scan_states()
+RETURNS TRIGGER AS $$
+DECLARE
+  added text;
+BEGIN
+  IF current_setting('mo.restoring', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    NEW.scan_states := '{}';
+    RETURN NEW;
+  END IF;
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}') INTO NEW.scan_states
+    FROM jsonb_each(COALESCE(OLD.scan_states, '{}'))
+   WHERE key = ANY (NEW.scan_ids);
+  IF NEW.scan_count = OLD.scan_count + 1 THEN
+    SELECT id INTO added FROM unnest(NEW.scan_ids) AS id WHERE NOT id = ANY (OLD.scan_ids) LIMIT 1;
+    IF added IS NOT NULL THEN
+      NEW.scan_states := NEW.scan_states || jsonb_build_object(added, jsonb_build_object(
+        'before', jsonb_build_object('source', OLD.source, 'location', OLD.location, 'last_scanned_at', OLD.last_scanned_at, 'matched', OLD.matched),
+        'after', jsonb_build_object('source', NEW.source, 'location', NEW.location, 'last_scanned_at', NEW.last_scanned_at, 'matched', NEW.matched)
+      ));
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
 
 DO $$
 BEGIN
-  IF NOT EXISTS (
-    SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='mo_scans' AND policyname='allow anon select'
-  ) THEN
-    CREATE POLICY "allow anon select" ON public.mo_scans FOR SELECT TO anon USING (true);
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'mo_scan_items_keep_scan_states') THEN
+    CREATE TRIGGER mo_scan_items_keep_scan_states
+    BEFORE INSERT OR UPDATE ON public.mo_scan_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.mo_keep_scan_states();
   END IF;
-  IF NOT EXISTS (
-    SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='mo_scans' AND policyname='allow anon insert'
-  ) THEN
-    CREATE POLICY "allow anon insert" ON public.mo_scans FOR INSERT TO anon WITH CHECK (true);
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'mo_scan_sessions_guard_update') THEN
+    CREATE TRIGGER mo_scan_sessions_guard_update
+    BEFORE UPDATE ON public.mo_scan_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.mo_guard_session_update();
   END IF;
-  IF NOT EXISTS (
-    SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='mo_scans' AND policyname='allow anon delete'
-  ) THEN
-    CREATE POLICY "allow anon delete" ON public.mo_scans FOR DELETE TO anon USING (true);
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'mo_scan_items_guard_update') THEN
+    CREATE TRIGGER mo_scan_items_guard_update
+    BEFORE UPDATE ON public.mo_scan_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.mo_guard_scan_item_update();
   END IF;
 END $$;
 
+-- Undo of one scan by its client scan_id (PDA undo history). Operators may not delete scan
+-- rows, so this runs as owner but only touches the row holding that scan: the count goes down
+-- by one, and the row goes away when it was its only scan. The source, location, scan time and
+-- matched the scan set go back to what they were before it (scan_states), unless a later write
+-- has changed them since. Returns the remaining count, or NULL when the scan is not there
+-- (already undone, or never arrived).
+CREATE OR REPLACE FUNCTION public.mo_undo_scan(p_session_id uuid, p_text text, p_scan_id text)
+RETURNS integer
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  item public.mo_scan_items;
+  prior jsonb;
+  scanned jsonb;
+BEGIN
+  IF NOT public.mo_has_role('operator') THEN
+    RAISE EXCEPTION 'operator role required' USING ERRCODE = '42501';
+  END IF;
+  SELECT * INTO item FROM public.mo_scan_items
+   WHERE session_id = p_session_id AND text = p_text AND p_scan_id = ANY (scan_ids)
+   FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  IF item.scan_count <= 1 THEN
+    DELETE FROM public.mo_scan_items WHERE id = item.id;
+    RETURN 0;
+  END IF;
+  prior := item.scan_states #> ARRAY[p_scan_id, 'before'];
+  scanned := item.scan_states #> ARRAY[p_scan_id, 'after'];
+  PERFORM set_config('mo.restoring', 'on', true);
+  UPDATE public.mo_scan_items
+     SET scan_count = scan_count - 1,
+         scan_ids = array_remove(scan_ids, p_scan_id),
+         scan_states = COALESCE(scan_states, '{}') - p_scan_id,
+         source = CASE WHEN scanned IS NOT NULL AND source IS NOT DISTINCT FROM scanned ->> 'source'
+           THEN prior ->> 'source' ELSE source END,
+         -- location and time move together, as a scan sets them
+         location = CASE WHEN scanned IS NOT NULL AND location IS NOT DISTINCT FROM scanned ->> 'location'
+             AND last_scanned_at IS NOT DISTINCT FROM (scanned ->> 'last_scanned_at')::timestamptz
+           THEN prior ->> 'location' ELSE location END,
+         last_scanned_at = CASE WHEN scanned IS NOT NULL AND location IS NOT DISTINCT FROM scanned ->> 'location'
+             AND last_scanned_at IS NOT DISTINCT FROM (scanned ->> 'last_scanned_at')::timestamptz
+           THEN (prior ->> 'last_scanned_at')::timestamptz ELSE last_scanned_at END,
+         matched = CASE WHEN scanned IS NOT NULL AND matched IS NOT DISTINCT FROM (scanned ->> 'matched')::boolean
+           THEN (prior ->> 'matched')::boolean ELSE matched END
+   WHERE id = item.id;
+  PERFORM set_config('mo.restoring', 'off', true);
+  RETURN item.scan_count - 1;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.mo_undo_scan(uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mo_undo_scan(uuid, text, text) TO authenticated;
+
+ALTER TABLE public.mo_scans ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.mo_scans FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.mo_scans TO authenticated;
+
+DROP POLICY IF EXISTS "allow anon all" ON public.mo_scans;
+DROP POLICY IF EXISTS "allow anon insert" ON public.mo_scans;
+DROP POLICY IF EXISTS "allow anon select" ON public.mo_scans;
+DROP POLICY IF EXISTS "allow anon delete" ON public.mo_scans;
+DROP POLICY IF EXISTS "operator select" ON public.mo_scans;
+CREATE POLICY "operator select" ON public.mo_scans FOR SELECT TO authenticated USING (public.mo_has_role('operator'));
+DROP POLICY IF EXISTS "operator insert" ON public.mo_scans;
+CREATE POLICY "operator insert" ON public.mo_scans FOR INSERT TO authenticated WITH CHECK (public.mo_has_role('operator'));
+DROP POLICY IF EXISTS "operator update" ON public.mo_scans;
+DROP POLICY IF EXISTS "supervisor update" ON public.mo_scans;
+CREATE POLICY "supervisor update" ON public.mo_scans FOR UPDATE TO authenticated USING (public.mo_has_role('supervisor')) WITH CHECK (public.mo_has_role('supervisor'));
+DROP POLICY IF EXISTS "supervisor delete" ON public.mo_scans;
+CREATE POLICY "supervisor delete" ON public.mo_scans FOR DELETE TO authenticated USING (public.mo_has_role('supervisor'));
+
 -- Inventory table for receiving and disposing products
 CREATE TABLE IF NOT EXISTS public.mo_lq2_inventory (
   id BIGSERIAL PRIMARY KEY,
@@ -157,6 +564,12 @@ CREATE TABLE IF NOT EXISTS public.mo_lq2_inventory (
   prefixes TEXT
 );
 
+-- Other fields of a structured label (GS1 / MH10), by identifier
+ALTER TABLE public.mo_lq2_inventory ADD COLUMN IF NOT EXISTS label_data jsonb;
+
+-- Rack/bin the barcode was received at (scanned location label)
+ALTER TABLE public.mo_lq2_inventory ADD COLUMN IF NOT EXISTS location text;
+
 -- Unique constraint for barcode (one barcode can only be received once)
 DO $$
 BEGIN
@@ -187,22 +600,23 @@ BEGIN
   END IF;
 END $$;
 
--- Enable RLS
+-- Receiving is open to operators; disposal (UPDATE of disposed_at) needs supervisor
 ALTER TABLE public.mo_lq2_inventory ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.mo_lq2_inventory FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.mo_lq2_inventory TO authenticated;
 
--- Grant permissions
-GRANT USAGE ON SCHEMA public TO anon;
-GRANT SELECT, INSERT, UPDATE, DELETE ON public.mo_lq2_inventory TO anon;
-
--- Policies for inventory
-DO $$
-BEGIN
-  IF NOT EXISTS (
-    SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='mo_lq2_inventory' AND policyname='allow anon all'
-  ) THEN
-    CREATE POLICY "allow anon all" ON public.mo_lq2_inventory FOR ALL TO anon USING (true) WITH CHECK (true);
-  END IF;
-END $$;
+DROP POLICY IF EXISTS "allow anon all" ON public.mo_lq2_inventory;
+DROP POLICY IF EXISTS "allow anon insert" ON public.mo_lq2_inventory;
+DROP POLICY IF EXISTS "allow anon select" ON public.mo_lq2_inventory;
+DROP POLICY IF EXISTS "allow anon delete" ON public.mo_lq2_inventory;
+DROP POLICY IF EXISTS "operator select" ON public.mo_lq2_inventory;
+CREATE POLICY "operator select" ON public.mo_lq2_inventory FOR SELECT TO authenticated USING (public.mo_has_role('operator'));
+DROP POLICY IF EXISTS "operator insert" ON public.mo_lq2_inventory;
+CREATE POLICY "operator insert" ON public.mo_lq2_inventory FOR INSERT TO authenticated WITH CHECK (public.mo_has_role('operator'));
+DROP POLICY IF EXISTS "supervisor update" ON public.mo_lq2_inventory;
+CREATE POLICY "supervisor update" ON public.mo_lq2_inventory FOR UPDATE TO authenticated USING (public.mo_has_role('supervisor'));
+DROP POLICY IF EXISTS "admin delete" ON public.mo_lq2_inventory;
+CREATE POLICY "admin delete" ON public.mo_lq2_inventory FOR DELETE TO authenticated USING (public.mo_has_role('admin'));
 
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -226,3 +640,338 @@ BEGIN
   END IF;
 END $$;
 
+-- Operator identity on every scan and inventory row (set by trigger from the signed-in user)
+ALTER TABLE public.mo_scan_items ADD COLUMN IF NOT EXISTS operator_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE public.mo_scans ADD COLUMN IF NOT EXISTS operator_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE public.mo_lq2_inventory ADD COLUMN IF NOT EXISTS operator_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE public.mo_lq2_inventory ADD COLUMN IF NOT EXISTS disposed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Records who disposed an item whenever disposed_at changes
+CREATE OR REPLACE FUNCTION public.mo_stamp_disposal()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.disposed_at IS DISTINCT FROM OLD.disposed_at THEN
+    NEW.disposed_by := CASE WHEN NEW.disposed_at IS NULL THEN NULL ELSE auth.uid() END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  -- Scan rows carry whoever last counted, edited or undid them
+  CREATE OR REPLACE TRIGGER mo_scan_items_stamp_operator
+  BEFORE INSERT OR UPDATE ON public.mo_scan_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mo_stamp_operator();
+  CREATE OR REPLACE TRIGGER mo_scans_stamp_operator
+  BEFORE INSERT OR UPDATE ON public.mo_scans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mo_stamp_operator();
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'mo_lq2_inventory_stamp_operator') THEN
+    CREATE TRIGGER mo_lq2_inventory_stamp_operator
+    BEFORE INSERT ON public.mo_lq2_inventory
+    FOR EACH ROW
+    EXECUTE FUNCTION public.mo_stamp_operator();
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'mo_lq2_inventory_stamp_disposal') THEN
+    CREATE TRIGGER mo_lq2_inventory_stamp_disposal
+    BEFORE UPDATE ON public.mo_lq2_inventory
+    FOR EACH ROW
+    EXECUTE FUNCTION public.mo_stamp_disposal();
+  END IF;
+END $$;
+
+-- Table: public.mo_audit_events
+-- Append-only history of every insert, edit and delete on expected lists, scans and inventory.
+-- Filled by triggers; device comes from the x-mo-device header the app sends with every request.
+CREATE TABLE IF NOT EXISTS public.mo_audit_events (
+  id bigserial PRIMARY KEY,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  actor_id uuid,
+  device text,
+  action text NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  table_name text NOT NULL,
+  row_id text,
+  barcode text,
+  old_values jsonb,
+  new_values jsonb
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname='public' AND indexname='mo_audit_events_barcode_idx'
+  ) THEN
+    CREATE INDEX mo_audit_events_barcode_idx ON public.mo_audit_events (barcode, created_at DESC);
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname='public' AND indexname='mo_audit_events_created_idx'
+  ) THEN
+    CREATE INDEX mo_audit_events_created_idx ON public.mo_audit_events (created_at DESC);
+  END IF;
+END $$;
+
+-- Runs as owner so operators can write history without any INSERT grant on the table
+CREATE OR REPLACE FUNCTION public.mo_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  old_row jsonb := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END;
+  new_row jsonb := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END;
+  headers json := NULLIF(current_setting('request.headers', true), '')::json;
+BEGIN
+  INSERT INTO public.mo_audit_events (actor_id, device, action, table_name, row_id, barcode, old_values, new_values)
+  VALUES (
+    auth.uid(),
+    headers ->> 'x-mo-device',
+    TG_OP,
+    TG_TABLE_NAME,
+    COALESCE(new_row ->> 'id', old_row ->> 'id'),
+    COALESCE(new_row ->> 'text', new_row ->> 'barcode', old_row ->> 'text', old_row ->> 'barcode'),
+    old_row,
+    new_row
+  );
+  RETURN NULL;
+END;
+$$;
+
+-- History cannot be rewritten, not even by admins through the API
+CREATE OR REPLACE FUNCTION public.mo_audit_immutable()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'mo_audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'mo_audit_events_immutable') THEN
+    CREATE TRIGGER mo_audit_events_immutable
+    BEFORE UPDATE OR DELETE ON public.mo_audit_events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.mo_audit_immutable();
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'mo_ocr_results_audit') THEN
+    CREATE TRIGGER mo_ocr_results_audit
+    AFTER INSERT OR UPDATE OR DELETE ON public.mo_ocr_results
+    FOR EACH ROW
+    EXECUTE FUNCTION public.mo_audit();
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'mo_scan_items_audit') THEN
+    CREATE TRIGGER mo_scan_items_audit
+    AFTER INSERT OR UPDATE OR DELETE ON public.mo_scan_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.mo_audit();
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'mo_lq2_inventory_audit') THEN
+    CREATE TRIGGER mo_lq2_inventory_audit
+    AFTER INSERT OR UPDATE OR DELETE ON public.mo_lq2_inventory
+    FOR EACH ROW
+    EXECUTE FUNCTION public.mo_audit();
+  END IF;
+END $$;
+
+ALTER TABLE public.mo_audit_events ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.mo_audit_events FROM anon;
+REVOKE ALL ON public.mo_audit_events FROM authenticated;
+GRANT SELECT ON public.mo_audit_events TO authenticated;
+
+DROP POLICY IF EXISTS "supervisor select" ON public.mo_audit_events;
+CREATE POLICY "supervisor select" ON public.mo_audit_events FOR SELECT TO authenticated USING (public.mo_has_role('supervisor'));
+
+
+-- Realtime: scan, expected and inventory changes are pushed to every open PDA.
+-- Events still go through RLS, so each device only receives rows it may select.
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    FOREACH t IN ARRAY ARRAY['mo_scan_items', 'mo_ocr_results', 'mo_lq2_inventory'] LOOP
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+      ) THEN
+        EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+      END IF;
+    END LOOP;
+  END IF;
+END $$;
+
+
+-- Table: public.mo_ocr_corrections
+-- Every OCR value an operator fixed (Search "match similar", CAMERA edits, OCR review).
+-- The pages build a character-confusion model per barcode profile from these pairs.
+-- profile_id NULL = the built-in 1M/2M spec.
+CREATE TABLE IF NOT EXISTS public.mo_ocr_corrections (
+  id BIGSERIAL PRIMARY KEY,
+  created_at timestamptz DEFAULT now(),
+  profile_id uuid REFERENCES public.mo_barcode_profiles(id) ON DELETE CASCADE,
+  ocr_text text NOT NULL,
+  corrected_text text NOT NULL,
+  source text NOT NULL CHECK (source IN ('search', 'camera', 'review')),
+  operator_id uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes WHERE schemaname='public' AND indexname='mo_ocr_corrections_profile_idx'
+  ) THEN
+    CREATE INDEX mo_ocr_corrections_profile_idx ON public.mo_ocr_corrections (profile_id, id DESC);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'mo_ocr_corrections_stamp_operator') THEN
+    CREATE TRIGGER mo_ocr_corrections_stamp_operator
+    BEFORE INSERT ON public.mo_ocr_corrections
+    FOR EACH ROW
+    EXECUTE FUNCTION public.mo_stamp_operator();
+  END IF;
+END $$;
+
+ALTER TABLE public.mo_ocr_corrections ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.mo_ocr_corrections FROM anon;
+GRANT SELECT, INSERT ON public.mo_ocr_corrections TO authenticated;
+
+DROP POLICY IF EXISTS "operator select" ON public.mo_ocr_corrections;
+CREATE POLICY "operator select" ON public.mo_ocr_corrections FOR SELECT TO authenticated USING (public.mo_has_role('operator'));
+DROP POLICY IF EXISTS "operator insert" ON public.mo_ocr_corrections;
+CREATE POLICY "operator insert" ON public.mo_ocr_corrections FOR INSERT TO authenticated WITH CHECK (public.mo_has_role('operator'));
+
+
+-- Table: public.mo_undo_snapshots
+-- Expected or scan rows as they were before a SEARCH edit, for the device's undo history
+-- (undoStack.ts keeps only the snapshot ids). Written and read only through the functions
+-- below; a snapshot can be put back by the operator and device that took it, over the rows
+-- that operator changed on that device since (see mo_restore_rows).
+CREATE TABLE IF NOT EXISTS public.mo_undo_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  operator_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  device text NOT NULL,
+  table_name text NOT NULL CHECK (table_name IN ('mo_ocr_results', 'mo_scan_items')),
+  scope_id uuid NOT NULL, -- manifest_id or session_id
+  texts text[] NOT NULL,
+  rows jsonb NOT NULL,
+  restored_at timestamptz
+);
+
+ALTER TABLE public.mo_undo_snapshots ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.mo_undo_snapshots FROM anon;
+REVOKE ALL ON public.mo_undo_snapshots FROM authenticated;
+
+-- Keep the rows of p_table in a manifest (mo_ocr_results) or session (mo_scan_items) with
+-- these codes, before a write changes them. Returns the snapshot id. Older snapshots are
+-- dropped, the undo history only reaches back a few edits.
+CREATE OR REPLACE FUNCTION public.mo_snapshot_rows(p_table text, p_scope_id uuid, p_texts text[])
+RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  caller_device text := NULLIF(current_setting('request.headers', true), '')::json ->> 'x-mo-device';
+  scope_column text;
+  snapshot_rows jsonb;
+  snapshot_id uuid;
+BEGIN
+  IF NOT public.mo_has_role('operator') THEN
+    RAISE EXCEPTION 'operator role required' USING ERRCODE = '42501';
+  END IF;
+  IF caller_device IS NULL THEN
+    RAISE EXCEPTION 'x-mo-device header required' USING ERRCODE = '22023';
+  END IF;
+  scope_column := CASE p_table WHEN 'mo_ocr_results' THEN 'manifest_id' WHEN 'mo_scan_items' THEN 'session_id' END;
+  IF scope_column IS NULL THEN
+    RAISE EXCEPTION 'cannot snapshot %', p_table USING ERRCODE = '22023';
+  END IF;
+  EXECUTE format('SELECT COALESCE(jsonb_agg(to_jsonb(t)), ''[]''::jsonb) FROM public.%I t WHERE %I = $1 AND text = ANY ($2)', p_table, scope_column)
+    INTO snapshot_rows USING p_scope_id, p_texts;
+  DELETE FROM public.mo_undo_snapshots WHERE created_at < now() - interval '7 days';
+  INSERT INTO public.mo_undo_snapshots (operator_id, device, table_name, scope_id, texts, rows)
+  VALUES (auth.uid(), caller_device, p_table, p_scope_id, p_texts, snapshot_rows)
+  RETURNING id INTO snapshot_id;
+  RETURN snapshot_id;
+END;
+$$;
+
+-- Undo of a SEARCH edit: puts the snapshot's rows back, ids and operator included. Runs as
+-- owner, so operators can undo their own edits without delete rights, but only snapshots taken
+-- by the same operator on the same device, and never in a closed session.
+-- The audit history ties the snapshot to the write it guarded: only codes whose rows changed
+-- since the snapshot are put back, and only when each of those changes came from that operator
+-- on that device. Codes nobody touched are left as they are; a code changed by someone else in
+-- between refuses the undo. Bringing back a row the write deleted needs the role the delete
+-- needed. Returns the number of rows put back; a snapshot already restored returns NULL, so
+-- undoing twice is harmless.
+CREATE OR REPLACE FUNCTION public.mo_restore_rows(p_snapshot_id uuid)
+RETURNS integer
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  caller_device text := NULLIF(current_setting('request.headers', true), '')::json ->> 'x-mo-device';
+  snapshot public.mo_undo_snapshots;
+  scope_column text;
+  touched text[];
+  foreign_change boolean;
+  restored jsonb;
+  row_deleted boolean;
+BEGIN
+  IF NOT public.mo_has_role('operator') THEN
+    RAISE EXCEPTION 'operator role required' USING ERRCODE = '42501';
+  END IF;
+  SELECT * INTO snapshot FROM public.mo_undo_snapshots WHERE id = p_snapshot_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'undo snapshot not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF snapshot.operator_id IS DISTINCT FROM auth.uid() OR snapshot.device IS DISTINCT FROM caller_device THEN
+    RAISE EXCEPTION 'undo belongs to another operator or device' USING ERRCODE = '42501';
+  END IF;
+  IF snapshot.restored_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+  IF snapshot.table_name = 'mo_scan_items'
+     AND EXISTS (SELECT 1 FROM public.mo_scan_sessions WHERE id = snapshot.scope_id AND closed_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Session is closed' USING ERRCODE = '55000';
+  END IF;
+
+  -- Codes of the snapshot written since it was taken, before or after each change
+  -- (renaming a code touches both the old and the new code)
+  scope_column := CASE snapshot.table_name WHEN 'mo_ocr_results' THEN 'manifest_id' ELSE 'session_id' END;
+  SELECT COALESCE(array_agg(DISTINCT r.row_values ->> 'text'), '{}'),
+         COALESCE(bool_or(e.actor_id IS DISTINCT FROM snapshot.operator_id OR e.device IS DISTINCT FROM snapshot.device), false)
+    INTO touched, foreign_change
+    FROM public.mo_audit_events e
+    CROSS JOIN LATERAL (VALUES (e.old_values), (e.new_values)) AS r(row_values)
+   WHERE e.table_name = snapshot.table_name
+     AND e.created_at >= snapshot.created_at
+     AND r.row_values ->> scope_column = snapshot.scope_id::text
+     AND r.row_values ->> 'text' = ANY (snapshot.texts);
+  IF foreign_change THEN
+    RAISE EXCEPTION 'changed by another operator or device since' USING ERRCODE = '55000';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(v.row_values), '[]'::jsonb) INTO restored
+    FROM jsonb_array_elements(snapshot.rows) AS v(row_values)
+   WHERE v.row_values ->> 'text' = ANY (touched);
+  EXECUTE format('SELECT EXISTS (SELECT 1 FROM jsonb_array_elements($1) AS v(row_values) WHERE NOT EXISTS (SELECT 1 FROM public.%I t WHERE t.id = (v.row_values ->> ''id'')::bigint))', snapshot.table_name)
+    INTO row_deleted USING restored;
+  IF row_deleted AND NOT public.mo_has_role('supervisor') THEN
+    RAISE EXCEPTION 'supervisor role required' USING ERRCODE = '42501';
+  END IF;
+
+  EXECUTE format('DELETE FROM public.%I WHERE %I = $1 AND text = ANY ($2)', snapshot.table_name, scope_column)
+    USING snapshot.scope_id, touched;
+  PERFORM set_config('mo.restoring', 'on', true);
+  EXECUTE format('INSERT INTO public.%I SELECT * FROM jsonb_populate_recordset(NULL::public.%I, $1)', snapshot.table_name, snapshot.table_name)
+    USING restored;
+  PERFORM set_config('mo.restoring', 'off', true);
+  UPDATE public.mo_undo_snapshots SET restored_at = now() WHERE id = snapshot.id;
+  RETURN jsonb_array_length(restored);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.mo_snapshot_rows(text, uuid, text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mo_snapshot_rows(text, uuid, text[]) TO authenticated;
+REVOKE ALL ON FUNCTION public.mo_restore_rows(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mo_restore_rows(uuid) TO authenticated;